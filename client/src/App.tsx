@@ -0,0 +1,90 @@
+import { Router, Route, Switch, useLocation } from "wouter";
+import { QueryClientProvider, type QueryClient } from "@tanstack/react-query";
+import { CookieBanner } from "@/components/consent/CookieBanner";
+import { Toaster } from "@/components/ui/toaster";
+import { Home } from "./pages/Home";
+import { Sostenibilita } from "./pages/Sostenibilita";
+import { default as Certificazioni } from "./pages/Certificazioni";
+import { CiPresentiamo } from "./pages/CiPresentiamo";
+import { Servizi } from "./pages/Servizi";
+import { Realizzazioni } from "./pages/Realizzazioni";
+import { RealizzazioneDettaglio } from "./pages/RealizzazioneDettaglio";
+import { Testimonianza } from "./pages/Testimonianza";
+import { Privacy } from "./pages/Privacy";
+import { NotFound } from "./pages/NotFound";
+import { Admin } from "./pages/admin/Admin";
+import { DEFAULT_LOCALE } from "@db/schema";
+import { usePageViewTracking } from "./lib/analytics";
+import { ConsentProvider } from "./lib/consent";
+import { LocaleProvider, localeFromPath } from "./lib/i18n";
+
+interface AppProps {
+  queryClient: QueryClient;
+  /** Location to render on the server; the browser location is used otherwise. */
+  ssrPath?: string;
+  ssrSearch?: string;
+}
+
+function PublicRoutes() {
+  return (
+    <Switch>
+      <Route path="/" component={Home} />
+      <Route path="/sostenibilita" component={Sostenibilita} />
+      <Route path="/certificazioni" component={Certificazioni} />
+      <Route path="/ci-presentiamo" component={CiPresentiamo} />
+      <Route path="/servizi" component={Servizi} />
+      <Route path="/realizzazioni" component={Realizzazioni} />
+      <Route path="/realizzazioni/:slug" component={RealizzazioneDettaglio} />
+      <Route path="/testimonianza" component={Testimonianza} />
+      <Route path="/privacy" component={Privacy} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
+// English and German pages live under /en and /de: the nested router strips
+// the prefix, so pages and their links only deal with the Italian paths.
+function LocalizedRoutes() {
+  const [location] = useLocation();
+  const locale = localeFromPath(location);
+  usePageViewTracking(location);
+
+  return (
+    <LocaleProvider locale={locale}>
+      {locale === DEFAULT_LOCALE ? (
+        <PublicRoutes />
+      ) : (
+        <Router base={`/${locale}`}>
+          <PublicRoutes />
+        </Router>
+      )}
+      <CookieBanner />
+    </LocaleProvider>
+  );
+}
+
+function Routes() {
+  return (
+    <Switch>
+      <Route path="/admin" nest>
+        <Admin />
+      </Route>
+      <Route component={LocalizedRoutes} />
+    </Switch>
+  );
+}
+
+// Shared by the browser entry (main.tsx) and the server renderer
+// (entry-server.tsx).
+export function App({ queryClient, ssrPath, ssrSearch }: AppProps) {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ConsentProvider>
+        <Router ssrPath={ssrPath} ssrSearch={ssrSearch}>
+          <Routes />
+        </Router>
+      </ConsentProvider>
+      <Toaster />
+    </QueryClientProvider>
+  );
+}
@@ -0,0 +1,89 @@
+import { Link, useLocation } from "wouter";
+import {
+  BarChart3,
+  BookOpen,
+  Building2,
+  ClipboardList,
+  FileText,
+  FolderKanban,
+  Inbox,
+  Lock,
+  LogOut,
+  MessageSquareQuote,
+  ShieldCheck,
+} from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useUser } from "@/hooks/use-user";
+
+const ADMIN_NAVIGATION = [
+  { label: "Preventivi", href: "/preventivi", icon: ClipboardList },
+  { label: "Messaggi", href: "/messaggi", icon: Inbox },
+  { label: "Statistiche", href: "/statistiche", icon: BarChart3 },
+  { label: "Progetti", href: "/progetti", icon: FolderKanban },
+  { label: "Case history", href: "/case-history", icon: BookOpen },
+  { label: "Testimonianze", href: "/testimonianze", icon: MessageSquareQuote },
+  { label: "Certificazioni", href: "/certificazioni", icon: ShieldCheck },
+  { label: "Contenuti", href: "/contenuti", icon: FileText },
+  { label: "Dati aziendali", href: "/dati-aziendali", icon: Building2 },
+  { label: "Privacy", href: "/privacy", icon: Lock },
+];
+
+export function AdminSidebar() {
+  const [location] = useLocation();
+  const { user, logout } = useUser();
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        {/* "~" leaves the /admin nest: the logo goes to the public site. */}
+        <Link href="~/">
+          <img
+            src="/images/logo_dfrestauri_transparent.png"
+            alt="DF Restauri"
+            className="h-10 w-auto object-contain"
+          />
+        </Link>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Gestione sito</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {ADMIN_NAVIGATION.map((item) => (
+                <SidebarMenuItem key={item.href}>
+                  <SidebarMenuButton asChild isActive={location.startsWith(item.href)}>
+                    <Link href={item.href}>
+                      <item.icon />
+                      <span>{item.label}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={() => logout.mutate()}>
+              <LogOut />
+              <span>Esci ({user?.username})</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Trash2 } from "lucide-react";
+import { quotePhotoLimits, type BeforeAfterPair } from "@db/schema";
+import { BeforeAfterSlider } from "@/components/gallery/BeforeAfterSlider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface BeforeAfterManagerProps<T extends { beforeAfter: BeforeAfterPair[] }> {
+  pairs: BeforeAfterPair[];
+  /** Collection endpoint, e.g. /api/projects/3/before-after. */
+  endpoint: string;
+  onUpdated: (updated: T) => void;
+}
+
+// Upload form and list of the before/after pairs of a project or case history.
+export function BeforeAfterManager<T extends { beforeAfter: BeforeAfterPair[] }>({
+  pairs,
+  endpoint,
+  onUpdated,
+}: BeforeAfterManagerProps<T>) {
+  const { toast } = useToast();
+  const [before, setBefore] = useState<File | null>(null);
+  const [after, setAfter] = useState<File | null>(null);
+  const [caption, setCaption] = useState("");
+  const [formKey, setFormKey] = useState(0);
+
+  const uploadPair = useMutation({
+    mutationFn: () => {
+      const body = new FormData();
+      body.append("before", before!);
+      body.append("after", after!);
+      body.append("caption", caption);
+      return apiRequest<T>("POST", endpoint, body);
+    },
+    onSuccess: (updated) => {
+      onUpdated(updated);
+      setBefore(null);
+      setAfter(null);
+      setCaption("");
+      // Remount the file inputs so they forget the previous selection.
+      setFormKey((key) => key + 1);
+      toast({ title: "Coppia prima/dopo aggiunta" });
+    },
+    onError: (uploadError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Caricamento non riuscito",
+        description: uploadError.message,
+      });
+    },
+  });
+
+  const removePair = useMutation({
+    mutationFn: (index: number) => apiRequest<T>("DELETE", `${endpoint}/${index}`),
+    onSuccess: (updated) => {
+      onUpdated(updated);
+      toast({ title: "Coppia prima/dopo eliminata" });
+    },
+    onError: (removeError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: removeError.message,
+      });
+    },
+  });
+
+  function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    uploadPair.mutate();
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Nuova coppia prima/dopo</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form key={formKey} onSubmit={onSubmit} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Usa due foto scattate dallo stesso punto: la foto "dopo" viene ritagliata
+              sull'inquadratura della foto "prima" perché si sovrappongano esattamente.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="before-photo">Foto prima</Label>
+                <Input
+                  id="before-photo"
+                  type="file"
+                  accept={quotePhotoLimits.mimeTypes.join(",")}
+                  onChange={(e) => setBefore(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="after-photo">Foto dopo</Label>
+                <Input
+                  id="after-photo"
+                  type="file"
+                  accept={quotePhotoLimits.mimeTypes.join(",")}
+                  onChange={(e) => setAfter(e.target.files?.[0] ?? null)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-caption">Didascalia</Label>
+              <Input
+                id="pair-caption"
+                placeholder="Facoltativa, es. Facciata nord"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={!before || !after || uploadPair.isPending}>
+              {uploadPair.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Carica
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {pairs.length === 0 ? (
+        <p className="text-muted-foreground text-center py-6">
+          Nessuna foto prima/dopo.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {pairs.map((pair, index) => (
+            <div key={pair.before} className="space-y-2">
+              <BeforeAfterSlider pair={pair} />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={removePair.isPending}
+                onClick={() => removePair.mutate(index)}
+              >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Elimina
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
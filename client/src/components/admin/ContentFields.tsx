@@ -0,0 +1,185 @@
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+const FIELD_LABELS: Record<string, string> = {
+  storia: "La nostra storia",
+  valori: "Valori aziendali",
+  mission: "Mission",
+  vision: "Vision",
+  intro: "Introduzione",
+  home: "Sezione in home page",
+  cta: "Invito all'azione",
+  commitment: "Impegno",
+  title: "Titolo",
+  content: "Testo",
+  items: "Elenco",
+  points: "Punti",
+  members: "Membri",
+  name: "Nome",
+  role: "Ruolo",
+  avatar: "Foto (percorso immagine)",
+  social: "Profili social",
+  facebook: "Facebook",
+  twitter: "Twitter",
+  instagram: "Instagram",
+  initiatives: "Iniziative",
+  id: "Identificativo",
+  description: "Descrizione",
+  longDescription: "Descrizione estesa",
+  features: "Caratteristiche",
+};
+
+const LONG_TEXT_FIELDS = ["content", "description", "longDescription"];
+
+function labelFor(key: string) {
+  return FIELD_LABELS[key] ?? key;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  return schema instanceof z.ZodOptional ? unwrap(schema.unwrap()) : schema;
+}
+
+// Empty value matching a schema, used when staff add an item to a list.
+function blankValue(schema: z.ZodTypeAny): unknown {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodObject) {
+    return Object.fromEntries(
+      Object.entries(inner.shape as z.ZodRawShape).map(([key, value]) => [key, blankValue(value)]),
+    );
+  }
+  if (inner instanceof z.ZodArray) {
+    return [];
+  }
+  if (inner instanceof z.ZodEnum) {
+    return inner.options[0];
+  }
+  return "";
+}
+
+interface ContentFieldsProps {
+  schema: z.ZodTypeAny;
+  name: string;
+  fieldKey: string;
+}
+
+/**
+ * Renders form controls for a content section by walking its zod schema:
+ * objects become fieldsets, arrays become editable lists and strings become
+ * inputs bound to the surrounding react-hook-form instance.
+ */
+export function ContentFields({ schema, name, fieldKey }: ContentFieldsProps) {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject) {
+    return (
+      <fieldset className="space-y-4 rounded-lg border p-4">
+        <legend className="px-2 text-sm font-semibold">{labelFor(fieldKey)}</legend>
+        {Object.entries(inner.shape as z.ZodRawShape).map(([key, child]) => (
+          <ContentFields
+            key={key}
+            schema={child}
+            name={name ? `${name}.${key}` : key}
+            fieldKey={key}
+          />
+        ))}
+      </fieldset>
+    );
+  }
+
+  if (inner instanceof z.ZodArray) {
+    return <ContentList schema={inner.element} name={name} fieldKey={fieldKey} />;
+  }
+
+  return <ContentInput name={name} fieldKey={fieldKey} readOnly={inner instanceof z.ZodEnum} />;
+}
+
+function ContentList({ schema, name, fieldKey }: ContentFieldsProps) {
+  const form = useFormContext();
+  const values: unknown[] = form.watch(name) ?? [];
+
+  const addItem = () => {
+    form.setValue(name, [...values, blankValue(schema)], { shouldDirty: true });
+  };
+
+  const removeItem = (index: number) => {
+    form.setValue(
+      name,
+      values.filter((_, i) => i !== index),
+      { shouldDirty: true },
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{labelFor(fieldKey)}</span>
+        <Button type="button" variant="outline" size="sm" onClick={addItem}>
+          <Plus className="mr-1 h-4 w-4" />
+          Aggiungi
+        </Button>
+      </div>
+      {values.map((_, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1">
+            <ContentFields
+              schema={schema}
+              name={`${name}.${index}`}
+              fieldKey={`${labelFor(fieldKey)} ${index + 1}`}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Rimuovi"
+            onClick={() => removeItem(index)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ContentInputProps {
+  name: string;
+  fieldKey: string;
+  readOnly: boolean;
+}
+
+function ContentInput({ name, fieldKey, readOnly }: ContentInputProps) {
+  const form = useFormContext();
+  const isLongText = LONG_TEXT_FIELDS.includes(fieldKey);
+
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{labelFor(fieldKey)}</FormLabel>
+          <FormControl>
+            {isLongText ? (
+              <Textarea className="min-h-[120px]" {...field} value={field.value ?? ""} />
+            ) : (
+              <Input {...field} value={field.value ?? ""} readOnly={readOnly} />
+            )}
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
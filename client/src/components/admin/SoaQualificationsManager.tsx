@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  soaCategories,
+  soaClassifications,
+  type SoaCategory,
+  type SoaClassification,
+  type SoaQualification,
+} from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { SOA_CATEGORY_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface QualificationRow {
+  category: SoaCategory;
+  classification: SoaClassification;
+}
+
+// Edits the categories and classifiche of an SOA attestation; the list is
+// saved as a whole.
+export function SoaQualificationsManager({ certificationId }: { certificationId: number }) {
+  const { toast } = useToast();
+  const endpoint = `/api/certifications/${certificationId}/soa-qualifications`;
+  const [rows, setRows] = useState<QualificationRow[]>([]);
+
+  const { data: qualifications, isLoading } = useQuery<SoaQualification[]>({
+    queryKey: [endpoint],
+  });
+
+  useEffect(() => {
+    if (qualifications) {
+      setRows(qualifications.map(({ category, classification }) => ({ category, classification })));
+    }
+  }, [qualifications]);
+
+  const saveQualifications = useMutation({
+    mutationFn: () => apiRequest<SoaQualification[]>("PUT", endpoint, { qualifications: rows }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData([endpoint], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/soa-qualifications"] });
+      toast({ title: "Qualificazioni salvate" });
+    },
+    onError: (saveError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  const usedCategories = new Set(rows.map(({ category }) => category));
+  const nextCategory = soaCategories.find((category) => !usedCategories.has(category));
+
+  function updateRow(index: number, update: Partial<QualificationRow>) {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categorie SOA</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {rows.length === 0 && (
+              <p className="text-muted-foreground text-sm">Nessuna categoria.</p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Select
+                  value={row.category}
+                  onValueChange={(category) => updateRow(index, { category: category as SoaCategory })}
+                >
+                  <SelectTrigger className="flex-1" aria-label="Categoria">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {soaCategories
+                      .filter((category) => category === row.category || !usedCategories.has(category))
+                      .map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category} — {SOA_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={row.classification}
+                  onValueChange={(classification) =>
+                    updateRow(index, { classification: classification as SoaClassification })
+                  }
+                >
+                  <SelectTrigger className="w-[120px]" aria-label="Classifica">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {soaClassifications.map((classification) => (
+                      <SelectItem key={classification} value={classification}>
+                        {classification}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                  aria-label={`Rimuovi ${row.category}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={!nextCategory}
+                onClick={() =>
+                  nextCategory &&
+                  setRows((current) => [...current, { category: nextCategory, classification: "I" }])
+                }
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Aggiungi categoria
+              </Button>
+              <Button
+                disabled={saveQualifications.isPending}
+                onClick={() => saveQualifications.mutate()}
+              >
+                {saveQualifications.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salva categorie
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
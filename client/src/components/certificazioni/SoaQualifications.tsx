@@ -0,0 +1,174 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Search } from "lucide-react";
+import {
+  SOA_CLASSIFICATION_AMOUNTS,
+  type SoaClassification,
+  type SoaQualificationWithAttestation,
+} from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SOA_CATEGORY_LABELS } from "@/lib/constants";
+import { LOCALE_TAGS, useTranslation } from "@/lib/i18n";
+
+const CATEGORY_TYPES = [
+  { value: "all", labelKey: "soa.filter.all" },
+  { value: "OG", labelKey: "soa.filter.og" },
+  { value: "OS", labelKey: "soa.filter.os" },
+] as const;
+type CategoryType = (typeof CATEGORY_TYPES)[number]["value"];
+
+// Category descriptions are the legal Italian names and are not translated.
+export function SoaQualifications() {
+  const { locale, t, dateLocale } = useTranslation();
+  const [categoryType, setCategoryType] = useState<CategoryType>("all");
+  const [search, setSearch] = useState("");
+  const { data: qualifications, isLoading, error } = useQuery<SoaQualificationWithAttestation[]>({
+    queryKey: ["/api/soa-qualifications"],
+  });
+
+  const euro = useMemo(
+    () =>
+      new Intl.NumberFormat(LOCALE_TAGS[locale], {
+        style: "currency",
+        currency: "EUR",
+        maximumFractionDigits: 0,
+      }),
+    [locale],
+  );
+
+  const formatAmount = (classification: SoaClassification) => {
+    const amount = SOA_CLASSIFICATION_AMOUNTS[classification];
+    return amount === null
+      ? t("soa.over", { amount: euro.format(SOA_CLASSIFICATION_AMOUNTS.VII!) })
+      : t("soa.upTo", { amount: euro.format(amount) });
+  };
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (qualifications ?? []).filter(
+      (qualification) =>
+        (categoryType === "all" || qualification.category.startsWith(categoryType)) &&
+        (!term ||
+          qualification.category.toLowerCase().includes(term) ||
+          SOA_CATEGORY_LABELS[qualification.category].toLowerCase().includes(term)),
+    );
+  }, [qualifications, categoryType, search]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        {t("soa.error")}
+      </div>
+    );
+  }
+
+  if (!qualifications?.length) {
+    return null;
+  }
+
+  // Normally a single attestation; each one is listed with its own validity.
+  const attestations = Array.from(
+    new Map(qualifications.map(({ attestation }) => [attestation.id, attestation])).values(),
+  );
+
+  return (
+    <section className="space-y-6">
+      <h2 className="text-2xl font-semibold">{t("soa.title")}</h2>
+      <div className="space-y-2 text-gray-700">
+        {attestations.map((attestation) => (
+          <p key={attestation.id}>
+            {attestation.title}
+            {attestation.number && t("soa.attestationNumber", { number: attestation.number })}
+            {attestation.issuer && t("soa.issuedBy", { issuer: attestation.issuer })}
+            {attestation.expiresAt &&
+              t("soa.validUntil", {
+                date: format(new Date(attestation.expiresAt), "d MMMM yyyy", { locale: dateLocale }),
+              })}
+            .
+          </p>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_TYPES.map(({ value, labelKey }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={categoryType === value ? "default" : "outline"}
+              onClick={() => setCategoryType(value)}
+            >
+              {t(labelKey)}
+            </Button>
+          ))}
+        </div>
+        <div className="relative sm:w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder={t("soa.search")}
+            aria-label={t("soa.search")}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[100px]">{t("soa.category")}</TableHead>
+            <TableHead>{t("soa.description")}</TableHead>
+            <TableHead className="w-[100px]">{t("soa.classification")}</TableHead>
+            <TableHead>{t("soa.amount")}</TableHead>
+            <TableHead>{t("soa.validity")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                {t("soa.noResults")}
+              </TableCell>
+            </TableRow>
+          ) : (
+            visible.map((qualification) => (
+              <TableRow key={qualification.id}>
+                <TableCell className="font-semibold">{qualification.category}</TableCell>
+                <TableCell>{SOA_CATEGORY_LABELS[qualification.category]}</TableCell>
+                <TableCell>{qualification.classification}</TableCell>
+                <TableCell>{formatAmount(qualification.classification)}</TableCell>
+                <TableCell>
+                  {qualification.attestation.expiresAt
+                    ? format(new Date(qualification.attestation.expiresAt), "P", { locale: dateLocale })
+                    : "—"}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      <p className="text-sm text-muted-foreground">
+        {t("soa.note")}
+      </p>
+    </section>
+  );
+}
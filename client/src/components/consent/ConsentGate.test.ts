@@ -0,0 +1,43 @@
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { COOKIE_CONSENT_VERSION } from "@db/schema";
+import { ConsentProvider, consentAllows, type CookieConsent } from "@/lib/consent";
+import { ConsentGate } from "./ConsentGate";
+
+function consent(choices: Pick<CookieConsent, "statistics" | "marketing">): CookieConsent {
+  return {
+    id: "6f1c2f9e-4b8a-4d2e-9c1a-0e5b7d3f2a10",
+    version: COOKIE_CONSENT_VERSION,
+    decidedAt: "2024-12-01T10:00:00.000Z",
+    ...choices,
+  };
+}
+
+describe("consentAllows", () => {
+  it("blocks optional categories until the visitor has chosen", () => {
+    expect(consentAllows(null, "marketing")).toBe(false);
+    expect(consentAllows(null, "statistics")).toBe(false);
+    expect(consentAllows(null, "necessary")).toBe(true);
+  });
+
+  it("allows only the categories the visitor accepted", () => {
+    const choice = consent({ statistics: true, marketing: false });
+    expect(consentAllows(choice, "statistics")).toBe(true);
+    expect(consentAllows(choice, "marketing")).toBe(false);
+    expect(consentAllows(consent({ statistics: false, marketing: true }), "marketing")).toBe(true);
+  });
+});
+
+describe("ConsentGate", () => {
+  it("renders a placeholder instead of the embed before consent", () => {
+    const map = createElement("iframe", { src: "https://www.google.com/maps?q=Udine&output=embed" });
+    const html = renderToString(
+      createElement(ConsentProvider, {
+        children: createElement(ConsentGate, { category: "marketing", service: "Google Maps", children: map }),
+      }),
+    );
+    expect(html).not.toContain("<iframe");
+    expect(html).toContain("Google Maps");
+  });
+});
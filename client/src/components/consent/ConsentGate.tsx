@@ -0,0 +1,55 @@
+import type { ReactNode } from "react";
+import { ShieldOff } from "lucide-react";
+import type { OptionalCookieCategory } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { useConsent } from "@/lib/consent";
+import { useTranslation } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface ConsentGateProps {
+  category: OptionalCookieCategory;
+  /** Who provides the content, e.g. "Google Maps" or "YouTube". */
+  service: string;
+  className?: string;
+  children: ReactNode;
+}
+
+// Wraps third-party embeds (maps, videos): until the visitor allows the
+// category, a placeholder is rendered instead, so nothing is requested from
+// the third party. Server-rendered pages always get the placeholder.
+export function ConsentGate({ category, service, className, children }: ConsentGateProps) {
+  const { t } = useTranslation();
+  const { consent, allows, save, openSettings } = useConsent();
+
+  if (allows(category)) {
+    return <>{children}</>;
+  }
+
+  function allow() {
+    save({
+      statistics: consent?.statistics ?? false,
+      marketing: consent?.marketing ?? false,
+      [category]: true,
+    });
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-4 rounded-lg bg-muted p-6 text-center",
+        className,
+      )}
+    >
+      <ShieldOff className="h-8 w-8 text-gray-400" />
+      <p className="max-w-sm text-sm text-gray-600">{t("cookies.blocked", { service })}</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button size="sm" onClick={allow}>
+          {t("cookies.allowAndShow")}
+        </Button>
+        <Button size="sm" variant="outline" onClick={openSettings}>
+          {t("footer.cookies")}
+        </Button>
+      </div>
+    </div>
+  );
+}
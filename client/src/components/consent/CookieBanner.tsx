@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { cookieCategories, localizePath } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useConsent, type ConsentChoices } from "@/lib/consent";
+import { useTranslation } from "@/lib/i18n";
+
+const NOTHING_ALLOWED: ConsentChoices = { statistics: false, marketing: false };
+const EVERYTHING_ALLOWED: ConsentChoices = { statistics: true, marketing: true };
+
+// Shown until the visitor chooses, and again from the footer link. Rejecting
+// is as easy as accepting, and closing the banner counts as a rejection, as
+// the Garante's guidelines require.
+export function CookieBanner() {
+  const { locale, t } = useTranslation();
+  const { isReady, consent, save, isSettingsOpen, closeSettings } = useConsent();
+  const [showDetails, setShowDetails] = useState(false);
+  const [choices, setChoices] = useState<ConsentChoices>(NOTHING_ALLOWED);
+
+  useEffect(() => {
+    if (isSettingsOpen) {
+      setChoices(consent ? { statistics: consent.statistics, marketing: consent.marketing } : NOTHING_ALLOWED);
+      setShowDetails(true);
+    }
+  }, [isSettingsOpen, consent]);
+
+  if (!isReady || (consent && !isSettingsOpen)) {
+    return null;
+  }
+
+  function close() {
+    if (consent) {
+      closeSettings();
+    } else {
+      save(NOTHING_ALLOWED);
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby="cookie-banner-title"
+      className="fixed inset-x-0 bottom-0 z-50 p-4 md:bottom-4 md:left-4 md:right-auto md:max-w-md"
+    >
+      <div className="relative rounded-lg border bg-background p-6 shadow-lg">
+        <button
+          type="button"
+          onClick={close}
+          aria-label={t("cookies.close")}
+          className="absolute right-4 top-4 text-gray-500 hover:text-gray-900"
+        >
+          <X className="h-4 w-4" />
+        </button>
+        <h2 id="cookie-banner-title" className="mb-2 font-semibold">
+          {t("cookies.title")}
+        </h2>
+        <p className="text-sm text-gray-600">
+          {t("cookies.intro")}{" "}
+          <a href={localizePath("/privacy", locale)} className="underline underline-offset-2 hover:text-primary">
+            {t("footer.privacy")}
+          </a>
+        </p>
+
+        {showDetails && (
+          <ul className="mt-4 space-y-4">
+            {cookieCategories.map((category) => (
+              <li key={category} className="flex items-start justify-between gap-4">
+                <div>
+                  <label htmlFor={`cookie-${category}`} className="text-sm font-medium">
+                    {t(`cookies.categories.${category}`)}
+                  </label>
+                  <p className="text-xs text-gray-500">{t(`cookies.categories.${category}.description`)}</p>
+                </div>
+                {category === "necessary" ? (
+                  <span className="shrink-0 text-xs text-gray-500">{t("cookies.alwaysOn")}</span>
+                ) : (
+                  <Switch
+                    id={`cookie-${category}`}
+                    checked={choices[category]}
+                    onCheckedChange={(checked) => setChoices((current) => ({ ...current, [category]: checked }))}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => save(NOTHING_ALLOWED)}>
+            {t("cookies.rejectAll")}
+          </Button>
+          {showDetails ? (
+            <Button size="sm" variant="outline" onClick={() => save(choices)}>
+              {t("cookies.save")}
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => setShowDetails(true)}>
+              {t("cookies.customize")}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => save(EVERYTHING_ALLOWED)}>
+            {t("cookies.acceptAll")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { forwardRef, type InputHTMLAttributes } from "react";
+
+// The anti-spam "website" field: hidden from people, so only bots fill it in.
+export const HoneypotField = forwardRef<HTMLInputElement, InputHTMLAttributes<HTMLInputElement>>(
+  ({ id, ...props }, ref) => (
+    <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+      <label htmlFor={id}>Website</label>
+      <input id={id} ref={ref} type="text" tabIndex={-1} autoComplete="off" {...props} />
+    </div>
+  ),
+);
+HoneypotField.displayName = "HoneypotField";
@@ -0,0 +1,109 @@
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from "react";
+import { ChevronsLeftRight } from "lucide-react";
+import type { BeforeAfterPair } from "@db/schema";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/lib/i18n";
+
+interface BeforeAfterSliderProps {
+  pair: BeforeAfterPair;
+  className?: string;
+}
+
+const KEYBOARD_STEP = 5;
+
+export function BeforeAfterSlider({ pair, className }: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
+
+  function moveTo(clientX: number) {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) {
+      return;
+    }
+    const percentage = ((clientX - rect.left) / rect.width) * 100;
+    setPosition(Math.min(100, Math.max(0, percentage)));
+  }
+
+  function handlePointerDown(e: PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e.clientX);
+  }
+
+  function handlePointerMove(e: PointerEvent<HTMLDivElement>) {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      moveTo(e.clientX);
+    }
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    const next = {
+      ArrowLeft: position - KEYBOARD_STEP,
+      ArrowDown: position - KEYBOARD_STEP,
+      ArrowRight: position + KEYBOARD_STEP,
+      ArrowUp: position + KEYBOARD_STEP,
+      PageDown: position - KEYBOARD_STEP * 4,
+      PageUp: position + KEYBOARD_STEP * 4,
+      Home: 0,
+      End: 100,
+    }[e.key];
+
+    if (next !== undefined) {
+      e.preventDefault();
+      setPosition(Math.min(100, Math.max(0, next)));
+    }
+  }
+
+  return (
+    <figure className={cn("space-y-2", className)}>
+      <div
+        ref={containerRef}
+        className="relative select-none overflow-hidden rounded-lg shadow-lg touch-none cursor-ew-resize"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+      >
+        <ResponsiveImage
+          src={pair.after}
+          alt={pair.caption ? t("beforeAfter.captionAfter", { caption: pair.caption }) : t("beforeAfter.afterAlt")}
+          className="block w-full h-auto"
+          draggable={false}
+        />
+        <ResponsiveImage
+          src={pair.before}
+          alt={pair.caption ? t("beforeAfter.captionBefore", { caption: pair.caption }) : t("beforeAfter.beforeAlt")}
+          className="absolute inset-0 h-full w-full object-cover"
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          draggable={false}
+        />
+
+        <span className="absolute left-3 top-3 rounded bg-black/60 px-2 py-1 text-xs font-semibold text-white">
+          {t("beforeAfter.before")}
+        </span>
+        <span className="absolute right-3 top-3 rounded bg-black/60 px-2 py-1 text-xs font-semibold text-white">
+          {t("beforeAfter.after")}
+        </span>
+
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label={t("beforeAfter.label")}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position)}
+          aria-valuetext={t("beforeAfter.value", { value: Math.round(position) })}
+          onKeyDown={handleKeyDown}
+          className="absolute inset-y-0 -ml-px w-0.5 bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          style={{ left: `${position}%` }}
+        >
+          <span className="absolute left-1/2 top-1/2 flex h-10 w-10 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-white text-primary shadow-md">
+            <ChevronsLeftRight className="h-5 w-5" />
+          </span>
+        </div>
+      </div>
+      {pair.caption && (
+        <figcaption className="text-sm text-muted-foreground text-center">{pair.caption}</figcaption>
+      )}
+    </figure>
+  );
+}
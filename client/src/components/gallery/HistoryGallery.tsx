@@ -1,9 +1,12 @@
 import { motion } from "framer-motion";
 import { fadeInUp, staggerChildren } from "@/lib/animations";
 import { STOCK_PHOTOS } from "@/lib/constants";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
+import { useTranslation } from "@/lib/i18n";
 
 export function HistoryGallery() {
   const images = STOCK_PHOTOS.restoration;
+  const { t } = useTranslation();
 
   return (
     <motion.div
@@ -18,14 +21,15 @@ export function HistoryGallery() {
           variants={fadeInUp}
           className="relative group overflow-hidden rounded-lg"
         >
-          <img
+          <ResponsiveImage
             src={image}
-            alt={`Storia aziendale ${index + 1}`}
+            alt={t("history.imageAlt", { index: index + 1 })}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
             className="w-full h-64 object-cover transition-transform duration-300 group-hover:scale-110"
           />
           <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
             <span className="text-white text-lg font-semibold">
-              {index === 0 ? "I Nostri Inizi" : index === 1 ? "La Crescita" : "Il Presente"}
+              {t(index === 0 ? "history.beginnings" : index === 1 ? "history.growth" : "history.present")}
             </span>
           </div>
         </motion.div>
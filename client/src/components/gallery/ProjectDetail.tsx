@@ -1,61 +1,80 @@
-import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
+import { ServiceGallery } from "@/components/gallery/ServiceGallery";
+import { BeforeAfterSlider } from "@/components/gallery/BeforeAfterSlider";
 import { Project } from "@/types/project";
-import { X } from "lucide-react";
-import { motion } from "framer-motion";
+import { useTranslation } from "@/lib/i18n";
 
 interface ProjectDetailProps {
   project: Project;
-  onClose: () => void;
 }
 
-export function ProjectDetail({ project, onClose }: ProjectDetailProps) {
+export function ProjectDetail({ project }: ProjectDetailProps) {
+  const { t } = useTranslation();
+  const facts = [
+    { label: t("project.category"), value: t(`projectCategories.${project.category}`) },
+    { label: t("project.year"), value: String(project.year) },
+    { label: t("project.location"), value: project.location },
+    { label: t("project.client"), value: project.client },
+    { label: t("project.duration"), value: project.duration },
+  ].filter((fact): fact is { label: string; value: string } => Boolean(fact.value));
+
   return (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      exit={{ opacity: 0 }}
-      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
-      onClick={onClose}
-    >
-      <motion.div
-        initial={{ scale: 0.95 }}
-        animate={{ scale: 1 }}
-        exit={{ scale: 0.95 }}
-        className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto"
-        onClick={(e) => e.stopPropagation()}
-      >
-        <div className="relative">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="absolute right-2 top-2 z-10"
-            onClick={onClose}
-          >
-            <X className="h-5 w-5" />
-          </Button>
-          <img
-            src={project.image}
-            alt={project.title}
-            className="w-full h-[300px] object-cover rounded-t-lg"
-          />
+    <article className="space-y-12">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2">
+          {project.gallery.length > 0 ? (
+            <ServiceGallery images={[project.image, ...project.gallery]} category={project.title} />
+          ) : (
+            <ResponsiveImage
+              src={project.image}
+              alt={project.title}
+              sizes="(min-width: 1024px) 66vw, 100vw"
+              loading="eager"
+              className="w-full h-[400px] object-cover rounded-lg shadow-lg"
+            />
+          )}
         </div>
-        <div className="p-6">
-          <h2 className="text-2xl font-bold mb-4">{project.title}</h2>
-          <p className="text-gray-600 mb-4">{project.description}</p>
-          <div className="grid grid-cols-2 gap-4 text-sm">
-            <div>
-              <span className="font-semibold">Categoria:</span>{" "}
-              <span className="capitalize">{project.category}</span>
-            </div>
-            <div>
-              <span className="font-semibold">Anno:</span> {project.year}
+
+        <dl className="space-y-4 text-sm">
+          {facts.map((fact) => (
+            <div key={fact.label}>
+              <dt className="font-semibold">{fact.label}</dt>
+              <dd className="text-muted-foreground capitalize">{fact.value}</dd>
             </div>
+          ))}
+          {project.techniques.length > 0 && (
             <div>
-              <span className="font-semibold">Località:</span> {project.location}
+              <dt className="font-semibold mb-2">{t("project.techniques")}</dt>
+              <dd className="flex flex-wrap gap-2">
+                {project.techniques.map((technique) => (
+                  <Badge key={technique} variant="secondary">
+                    {technique}
+                  </Badge>
+                ))}
+              </dd>
             </div>
+          )}
+        </dl>
+      </div>
+
+      <div className="max-w-3xl space-y-4">
+        <p className="text-lg text-gray-600">{project.description}</p>
+        {project.details && (
+          <p className="text-gray-600 whitespace-pre-line">{project.details}</p>
+        )}
+      </div>
+
+      {project.beforeAfter.length > 0 && (
+        <section className="space-y-6">
+          <h2 className="text-2xl font-bold">{t("project.beforeAfter")}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {project.beforeAfter.map((pair) => (
+              <BeforeAfterSlider key={pair.before} pair={pair} />
+            ))}
           </div>
-        </div>
-      </motion.div>
-    </motion.div>
+        </section>
+      )}
+    </article>
   );
 }
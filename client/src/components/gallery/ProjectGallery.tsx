@@ -1,53 +1,41 @@
-import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
 import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
 import { fadeInUp, staggerChildren } from "@/lib/animations";
+import { projectCategories, type ProjectCategory } from "@db/schema";
 import { Project } from "@/types/project";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { STOCK_PHOTOS } from "@/lib/constants";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
+import { useTranslation, withLocale } from "@/lib/i18n";
 
-// Sample data - in a real app, this would come from an API
-const PROJECTS: Project[] = [
-  {
-    id: "1",
-    title: "Restauro Palazzo Storico Veneziano",
-    description: "Intervento di restauro conservativo su palazzo del XVI secolo",
-    category: "restauro",
-    image: STOCK_PHOTOS.restoration[0],
-    year: 2023,
-    location: "Venezia"
-  },
-  {
-    id: "2",
-    title: "Complesso Residenziale Moderno",
-    description: "Costruzione di complesso residenziale eco-sostenibile",
-    category: "costruzione",
-    image: STOCK_PHOTOS.construction[0],
-    year: 2023,
-    location: "Milano"
-  },
-  {
-    id: "3",
-    title: "Ristrutturazione Villa Liberty",
-    description: "Ristrutturazione completa con adeguamento energetico",
-    category: "ristrutturazione",
-    image: STOCK_PHOTOS.renovation[0],
-    year: 2022,
-    location: "Roma"
-  },
-  // Add more projects as needed
-];
+// The category filter lives in the query string (?categoria=) so that it
+// survives opening a project and coming back, and so the detail page can
+// offer previous/next links within the same category.
+export function ProjectGallery() {
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const { locale, t } = useTranslation();
+  const categoryParam = new URLSearchParams(search).get('categoria');
+  const selectedCategory: ProjectCategory | 'all' = projectCategories.includes(categoryParam as ProjectCategory)
+    ? (categoryParam as ProjectCategory)
+    : 'all';
 
-interface ProjectGalleryProps {
-  onProjectClick: (project: Project) => void;
-}
-
-export function ProjectGallery({ onProjectClick }: ProjectGalleryProps) {
-  const [selectedCategory, setSelectedCategory] = useState<Project['category'] | 'all'>('all');
+  const setSelectedCategory = (category: ProjectCategory | 'all') => {
+    navigate(category === 'all' ? location : `${location}?categoria=${category}`, { replace: true });
+  };
 
-  const filteredProjects = selectedCategory === 'all'
-    ? PROJECTS
-    : PROJECTS.filter(project => project.category === selectedCategory);
+  const { data: projects, isLoading, error } = useQuery<Project[]>({
+    queryKey: [
+      withLocale(
+        selectedCategory === 'all'
+          ? '/api/projects'
+          : `/api/projects?category=${selectedCategory}`,
+        locale,
+      ),
+    ],
+  });
 
   return (
     <motion.div
@@ -62,56 +50,65 @@ export function ProjectGallery({ onProjectClick }: ProjectGalleryProps) {
           variant={selectedCategory === 'all' ? 'default' : 'outline'}
           onClick={() => setSelectedCategory('all')}
         >
-          Tutti i Progetti
+          {t("projects.all")}
         </Button>
         <Button
           variant={selectedCategory === 'restauro' ? 'default' : 'outline'}
           onClick={() => setSelectedCategory('restauro')}
         >
-          Restauro
+          {t("projectCategories.restauro")}
         </Button>
         <Button
           variant={selectedCategory === 'costruzione' ? 'default' : 'outline'}
           onClick={() => setSelectedCategory('costruzione')}
         >
-          Costruzione
+          {t("projectCategories.costruzione")}
         </Button>
         <Button
           variant={selectedCategory === 'ristrutturazione' ? 'default' : 'outline'}
           onClick={() => setSelectedCategory('ristrutturazione')}
         >
-          Ristrutturazione
+          {t("projectCategories.ristrutturazione")}
         </Button>
       </div>
 
       {/* Projects Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredProjects.map((project) => (
-          <motion.div
-            key={project.id}
-            variants={fadeInUp}
-            onClick={() => onProjectClick(project)}
-          >
-            <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-shadow">
-              <div className="aspect-video relative overflow-hidden">
-                <img
-                  src={project.image}
-                  alt={project.title}
-                  className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
-                />
-              </div>
-              <CardContent className="p-4">
-                <h3 className="font-semibold mb-2">{project.title}</h3>
-                <p className="text-sm text-muted-foreground mb-2">{project.description}</p>
-                <div className="flex justify-between text-sm text-muted-foreground">
-                  <span>{project.location}</span>
-                  <span>{project.year}</span>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
-        ))}
-      </div>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          {t("projects.error")}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects?.map((project) => (
+            <motion.div key={project.id} variants={fadeInUp}>
+              <Link href={`/realizzazioni/${project.slug}${search ? `?${search}` : ''}`}>
+                <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-shadow">
+                  <div className="aspect-video relative overflow-hidden">
+                    <ResponsiveImage
+                      src={project.image}
+                      alt={project.title}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                      className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
+                    />
+                  </div>
+                  <CardContent className="p-4">
+                    <h3 className="font-semibold mb-2">{project.title}</h3>
+                    <p className="text-sm text-muted-foreground mb-2">{project.description}</p>
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>{project.location}</span>
+                      <span>{project.year}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      )}
     </motion.div>
   );
 }
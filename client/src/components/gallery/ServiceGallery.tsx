@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { ChevronLeft, ChevronRight, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface ServiceGalleryProps {
@@ -23,9 +24,10 @@ export function ServiceGallery({ images, category }: ServiceGalleryProps) {
   return (
     <div className="w-full">
       <div className="relative group">
-        <img
+        <ResponsiveImage
           src={images[currentImageIndex]}
           alt={`${category} image ${currentImageIndex + 1}`}
+          sizes="(min-width: 1024px) 50vw, 100vw"
           className="w-full h-[400px] object-cover rounded-lg shadow-lg cursor-pointer"
           onClick={() => setIsLightboxOpen(true)}
         />
@@ -70,9 +72,11 @@ export function ServiceGallery({ images, category }: ServiceGalleryProps) {
                   : "hover:opacity-80"
               }`}
             >
-              <img
+              <ResponsiveImage
                 src={image}
                 alt={`${category} thumbnail ${index + 1}`}
+                sizes="80px"
+                widths={[320]}
                 className="w-20 h-20 object-cover rounded"
               />
             </button>
@@ -99,9 +103,10 @@ export function ServiceGallery({ images, category }: ServiceGalleryProps) {
               <X className="h-6 w-6" />
             </Button>
             <div className="relative max-w-7xl w-full" onClick={(e) => e.stopPropagation()}>
-              <img
+              <ResponsiveImage
                 src={images[currentImageIndex]}
                 alt={`${category} full view`}
+                sizes="(min-width: 1280px) 1280px, 100vw"
                 className="w-full h-auto max-h-[90vh] object-contain"
               />
               {images.length > 1 && (
@@ -1,49 +1,48 @@
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Loader2 } from "lucide-react";
 import { STOCK_PHOTOS } from "@/lib/constants";
+import { useAboutContent } from "@/hooks/useContent";
 import { SectionSeparator } from "@/components/ui/section-separator";
-
-const VALUES = [
-  "Qualità senza compromessi",
-  "Innovazione sostenibile",
-  "Rispetto per la tradizione",
-  "Attenzione al cliente"
-];
+import { useTranslation } from "@/lib/i18n";
 
 export function About() {
+  const { data: aboutContent, isLoading, error } = useAboutContent();
+  const { t } = useTranslation();
+
   return (
     <section id="chi-siamo" className="section-padding">
       <div className="container section-spacing">
         <SectionSeparator className="mb-12" />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-12 items-center">
           <div>
-            <h2 className="text-3xl font-bold mb-6">Chi Siamo</h2>
-            <p className="text-gray-600 mb-6">
-              Da oltre vent'anni, DF Restauri è sinonimo di eccellenza nel mondo del restauro, delle pitture e delle decorazioni. 
-              Rappresenta la prosecuzione dell'attività nata nel 1992 in capo a De Faveri Luca. L'azienda ha saputo coniugare la 
-              maestria artigianale con le più moderne tecniche, offrendo soluzioni personalizzate per ogni esigenza dalle delicate 
-              operazioni di costruzione, ristrutturazione e restauro.
-            </p>
-            <p className="text-gray-600 mb-8">
-              DF è il partner ideale per chi desidera valorizzare i propri spazi con un tocco di esclusività. 
-              Grazie all'esperienza maturata nel corso degli anni, siamo in grado di garantire risultati impeccabili e duraturi, 
-              rispondendo alle richieste più esigenti del mercato dell'edilizia. Abbiamo saputo evolversi e adattarsi ai continui 
-              cambiamenti del mercato, mantenendo sempre al centro il cliente e la qualità dei lavori.
-            </p>
+            <h2 className="text-3xl font-bold mb-6">{t("about.title")}</h2>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : error ? (
+              <div className="text-red-500 text-center py-12">
+                {t("common.contentError")}
+              </div>
+            ) : aboutContent ? (
+              <>
+                <p className="text-gray-600 mb-8">{aboutContent.storia.content}</p>
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              {VALUES.map((value) => (
-                <div key={value} className="flex items-center gap-2">
-                  <CheckCircle className="text-primary" />
-                  <span>{value}</span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {aboutContent.valori.items?.map((value) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <CheckCircle className="text-primary" />
+                      <span>{value}</span>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </>
+            ) : null}
           </div>
 
           <div className="relative">
             <img
               src={STOCK_PHOTOS.about}
-              alt="Chi Siamo - DF Restauri"
+              alt={t("about.imageAlt")}
               className="rounded-lg shadow-xl w-full h-full object-cover"
               loading="eager"
               decoding="async"
@@ -52,7 +51,7 @@ export function About() {
             />
             <div className="absolute -bottom-6 -left-6 bg-primary text-white p-6 rounded-lg">
               <div className="text-4xl font-bold mb-2">20+</div>
-              <div className="text-sm">Anni di esperienza</div>
+              <div className="text-sm">{t("common.yearsExperience")}</div>
             </div>
           </div>
         </div>
@@ -1,7 +1,15 @@
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { contactFormSchema } from "@db/schema";
+import { ConsentGate } from "@/components/consent/ConsentGate";
+import { HoneypotField } from "@/components/forms/HoneypotField";
+import { PrivacyConsentLabel } from "@/components/privacy/PrivacyConsentLabel";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
@@ -12,54 +20,142 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { formatCompanyAddress, mapEmbedUrl, phoneHref, useCompanySettings } from "@/hooks/useCompanySettings";
+import { useFillTime } from "@/hooks/useFillTime";
+import { usePrivacyPolicy } from "@/hooks/usePrivacyPolicy";
+import { trackEvent } from "@/lib/analytics";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "@/lib/i18n";
+
+const formSchema = contactFormSchema;
+type ContactFormValues = z.infer<typeof formSchema>;
 
-const formSchema = z.object({
-  name: z.string().min(2, "Il nome deve contenere almeno 2 caratteri"),
-  email: z.string().email("Inserisci un indirizzo email valido"),
-  phone: z.string().min(6, "Inserisci un numero di telefono valido"),
-  message: z.string().min(10, "Il messaggio deve contenere almeno 10 caratteri"),
-});
 export function Contact() {
-  function onSubmit(values: z.infer<typeof formSchema>) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { data: company } = useCompanySettings();
+  // The consent must name a version of the notice, so the form cannot be sent
+  // without one.
+  const { data: policy, isError: policyFailed } = usePrivacyPolicy();
+  const fillTime = useFillTime();
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      email: "",
+      phone: "",
+      message: "",
+      website: "",
+      privacyConsent: false,
+    },
+  });
+
+  // The consent refers to the version of the notice the visitor could open.
+  useEffect(() => {
+    if (policy) {
+      form.setValue("privacyPolicyVersion", policy.version);
+    }
+  }, [form, policy]);
+
+  const submitContact = useMutation({
+    mutationFn: (values: ContactFormValues) =>
+      apiRequest("POST", "/api/contact", values),
+    onSuccess: () => {
+      trackEvent({ type: "form_submit", target: "contact" });
+      form.reset();
+      fillTime.restart();
+      if (policy) {
+        form.setValue("privacyPolicyVersion", policy.version);
+      }
+      toast({
+        title: t("contact.sent"),
+        description: t("contact.sentDescription"),
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: t("common.sendFailed"),
+        description: t("common.tryAgainLater"),
+      });
+    },
+  });
+
+  function onSubmit(values: ContactFormValues) {
+    submitContact.mutate({ ...values, elapsedMs: fillTime.elapsed() });
   }
 
   return (
     <section id="contatti" className="py-20">
       <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4">{t("contact.title")}</h2>
+          <p className="text-gray-600 max-w-2xl mx-auto">
+            {t("contact.intro")}
+          </p>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
+          {company ? (
             <div className="space-y-6">
               <div>
-                <h3 className="font-semibold mb-2">Azienda</h3>
-                <p className="text-gray-600">DF Restauri S.R.L.</p>
-                <p className="text-gray-600 text-sm">P. IVA: 03016900304</p>
+                <h3 className="font-semibold mb-2">{t("contact.company")}</h3>
+                <p className="text-gray-600">{company.legalName}</p>
+                <p className="text-gray-600 text-sm">{t("contact.vat")}: {company.vatNumber}</p>
               </div>
               <div>
-                <h3 className="font-semibold mb-2">Indirizzo</h3>
-                <p className="text-gray-600">via Cussignacco 79, 33040 - Pradamano (UD)</p>
+                <h3 className="font-semibold mb-2">{t("contact.address")}</h3>
+                <p className="text-gray-600">{formatCompanyAddress(company)}</p>
               </div>
               <div>
-                <h3 className="font-semibold mb-2">Telefono</h3>
-                <p className="text-gray-600">0432 1485703</p>
+                <h3 className="font-semibold mb-2">{t("common.phone")}</h3>
+                <a
+                  href={phoneHref(company.phone, company.country)}
+                  onClick={() => trackEvent({ type: "cta_click", target: "phone" })}
+                  className="text-gray-600 hover:text-primary"
+                >
+                  {company.phone}
+                </a>
               </div>
               <div>
-                <h3 className="font-semibold mb-2">Email</h3>
-                <p className="text-gray-600">segreteria@dfrestauri.it</p>
-                <p className="text-gray-600">PEC: dfrestaurisrl@pec.it</p>
+                <h3 className="font-semibold mb-2">{t("common.email")}</h3>
+                <a
+                  href={`mailto:${company.email}`}
+                  onClick={() => trackEvent({ type: "cta_click", target: "email" })}
+                  className="block text-gray-600 hover:text-primary"
+                >
+                  {company.email}
+                </a>
+                {company.pec && <p className="text-gray-600">PEC: {company.pec}</p>}
               </div>
+              <ConsentGate category="marketing" service="Google Maps" className="h-64">
+                <iframe
+                  title={t("contact.map")}
+                  src={mapEmbedUrl(company)}
+                  className="h-64 w-full rounded-lg border-0"
+                  loading="lazy"
+                  referrerPolicy="no-referrer-when-downgrade"
+                />
+              </ConsentGate>
             </div>
-          </div>
+          ) : (
+            <div />
+          )}
 
           <div>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Bots that fill it in end up in the spam folder. */}
+                <HoneypotField id="contact-website" {...form.register("website")} />
                 <FormField
                   control={form.control}
                   name="name"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Nome</FormLabel>
+                      <FormLabel>{t("common.name")}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Il tuo nome" {...field} />
+                        <Input placeholder={t("common.namePlaceholder")} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -70,9 +166,9 @@ export function Contact() {
                   name="email"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Email</FormLabel>
+                      <FormLabel>{t("common.email")}</FormLabel>
                       <FormControl>
-                        <Input placeholder="La tua email" {...field} />
+                        <Input placeholder={t("common.emailPlaceholder")} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -83,12 +179,69 @@ export function Contact() {
                   name="phone"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Telefono</FormLabel>
+                      <FormLabel>{t("common.phone")}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Il tuo numero" {...field} />
+                        <Input placeholder={t("common.phonePlaceholder")} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                
+                <FormField
+                  control={form.control}
+                  name="message"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("contact.message")}</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={t("contact.messagePlaceholder")}
+                          className="min-h-[150px]"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="privacyConsent"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>
+                          <PrivacyConsentLabel />
+                        </FormLabel>
+                        <FormMessage />
+                        {policyFailed && (
+                          <p className="text-sm font-medium text-destructive">{t("privacy.consentUnavailable")}</p>
+                        )}
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={submitContact.isPending || !policy}
+                >
+                  {submitContact.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {t("contact.submit")}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -1,21 +1,41 @@
-import { Facebook, Twitter, Instagram } from "lucide-react";
-import { TEAM_MEMBERS } from "@/lib/constants";
+import { Facebook, Twitter, Instagram, Loader2 } from "lucide-react";
+import { useContent } from "@/hooks/useContent";
 import { SectionSeparator } from "@/components/ui/section-separator";
+import { useTranslation } from "@/lib/i18n";
 
 export function Team() {
+  const { data: teamContent, isLoading, error } = useContent("team");
+  const { t } = useTranslation();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !teamContent) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        {t("team.error")}
+      </div>
+    );
+  }
+
   return (
     <section className="section-padding bg-gray-50">
       <div className="container section-spacing">
         <SectionSeparator className="mb-12" />
         <div className="text-center heading-spacing">
-          <h2 className="text-3xl font-bold mb-4">Il Nostro Team</h2>
+          <h2 className="text-3xl font-bold mb-4">{teamContent.intro.title}</h2>
           <p className="text-gray-600 max-w-2xl mx-auto">
-            Professionisti qualificati con anni di esperienza nel settore delle costruzioni e del restauro.
+            {teamContent.intro.content}
           </p>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-          {TEAM_MEMBERS.map((member) => (
+          {teamContent.members.map((member) => (
             <div key={member.name} className="bg-white rounded-lg overflow-hidden shadow-lg">
               <img
                 src={member.avatar}
@@ -26,15 +46,21 @@ export function Team() {
                 <h3 className="text-xl font-semibold mb-2">{member.name}</h3>
                 <p className="text-gray-600 mb-4">{member.role}</p>
                 <div className="flex justify-center gap-4">
-                  <a href={member.social.facebook} className="text-gray-400 hover:text-primary">
-                    <Facebook size={20} />
-                  </a>
-                  <a href={member.social.twitter} className="text-gray-400 hover:text-primary">
-                    <Twitter size={20} />
-                  </a>
-                  <a href={member.social.instagram} className="text-gray-400 hover:text-primary">
-                    <Instagram size={20} />
-                  </a>
+                  {member.social.facebook && (
+                    <a href={member.social.facebook} className="text-gray-400 hover:text-primary">
+                      <Facebook size={20} />
+                    </a>
+                  )}
+                  {member.social.twitter && (
+                    <a href={member.social.twitter} className="text-gray-400 hover:text-primary">
+                      <Twitter size={20} />
+                    </a>
+                  )}
+                  {member.social.instagram && (
+                    <a href={member.social.instagram} className="text-gray-400 hover:text-primary">
+                      <Instagram size={20} />
+                    </a>
+                  )}
                 </div>
               </div>
             </div>
@@ -2,9 +2,11 @@ import { useAboutContent } from "@/hooks/useContent";
 import { Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
 import { fadeInUp, staggerChildren } from "@/lib/animations";
+import { useTranslation } from "@/lib/i18n";
 
 export function VisionMission() {
   const { data: aboutContent, isLoading, error } = useAboutContent();
+  const { t } = useTranslation();
 
   if (isLoading) {
     return (
@@ -17,7 +19,7 @@ export function VisionMission() {
   if (error) {
     return (
       <div className="text-red-500 text-center py-12">
-        Si è verificato un errore nel caricamento del contenuto.
+        {t("common.contentError")}
       </div>
     );
   }
@@ -36,7 +38,7 @@ export function VisionMission() {
             variants={fadeInUp}
             className="bg-background p-8 rounded-lg shadow-sm"
           >
-            <h2 className="text-3xl font-bold mb-6 text-primary">Mission</h2>
+            <h2 className="text-3xl font-bold mb-6 text-primary">{t("about.mission")}</h2>
             <p className="text-muted-foreground leading-relaxed">
               {aboutContent?.mission.content}
             </p>
@@ -47,7 +49,7 @@ export function VisionMission() {
             variants={fadeInUp}
             className="bg-background p-8 rounded-lg shadow-sm"
           >
-            <h2 className="text-3xl font-bold mb-6 text-primary">Vision</h2>
+            <h2 className="text-3xl font-bold mb-6 text-primary">{t("about.vision")}</h2>
             <p className="text-muted-foreground leading-relaxed">
               {aboutContent?.vision.content}
             </p>
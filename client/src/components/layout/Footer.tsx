@@ -1,75 +1,162 @@
 import { Link } from "wouter";
-import { Facebook, Twitter, Instagram, Mail, Phone, MapPin } from "lucide-react";
-import { NAVIGATION_ITEMS } from "@/lib/constants";
+import {
+  Clock,
+  Facebook,
+  Instagram,
+  Linkedin,
+  Mail,
+  MapPin,
+  Phone,
+  Twitter,
+  Youtube,
+  type LucideIcon,
+} from "lucide-react";
+import { localizePath, socialNetworks, type SocialNetwork } from "@db/schema";
+import { trackEvent } from "@/lib/analytics";
+import { NAVIGATION_ITEMS, SOCIAL_NETWORK_LABELS } from "@/lib/constants";
+import { useConsent } from "@/lib/consent";
+import { useTranslation } from "@/lib/i18n";
+import {
+  formatCompanyAddress,
+  formatOpeningDays,
+  phoneHref,
+  useCompanySettings,
+} from "@/hooks/useCompanySettings";
+
+const SOCIAL_ICONS: Record<SocialNetwork, LucideIcon> = {
+  facebook: Facebook,
+  instagram: Instagram,
+  linkedin: Linkedin,
+  youtube: Youtube,
+  twitter: Twitter,
+};
 
 export function Footer() {
+  const { locale, t, dateLocale } = useTranslation();
+  const { data: company } = useCompanySettings();
+  const { openSettings } = useConsent();
+  const socialLinks = company
+    ? socialNetworks.flatMap((network) => {
+        const url = company.social[network];
+        return url ? [{ network, url }] : [];
+      })
+    : [];
+
   return (
     <footer className="bg-gray-900 text-white py-16">
       <div className="container mx-auto px-4">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           <div>
-            <img 
-              src="/images/logo_dfrestauri_transparent.png"
-              alt="DF Restauri"
-              className="h-12 mb-4 brightness-0 invert"
-            />
+            {company && (
+              <img 
+                src={company.logo}
+                alt={company.name}
+                className="h-12 mb-4 brightness-0 invert"
+              />
+            )}
             <p className="text-gray-400 mt-4">
-              Da oltre vent'anni, DF Restauri è sinonimo di eccellenza nel mondo del restauro, 
-              delle pitture e delle decorazioni.
+              {t("footer.tagline")}
             </p>
           </div>
 
           <div>
-            <h3 className="text-lg font-semibold mb-4">Collegamenti Rapidi</h3>
+            <h3 className="text-lg font-semibold mb-4">{t("footer.quickLinks")}</h3>
             <nav className="flex flex-col gap-2">
               {NAVIGATION_ITEMS.map((item) => (
                 <a
                   key={item.href}
-                  href={item.href}
+                  href={item.href.startsWith("/") ? localizePath(item.href, locale) : item.href}
                   className="text-gray-400 hover:text-white transition-colors"
                 >
-                  {item.label}
+                  {t(item.labelKey)}
                 </a>
               ))}
             </nav>
           </div>
 
           <div>
-            <h3 className="text-lg font-semibold mb-4">Contatti</h3>
-            <div className="flex flex-col gap-4">
-              <a href="tel:04321485703" className="flex items-center gap-2 text-gray-400 hover:text-white">
-                <Phone size={20} />
-                0432 1485703
-              </a>
-              <a href="mailto:segreteria@dfrestauri.it" className="flex items-center gap-2 text-gray-400 hover:text-white">
-                <Mail size={20} />
-                segreteria@dfrestauri.it
-              </a>
-              <div className="flex items-center gap-2 text-gray-400">
-                <MapPin size={20} />
-                via Cussignacco 79, 33040 - Pradamano (UD)
+            <h3 className="text-lg font-semibold mb-4">{t("footer.contacts")}</h3>
+            {company && (
+              <div className="flex flex-col gap-4">
+                <a
+                  href={phoneHref(company.phone, company.country)}
+                  onClick={() => trackEvent({ type: "cta_click", target: "phone" })}
+                  className="flex items-center gap-2 text-gray-400 hover:text-white"
+                >
+                  <Phone size={20} />
+                  {company.phone}
+                </a>
+                <a
+                  href={`mailto:${company.email}`}
+                  onClick={() => trackEvent({ type: "cta_click", target: "email" })}
+                  className="flex items-center gap-2 text-gray-400 hover:text-white"
+                >
+                  <Mail size={20} />
+                  {company.email}
+                </a>
+                <div className="flex items-center gap-2 text-gray-400">
+                  <MapPin size={20} />
+                  {formatCompanyAddress(company)}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
-          <div>
-            <h3 className="text-lg font-semibold mb-4">Seguici</h3>
-            <div className="flex gap-4">
-              <a href="#" className="text-gray-400 hover:text-white">
-                <Facebook size={24} />
-              </a>
-              <a href="#" className="text-gray-400 hover:text-white">
-                <Twitter size={24} />
-              </a>
-              <a href="#" className="text-gray-400 hover:text-white">
-                <Instagram size={24} />
-              </a>
-            </div>
+          <div className="space-y-8">
+            {company && company.openingHours.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold mb-4">{t("footer.openingHours")}</h3>
+                <ul className="flex flex-col gap-2 text-gray-400">
+                  {company.openingHours.map((hours, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <Clock size={20} />
+                      <span>
+                        <span className="capitalize">{formatOpeningDays(hours, dateLocale)}</span>{" "}
+                        {hours.opens}–{hours.closes}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {socialLinks.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold mb-4">{t("footer.follow")}</h3>
+                <div className="flex gap-4">
+                  {socialLinks.map(({ network, url }) => {
+                    const Icon = SOCIAL_ICONS[network];
+                    return (
+                      <a
+                        key={network}
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        aria-label={SOCIAL_NETWORK_LABELS[network]}
+                        className="text-gray-400 hover:text-white"
+                      >
+                        <Icon size={24} />
+                      </a>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="border-t border-gray-800 mt-12 pt-8 text-center text-gray-400">
-          <p>© {new Date().getFullYear()} DF Restauri SRL. Tutti i diritti riservati.</p>
+          <p>
+            {t("footer.rights", { year: new Date().getFullYear() })}
+            {" · "}
+            <a href={localizePath("/privacy", locale)} className="hover:text-white">
+              {t("footer.privacy")}
+            </a>
+            {" · "}
+            <button type="button" onClick={openSettings} className="hover:text-white">
+              {t("footer.cookies")}
+            </button>
+          </p>
         </div>
       </div>
     </footer>
@@ -1,14 +1,22 @@
 import { useCallback, useState, useEffect } from "react";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Menu, X, ChevronDown } from "lucide-react";
+import { localizePath, locales } from "@db/schema";
 import { Button } from "@/components/ui/button";
-import { NAVIGATION_ITEMS } from "@/lib/constants";
+import { NAVIGATION_ITEMS, type NavigationItem } from "@/lib/constants";
+import { LOCALE_LABELS, useTranslation } from "@/lib/i18n";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useCompanySettings } from "@/hooks/useCompanySettings";
+import { QuoteRequestDialog } from "@/components/quote/QuoteRequestDialog";
 
 export function Header() {
   const [isOpen, setIsOpen] = useState(false);
   const [openDropdowns, setOpenDropdowns] = useState<string[]>([]);
   const isMobile = useIsMobile();
+  const { data: company } = useCompanySettings();
+  const { locale, t } = useTranslation();
+  // Inside the locale's router, so this is the Italian path of the page.
+  const [path] = useLocation();
   
   const toggleMenu = useCallback(() => {
     setIsOpen(!isOpen);
@@ -29,15 +37,17 @@ export function Header() {
     setOpenDropdowns([]);
   }, [isMobile, isOpen]);
 
-  const renderNavItem = (item: typeof NAVIGATION_ITEMS[0], mobile = false) => {
+  const localizeHref = (href: string) => (href.startsWith("/") ? localizePath(href, locale) : href);
+
+  const renderNavItem = (item: NavigationItem, mobile = false) => {
     const hasDropdown = 'items' in item;
-    const isDropdownOpen = openDropdowns.includes(item.label);
+    const isDropdownOpen = openDropdowns.includes(item.labelKey);
 
     if (!hasDropdown) {
       return (
         <a
           key={item.href}
-          href={item.href}
+          href={localizeHref(item.href)}
           className={`${
             mobile
               ? "block py-2 text-gray-600 hover:text-primary transition-colors"
@@ -45,7 +55,7 @@ export function Header() {
           }`}
           onClick={() => mobile && setIsOpen(false)}
         >
-          {item.label}
+          {t(item.labelKey)}
         </a>
       );
     }
@@ -53,14 +63,14 @@ export function Header() {
     return (
       <div key={item.href} className={`${mobile ? "" : "relative group"}`}>
         <button
-          onClick={() => mobile && toggleDropdown(item.label)}
+          onClick={() => mobile && toggleDropdown(item.labelKey)}
           className={`${
             mobile
               ? "w-full text-left py-2 flex items-center justify-between"
               : "flex items-center gap-1 text-gray-600 hover:text-primary transition-colors"
           }`}
         >
-          {item.label}
+          {t(item.labelKey)}
           <ChevronDown
             className={`h-4 w-4 transition-transform ${
               isDropdownOpen ? "rotate-180" : ""
@@ -79,7 +89,7 @@ export function Header() {
           {'items' in item && item.items?.map((subItem) => (
             <a
               key={subItem.href}
-              href={subItem.href}
+              href={localizeHref(subItem.href)}
               className={`${
                 mobile
                   ? "block py-2 text-gray-600 hover:text-primary transition-colors"
@@ -87,7 +97,7 @@ export function Header() {
               }`}
               onClick={() => mobile && setIsOpen(false)}
             >
-              {subItem.label}
+              {t(subItem.labelKey)}
             </a>
           ))}
         </div>
@@ -95,22 +105,46 @@ export function Header() {
     );
   };
 
+  const languageSwitcher = (
+    <div className="flex items-center gap-2 text-sm" role="group" aria-label={t("nav.language")}>
+      {locales.map((option) => (
+        <a
+          key={option}
+          href={localizePath(path, option)}
+          hrefLang={option}
+          lang={option}
+          title={LOCALE_LABELS[option]}
+          aria-current={option === locale ? "true" : undefined}
+          className={
+            option === locale
+              ? "font-semibold text-primary"
+              : "text-gray-500 hover:text-primary transition-colors"
+          }
+        >
+          {option.toUpperCase()}
+        </a>
+      ))}
+    </div>
+  );
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-white shadow-sm">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-20">
           <Link href="/">
-            <img 
-              src="/logorestauri.png"
-              alt="DF Restauri"
-              className="h-8 md:h-12 w-auto object-contain transition-transform hover:scale-105"
-              style={{ maxWidth: '150px' }}
-              onError={(e) => {
-                e.currentTarget.onerror = null;
-                e.currentTarget.src = '/fallback-logo.png';
-                console.error('Error loading logo image');
-              }}
-            />
+            {company && (
+              <img 
+                src={company.logo}
+                alt={company.name}
+                className="h-8 md:h-12 w-auto object-contain transition-transform hover:scale-105"
+                style={{ maxWidth: '150px' }}
+                onError={(e) => {
+                  e.currentTarget.onerror = null;
+                  e.currentTarget.src = '/fallback-logo.png';
+                  console.error('Error loading logo image');
+                }}
+              />
+            )}
           </Link>
 
           {isMobile ? (
@@ -118,16 +152,19 @@ export function Header() {
               variant="ghost"
               size="icon"
               onClick={toggleMenu}
-              aria-label="Toggle menu"
+              aria-label={t("nav.toggleMenu")}
             >
               {isOpen ? <X /> : <Menu />}
             </Button>
           ) : (
             <nav className="flex items-center gap-8">
               {NAVIGATION_ITEMS.map((item) => renderNavItem(item))}
-              <Button>
-                Richiedi Preventivo
-              </Button>
+              {languageSwitcher}
+              <QuoteRequestDialog>
+                <Button>
+                  {t("common.requestQuote")}
+                </Button>
+              </QuoteRequestDialog>
             </nav>
           )}
         </div>
@@ -135,9 +172,12 @@ export function Header() {
         {isMobile && isOpen && (
           <nav className="py-4">
             {NAVIGATION_ITEMS.map((item) => renderNavItem(item, true))}
-            <Button className="w-full mt-4">
-              Richiedi Preventivo
-            </Button>
+            <div className="py-2">{languageSwitcher}</div>
+            <QuoteRequestDialog>
+              <Button className="w-full mt-4">
+                {t("common.requestQuote")}
+              </Button>
+            </QuoteRequestDialog>
           </nav>
         )}
       </div>
@@ -0,0 +1,22 @@
+import { localizePath } from "@db/schema";
+import { useTranslation } from "@/lib/i18n";
+
+// Opens the notice in a new tab so a half-filled form is not lost.
+export function PrivacyConsentLabel() {
+  const { locale, t } = useTranslation();
+
+  return (
+    <>
+      {t("privacy.consentBefore")}
+      <a
+        href={localizePath("/privacy", locale)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline underline-offset-2 hover:text-primary"
+      >
+        {t("privacy.consentLink")}
+      </a>
+      {t("privacy.consentAfter")}
+    </>
+  );
+}
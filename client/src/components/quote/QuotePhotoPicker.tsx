@@ -0,0 +1,97 @@
+import { useEffect, useMemo, type ChangeEvent } from "react";
+import { ImagePlus, X } from "lucide-react";
+import { quotePhotoLimits } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+
+interface QuotePhotoPickerProps {
+  photos: File[];
+  onChange: (photos: File[]) => void;
+}
+
+const MAX_FILE_SIZE_MB = quotePhotoLimits.maxFileSize / 1024 / 1024;
+
+export function QuotePhotoPicker({ photos, onChange }: QuotePhotoPickerProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const previews = useMemo(() => photos.map((photo) => URL.createObjectURL(photo)), [photos]);
+
+  useEffect(() => {
+    return () => previews.forEach((preview) => URL.revokeObjectURL(preview));
+  }, [previews]);
+
+  function handleSelect(e: ChangeEvent<HTMLInputElement>) {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const accepted = selected.filter(
+      (file) =>
+        quotePhotoLimits.mimeTypes.includes(file.type) &&
+        file.size <= quotePhotoLimits.maxFileSize,
+    );
+    if (accepted.length < selected.length) {
+      toast({
+        variant: "destructive",
+        title: t("quote.photos.rejected"),
+        description: t("quote.photos.rejectedDescription", { size: MAX_FILE_SIZE_MB }),
+      });
+    }
+
+    const next = [...photos, ...accepted];
+    if (next.length > quotePhotoLimits.maxFiles) {
+      toast({
+        variant: "destructive",
+        title: t("quote.photos.tooMany"),
+        description: t("quote.photos.tooManyDescription", { max: quotePhotoLimits.maxFiles }),
+      });
+    }
+    onChange(next.slice(0, quotePhotoLimits.maxFiles));
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {t("quote.photos.intro", { max: quotePhotoLimits.maxFiles })}
+      </p>
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {photos.map((photo, index) => (
+            <div key={previews[index]} className="relative aspect-square">
+              <img
+                src={previews[index]}
+                alt={photo.name}
+                className="h-full w-full rounded-md object-cover"
+              />
+              <button
+                type="button"
+                className="absolute right-1 top-1 rounded-full bg-black/60 p-1 text-white"
+                onClick={() => onChange(photos.filter((_, i) => i !== index))}
+                aria-label={t("quote.photos.remove", { name: photo.name })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {photos.length < quotePhotoLimits.maxFiles && (
+        <Button type="button" variant="outline" className="w-full" asChild>
+          <label className="cursor-pointer">
+            <ImagePlus className="mr-2 h-4 w-4" />
+            {t("quote.photos.add")}
+            <input
+              type="file"
+              accept={quotePhotoLimits.mimeTypes.join(",")}
+              multiple
+              className="sr-only"
+              onChange={handleSelect}
+            />
+          </label>
+        </Button>
+      )}
+    </div>
+  );
+}
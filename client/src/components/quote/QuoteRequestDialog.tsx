@@ -0,0 +1,400 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useForm, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  propertyTypes,
+  quoteRequestFormSchema,
+  quoteTimeframes,
+  type ProjectCategory,
+  type QuoteRequestFormData,
+} from "@db/schema";
+import { HoneypotField } from "@/components/forms/HoneypotField";
+import { PrivacyConsentLabel } from "@/components/privacy/PrivacyConsentLabel";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useContent } from "@/hooks/useContent";
+import { useFillTime } from "@/hooks/useFillTime";
+import { usePrivacyPolicy } from "@/hooks/usePrivacyPolicy";
+import { useToast } from "@/hooks/use-toast";
+import { trackEvent } from "@/lib/analytics";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/it";
+import { QuotePhotoPicker } from "./QuotePhotoPicker";
+
+type QuoteFormValues = QuoteRequestFormData;
+
+const STEPS: { titleKey: MessageKey; fields: FieldPath<QuoteFormValues>[] }[] = [
+  { titleKey: "quote.steps.service", fields: ["serviceType", "propertyType"] },
+  { titleKey: "quote.steps.property", fields: ["address", "surface", "timeframe"] },
+  { titleKey: "quote.steps.description", fields: ["description"] },
+  { titleKey: "quote.steps.photos", fields: [] },
+  { titleKey: "quote.steps.contacts", fields: ["name", "email", "phone", "privacyConsent"] },
+];
+
+interface QuoteRequestDialogProps {
+  children: ReactNode;
+  defaultService?: ProjectCategory;
+}
+
+export function QuoteRequestDialog({ children, defaultService }: QuoteRequestDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState(0);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { data: servicesContent } = useContent("services");
+  // The consent must name a version of the notice, so the form cannot be sent
+  // without one.
+  const { data: policy, isError: policyFailed } = usePrivacyPolicy();
+  const fillTime = useFillTime();
+
+  const form = useForm<QuoteFormValues>({
+    resolver: zodResolver(quoteRequestFormSchema),
+    defaultValues: {
+      serviceType: defaultService,
+      address: "",
+      description: "",
+      name: "",
+      email: "",
+      phone: "",
+      website: "",
+      privacyConsent: false,
+    },
+  });
+
+  useEffect(() => {
+    if (policy) {
+      form.setValue("privacyPolicyVersion", policy.version);
+    }
+  }, [form, policy]);
+
+  const submitQuote = useMutation({
+    mutationFn: (values: QuoteFormValues) => {
+      const body = new FormData();
+      body.append("data", JSON.stringify(values));
+      photos.forEach((photo) => body.append("photos", photo));
+      return apiRequest("POST", "/api/quotes", body);
+    },
+    onSuccess: () => {
+      trackEvent({ type: "form_submit", target: "quote" });
+      setIsOpen(false);
+      toast({
+        title: t("quote.sent"),
+        description: t("quote.sentDescription"),
+      });
+    },
+    // The server says what to fix, e.g. a photo that is too large or too many requests.
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: t("common.sendFailed"),
+        description: error.message,
+      });
+    },
+  });
+
+  function handleOpenChange(open: boolean) {
+    setIsOpen(open);
+    if (open) {
+      trackEvent({ type: "cta_click", target: "quote" });
+      setStep(0);
+      setPhotos([]);
+      form.reset();
+      fillTime.restart();
+      if (policy) {
+        form.setValue("privacyPolicyVersion", policy.version);
+      }
+    }
+  }
+
+  async function goToNextStep() {
+    const isValid = await form.trigger(STEPS[step].fields);
+    if (isValid) {
+      setStep((current) => current + 1);
+    }
+  }
+
+  function onSubmit(values: QuoteFormValues) {
+    submitQuote.mutate({ ...values, elapsedMs: fillTime.elapsed() });
+  }
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("quote.title")}</DialogTitle>
+          <DialogDescription>
+            {t("quote.step", { current: step + 1, total: STEPS.length, title: t(STEPS[step].titleKey) })}
+          </DialogDescription>
+        </DialogHeader>
+        <Progress value={((step + 1) / STEPS.length) * 100} />
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <HoneypotField id="quote-website" {...form.register("website")} />
+            {step === 0 && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="serviceType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("quote.serviceType")}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={t("quote.servicePlaceholder")} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {servicesContent?.items.map((service) => (
+                            <SelectItem key={service.id} value={service.id}>
+                              {service.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="propertyType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("quote.propertyType")}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={t("quote.propertyPlaceholder")} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {propertyTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {t(`propertyTypes.${type}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 1 && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("quote.address")}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t("quote.addressPlaceholder")} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="surface"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("quote.surface")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder={t("common.optional")}
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="timeframe"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("quote.timeframe")}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={t("quote.timeframePlaceholder")} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {quoteTimeframes.map((timeframe) => (
+                            <SelectItem key={timeframe} value={timeframe}>
+                              {t(`quoteTimeframes.${timeframe}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 2 && (
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("quote.description")}</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder={t("quote.descriptionPlaceholder")}
+                        className="min-h-[150px]"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {step === 3 && <QuotePhotoPicker photos={photos} onChange={setPhotos} />}
+
+            {step === 4 && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.name")}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t("common.namePlaceholder")} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.email")}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t("common.emailPlaceholder")} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.phone")}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t("common.phonePlaceholder")} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="privacyConsent"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>
+                          <PrivacyConsentLabel />
+                        </FormLabel>
+                        <FormMessage />
+                        {policyFailed && (
+                          <p className="text-sm font-medium text-destructive">{t("privacy.consentUnavailable")}</p>
+                        )}
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <div className="flex justify-between pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={step === 0}
+                onClick={() => setStep((current) => current - 1)}
+              >
+                {t("quote.back")}
+              </Button>
+              {isLastStep ? (
+                <Button type="submit" disabled={submitQuote.isPending || !policy}>
+                  {submitQuote.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("quote.submit")}
+                </Button>
+              ) : (
+                <Button type="button" onClick={goToNextStep}>
+                  {t("quote.next")}
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,34 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
+import { Loader2, Quote } from "lucide-react";
 import { fadeInUp, staggerChildren } from "@/lib/animations";
 import type { CaseHistory as CaseHistoryType } from "@/types/project";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ServiceGallery } from "@/components/gallery/ServiceGallery";
-import { STOCK_PHOTOS } from "@/lib/constants";
+import { BeforeAfterSlider } from "@/components/gallery/BeforeAfterSlider";
+import { useTranslation } from "@/lib/i18n";
 
-// Sample data - in a real app, this would come from an API
-const CASE_HISTORIES: CaseHistoryType[] = [
-  {
-    id: "1",
-    title: "Restauro Palazzo Storico Veneziano",
-    description: "Restauro completo di un palazzo storico del XVI secolo nel cuore di Venezia",
-    category: "restauro",
-    image: STOCK_PHOTOS.restoration[0],
-    year: 2023,
-    location: "Venezia",
-    challenge: "Il palazzo presentava gravi problemi strutturali e necessitava di un restauro conservativo che preservasse gli elementi storici originali.",
-    solution: "Abbiamo implementato tecniche innovative di consolidamento strutturale combinate con metodi tradizionali di restauro, utilizzando materiali compatibili con quelli originali.",
-    results: [
-      "Completo recupero strutturale dell'edificio",
-      "Preservazione del 95% degli elementi decorativi originali",
-      "Miglioramento della classe energetica",
-      "Riconoscimento per l'eccellenza nel restauro conservativo"
-    ],
-    gallery: STOCK_PHOTOS.restoration,
-    status: "completed"
+export function CaseHistory() {
+  const { t } = useTranslation();
+  const { data: caseHistories, isLoading, error } = useQuery<CaseHistoryType[]>({
+    queryKey: ["/api/case-histories"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        {t("caseHistory.error")}
+      </div>
+    );
   }
-];
 
-export function CaseHistory() {
   return (
     <motion.div
       initial="initial"
@@ -36,49 +38,84 @@ export function CaseHistory() {
       variants={staggerChildren}
       className="space-y-12"
     >
-      {CASE_HISTORIES.map((caseHistory) => (
+      {caseHistories?.map((caseHistory) => (
         <motion.div
           key={caseHistory.id}
+          id={caseHistory.slug}
           variants={fadeInUp}
           className="bg-background rounded-lg shadow-sm"
         >
           <Card>
             <CardHeader>
-              <CardTitle className="text-2xl">{caseHistory.title}</CardTitle>
+              <div className="flex flex-wrap items-center gap-3">
+                <CardTitle className="text-2xl">{caseHistory.title}</CardTitle>
+                <Badge variant={caseHistory.status === "completed" ? "default" : "secondary"}>
+                  {t(`caseHistoryStatuses.${caseHistory.status}`)}
+                </Badge>
+              </div>
               <div className="flex justify-between text-sm text-muted-foreground mt-2">
-                <span>{caseHistory.location}</span>
+                <span>
+                  {caseHistory.location}
+                  {caseHistory.client && ` — ${caseHistory.client}`}
+                </span>
                 <span>{caseHistory.year}</span>
               </div>
             </CardHeader>
             <CardContent className="space-y-6">
               <p className="text-muted-foreground">{caseHistory.description}</p>
-              
+
               <div>
-                <h3 className="font-semibold mb-2">La Sfida</h3>
+                <h3 className="font-semibold mb-2">{t("caseHistory.challenge")}</h3>
                 <p className="text-muted-foreground">{caseHistory.challenge}</p>
               </div>
 
               <div>
-                <h3 className="font-semibold mb-2">La Soluzione</h3>
+                <h3 className="font-semibold mb-2">{t("caseHistory.solution")}</h3>
                 <p className="text-muted-foreground">{caseHistory.solution}</p>
               </div>
 
-              <div>
-                <h3 className="font-semibold mb-2">Risultati</h3>
-                <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-                  {caseHistory.results.map((result, index) => (
-                    <li key={`result-${index}`}>{result}</li>
-                  ))}
-                </ul>
-              </div>
+              {caseHistory.results.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">{t("caseHistory.results")}</h3>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    {caseHistory.results.map((result, index) => (
+                      <li key={`result-${index}`}>{result}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-              <div className="mt-6">
-                <h3 className="font-semibold mb-4">Galleria del Progetto</h3>
-                <ServiceGallery 
-                  images={caseHistory.gallery}
-                  category={caseHistory.category}
-                />
-              </div>
+              {caseHistory.testimonial && (
+                <blockquote className="border-l-4 border-primary bg-muted/50 p-4 rounded-r-lg">
+                  <Quote className="h-5 w-5 text-primary mb-2" />
+                  <p className="italic">{caseHistory.testimonial.quote}</p>
+                  <footer className="mt-2 text-sm text-muted-foreground">
+                    {caseHistory.testimonial.author}
+                    {caseHistory.testimonial.role && `, ${caseHistory.testimonial.role}`}
+                  </footer>
+                </blockquote>
+              )}
+
+              {caseHistory.beforeAfter.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-4">{t("project.beforeAfter")}</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {caseHistory.beforeAfter.map((pair) => (
+                      <BeforeAfterSlider key={pair.before} pair={pair} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {caseHistory.gallery.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-4">{t("caseHistory.gallery")}</h3>
+                  <ServiceGallery
+                    images={caseHistory.gallery}
+                    category={caseHistory.category}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         </motion.div>
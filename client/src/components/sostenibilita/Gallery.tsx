@@ -1,51 +1,56 @@
 import { Card } from "@/components/ui/card";
+import { ResponsiveImage } from "@/components/ui/responsive-image";
 import { STOCK_PHOTOS } from "@/lib/constants";
+import { useTranslation } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/it";
 
 interface GalleryItem {
   image: string;
-  title: string;
-  description: string;
+  titleKey: MessageKey;
+  descriptionKey: MessageKey;
 }
 
 const GALLERY_ITEMS: GalleryItem[] = [
   {
     image: STOCK_PHOTOS.restoration[0],
-    title: "Restauro Palazzo Storico",
-    description: "Intervento di restauro sostenibile con materiali eco-compatibili"
+    titleKey: "sustainability.gallery.palazzo.title",
+    descriptionKey: "sustainability.gallery.palazzo.description"
   },
   {
     image: STOCK_PHOTOS.construction[0],
-    title: "Edificio Zero Emissioni",
-    description: "Costruzione moderna con tecnologie per l'efficienza energetica"
+    titleKey: "sustainability.gallery.zeroEmissions.title",
+    descriptionKey: "sustainability.gallery.zeroEmissions.description"
   },
   {
     image: STOCK_PHOTOS.renovation[0],
-    title: "Ristrutturazione Green",
-    description: "Ristrutturazione con focus sul risparmio energetico"
+    titleKey: "sustainability.gallery.green.title",
+    descriptionKey: "sustainability.gallery.green.description"
   },
   {
     image: STOCK_PHOTOS.restoration[1],
-    title: "Recupero Centro Storico",
-    description: "Restauro conservativo con materiali tradizionali sostenibili"
+    titleKey: "sustainability.gallery.historicCentre.title",
+    descriptionKey: "sustainability.gallery.historicCentre.description"
   },
   {
     image: STOCK_PHOTOS.construction[1],
-    title: "Progetto Sostenibile",
-    description: "Nuovo complesso residenziale a basso impatto ambientale"
+    titleKey: "sustainability.gallery.residential.title",
+    descriptionKey: "sustainability.gallery.residential.description"
   },
   {
     image: STOCK_PHOTOS.renovation[1],
-    title: "Riqualificazione Energetica",
-    description: "Intervento di efficientamento energetico completo"
+    titleKey: "sustainability.gallery.energy.title",
+    descriptionKey: "sustainability.gallery.energy.description"
   }
 ];
 
 export function Gallery() {
+  const { t } = useTranslation();
+
   return (
     <section className="py-16 bg-muted/30">
       <div className="container mx-auto px-4">
         <h2 className="text-3xl font-bold mb-8 text-center">
-          I Nostri Progetti Sostenibili
+          {t("sustainability.galleryTitle")}
         </h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {GALLERY_ITEMS.map((item, index) => (
@@ -54,16 +59,16 @@ export function Gallery() {
               className="overflow-hidden group cursor-pointer hover:shadow-lg transition-shadow"
             >
               <div className="aspect-video relative overflow-hidden">
-                <img
+                <ResponsiveImage
                   src={item.image}
-                  alt={item.title}
+                  alt={t(item.titleKey)}
+                  sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                   className="w-full h-full object-cover object-center group-hover:scale-105 transition-transform duration-300"
-                  loading="lazy"
                 />
               </div>
               <div className="p-4">
-                <h3 className="font-semibold mb-2">{item.title}</h3>
-                <p className="text-sm text-muted-foreground">{item.description}</p>
+                <h3 className="font-semibold mb-2">{t(item.titleKey)}</h3>
+                <p className="text-sm text-muted-foreground">{t(item.descriptionKey)}</p>
               </div>
             </Card>
           ))}
@@ -0,0 +1,50 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/lib/i18n";
+
+interface RatingStarsProps {
+  value: number;
+  /** Makes the stars clickable; omit for a read-only rating. */
+  onChange?: (value: number) => void;
+  className?: string;
+}
+
+export function RatingStars({ value, onChange, className }: RatingStarsProps) {
+  const { t } = useTranslation();
+  const stars = [1, 2, 3, 4, 5].map((star) => {
+    const icon = (
+      <Star
+        className={cn(
+          "h-5 w-5",
+          star <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40",
+        )}
+      />
+    );
+
+    return onChange ? (
+      <button
+        key={star}
+        type="button"
+        role="radio"
+        aria-checked={star === value}
+        aria-label={t("rating.star", { star })}
+        onClick={() => onChange(star)}
+        className="rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {icon}
+      </button>
+    ) : (
+      <span key={star}>{icon}</span>
+    );
+  });
+
+  return onChange ? (
+    <div role="radiogroup" aria-label={t("rating.label")} className={cn("flex gap-1", className)}>
+      {stars}
+    </div>
+  ) : (
+    <div aria-label={t("rating.value", { value })} className={cn("flex gap-0.5", className)}>
+      {stars}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Quote } from "lucide-react";
+import type { PublicTestimonial } from "@db/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/lib/i18n";
+import { RatingStars } from "./RatingStars";
+
+interface TestimonialCarouselProps {
+  /** Only show testimonials linked to this project. */
+  projectSlug?: string;
+  title?: string;
+  className?: string;
+}
+
+// Approved testimonials. Renders nothing until there is at least one, so
+// pages can include it unconditionally.
+export function TestimonialCarousel({
+  projectSlug,
+  title,
+  className,
+}: TestimonialCarouselProps) {
+  const { t } = useTranslation();
+  const { data: testimonials } = useQuery<PublicTestimonial[]>({
+    queryKey: [
+      projectSlug
+        ? `/api/testimonials?project=${encodeURIComponent(projectSlug)}`
+        : "/api/testimonials",
+    ],
+  });
+
+  if (!testimonials?.length) {
+    return null;
+  }
+
+  return (
+    <section className={cn("py-20", className)}>
+      <div className="container mx-auto px-4">
+        <h2 className="text-3xl font-bold text-center mb-12">{title ?? t("testimonials.title")}</h2>
+        <Carousel opts={{ align: "start" }} className="mx-auto max-w-5xl md:px-12">
+          <CarouselContent>
+            {testimonials.map((testimonial) => (
+              <CarouselItem key={testimonial.id} className="md:basis-1/2 lg:basis-1/3">
+                <Card className="h-full">
+                  <CardContent className="flex h-full flex-col gap-4 p-6">
+                    <Quote className="h-6 w-6 text-primary" />
+                    <RatingStars value={testimonial.rating} />
+                    <blockquote className="flex-1 italic text-muted-foreground">
+                      {testimonial.quote}
+                    </blockquote>
+                    <footer className="text-sm">
+                      <p className="font-semibold">{testimonial.author}</p>
+                      {testimonial.role && (
+                        <p className="text-muted-foreground">{testimonial.role}</p>
+                      )}
+                      {testimonial.project && !projectSlug && (
+                        <Link
+                          href={`/realizzazioni/${testimonial.project.slug}`}
+                          className="text-primary hover:underline"
+                        >
+                          {testimonial.project.title}
+                        </Link>
+                      )}
+                    </footer>
+                  </CardContent>
+                </Card>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="hidden md:flex left-0" />
+          <CarouselNext className="hidden md:flex right-0" />
+        </Carousel>
+      </div>
+    </section>
+  );
+}
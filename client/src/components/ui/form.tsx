@@ -10,6 +10,7 @@ import {
   useFormContext,
 } from "react-hook-form"
 
+import { isMessageKey, useTranslation } from "@/lib/i18n"
 import { cn } from "@/lib/utils"
 import { Label } from "@/components/ui/label"
 
@@ -145,7 +146,10 @@ const FormMessage = React.forwardRef<
   React.HTMLAttributes<HTMLParagraphElement>
 >(({ className, children, ...props }, ref) => {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message) : children
+  const { t } = useTranslation()
+  // The public form schemas use catalog keys as messages.
+  const message = String(error?.message)
+  const body = error ? (isMessageKey(message) ? t(message) : message) : children
 
   if (!body) {
     return null
@@ -0,0 +1,71 @@
+import * as React from "react";
+import { useImageMetadata } from "@/hooks/useImageMetadata";
+import { buildSrcSet, isResponsiveImage } from "@/lib/images";
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "srcSet"> {
+  src: string;
+  alt: string;
+  /** Rendered width of the image at each breakpoint, as in the `sizes` attribute. */
+  sizes?: string;
+  widths?: number[];
+}
+
+export const ResponsiveImage = React.forwardRef<HTMLImageElement, ResponsiveImageProps>(
+  (
+    {
+      src,
+      alt,
+      sizes = "100vw",
+      widths,
+      loading = "lazy",
+      decoding = "async",
+      width,
+      height,
+      style,
+      onLoad,
+      ...props
+    },
+    ref,
+  ) => {
+    const [isLoaded, setIsLoaded] = React.useState(false);
+    // Also known for uploads under /media, which are not resized.
+    const { data: entry } = useImageMetadata(src);
+    const srcSet = isResponsiveImage(src) ? buildSrcSet(src, widths) : undefined;
+
+    React.useEffect(() => {
+      setIsLoaded(false);
+    }, [src]);
+
+    // The blurred preview is painted as the element's own background, so it
+    // takes exactly the box (and object-fit) of the real image underneath.
+    const placeholderStyle: React.CSSProperties | undefined =
+      entry && !isLoaded
+        ? {
+            backgroundImage: `url("${entry.placeholder}")`,
+            backgroundSize: "cover",
+            backgroundPosition: "center",
+          }
+        : undefined;
+
+    return (
+      <img
+        ref={ref}
+        src={src}
+        srcSet={srcSet}
+        sizes={srcSet ? sizes : undefined}
+        alt={alt}
+        loading={loading}
+        decoding={decoding}
+        width={width ?? entry?.width}
+        height={height ?? entry?.height}
+        style={{ ...placeholderStyle, ...style }}
+        onLoad={(e) => {
+          setIsLoaded(true);
+          onLoad?.(e);
+        }}
+        {...props}
+      />
+    );
+  },
+);
+ResponsiveImage.displayName = "ResponsiveImage";
@@ -0,0 +1,90 @@
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import { QueryClient, dehydrate, type DehydratedState } from "@tanstack/react-query";
+import { App } from "./App";
+import { HeadProvider, renderHeadTags, type HeadCollector } from "./lib/head";
+import { localeFromPath } from "./lib/i18n";
+
+export interface RenderOptions {
+  /** Where this server's API answers, e.g. http://127.0.0.1:5000. */
+  apiOrigin: string;
+  /** Public origin used for canonical URLs and link previews. */
+  siteUrl: string;
+}
+
+export interface RenderResult {
+  html: string;
+  head: string;
+  /** Language of the page, for <html lang>. */
+  lang: string;
+  status: number;
+  state: DehydratedState;
+}
+
+// Each pass fetches the queries the previous render asked for; pages whose
+// queries depend on earlier results need more than one.
+const MAX_RENDER_PASSES = 4;
+
+function createServerQueryClient(apiOrigin: string) {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+        queryFn: async ({ queryKey }) => {
+          const res = await fetch(new URL(queryKey[0] as string, apiOrigin));
+          if (!res.ok) {
+            throw new Error(`${res.status}: ${res.statusText}`);
+          }
+          return res.json();
+        },
+      },
+    },
+  });
+}
+
+export async function render(url: string, { apiOrigin, siteUrl }: RenderOptions): Promise<RenderResult> {
+  const [path, search = ""] = url.split("?");
+  const queryClient = createServerQueryClient(apiOrigin);
+  const collector: HeadCollector = { siteUrl, head: null };
+
+  const renderApp = () =>
+    renderToString(
+      <StrictMode>
+        <HeadProvider collector={collector}>
+          <App queryClient={queryClient} ssrPath={path} ssrSearch={search} />
+        </HeadProvider>
+      </StrictMode>,
+    );
+
+  let html = renderApp();
+  for (let pass = 1; pass < MAX_RENDER_PASSES; pass++) {
+    // useQuery registers its query in the cache during render even though
+    // it never fetches on the server.
+    const pending = queryClient.getQueryCache().findAll({
+      predicate: (query) =>
+        query.state.status === "pending" &&
+        query.state.fetchStatus === "idle" &&
+        (query.options as { enabled?: unknown }).enabled !== false,
+    });
+    if (pending.length === 0) {
+      break;
+    }
+
+    await Promise.all(pending.map((query) => queryClient.prefetchQuery({ queryKey: query.queryKey })));
+    html = renderApp();
+  }
+
+  const head = collector.head;
+  const locale = localeFromPath(path);
+  return {
+    html,
+    head: head ? renderHeadTags(head, siteUrl, locale) : "",
+    lang: locale,
+    status: head?.status ?? 200,
+    // Failed queries are included too, so a "not found" page hydrates as
+    // rendered instead of flashing a loader.
+    state: dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) => query.state.status !== "pending",
+    }),
+  };
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { User } from "@db/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export type PublicUser = Omit<User, "password">;
+
+interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+async function fetchCurrentUser(): Promise<PublicUser | null> {
+  const res = await fetch("/api/me", { credentials: "include" });
+
+  if (res.status === 401) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+
+  return res.json();
+}
+
+export function useUser() {
+  const { data: user, isLoading, error } = useQuery<PublicUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: fetchCurrentUser,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const login = useMutation({
+    mutationFn: (credentials: LoginCredentials) =>
+      apiRequest<PublicUser>("POST", "/api/login", credentials),
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/me"], loggedIn);
+    },
+  });
+
+  const logout = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/logout"),
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
+    },
+  });
+
+  return { user: user ?? null, isLoading, error, login, logout };
+}
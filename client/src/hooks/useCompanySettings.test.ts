@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { internationalPhone, phoneHref } from "./useCompanySettings";
+
+describe("internationalPhone", () => {
+  it("keeps the leading zero of Italian area codes", () => {
+    expect(internationalPhone("0432 123456", "IT")).toBe("+390432123456");
+    expect(internationalPhone("347 123 4567", "it")).toBe("+393471234567");
+  });
+
+  it("drops the trunk prefix elsewhere", () => {
+    expect(internationalPhone("0463 123456", "AT")).toBe("+43463123456");
+    expect(internationalPhone("089 1234567", "DE")).toBe("+49891234567");
+  });
+
+  it("keeps numbers that already have a prefix", () => {
+    expect(internationalPhone("+39 0432 123456", "AT")).toBe("+390432123456");
+    expect(internationalPhone("0039 0432-123456", "IT")).toBe("+390432123456");
+  });
+
+  it("leaves numbers of unknown countries as dialled", () => {
+    expect(internationalPhone("020 7946 0000", "GB")).toBe("02079460000");
+  });
+});
+
+describe("phoneHref", () => {
+  it("links the international number", () => {
+    expect(phoneHref("0432 123456", "IT")).toBe("tel:+390432123456");
+  });
+});
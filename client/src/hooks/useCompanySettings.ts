@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Day, Locale as DateLocale } from "date-fns";
+import { weekdays, type CompanySettings, type OpeningHours } from "@db/schema";
+
+// Header, footer, contact section and structured data all read the same
+// record; it rarely changes, so it is fetched once per visit.
+export function useCompanySettings() {
+  return useQuery<CompanySettings>({
+    queryKey: ["/api/settings"],
+    staleTime: Infinity,
+  });
+}
+
+/** e.g. "via Cussignacco 79, 33040 - Pradamano (UD)". */
+export function formatCompanyAddress(settings: CompanySettings) {
+  return `${settings.street}, ${settings.postalCode} - ${settings.city} (${settings.province})`;
+}
+
+/** Google Maps embed centred on the company address; needs no API key. */
+export function mapEmbedUrl(settings: CompanySettings) {
+  return `https://www.google.com/maps?q=${encodeURIComponent(formatCompanyAddress(settings))}&output=embed`;
+}
+
+// Calling codes of the countries the settings may name. Italy and San Marino
+// keep the leading zero of their area codes; elsewhere it is the trunk prefix
+// and is dropped.
+const CALLING_CODES: Record<string, { code: string; keepsLeadingZero?: boolean }> = {
+  IT: { code: "39", keepsLeadingZero: true },
+  SM: { code: "378", keepsLeadingZero: true },
+  AT: { code: "43" },
+  CH: { code: "41" },
+  DE: { code: "49" },
+  FR: { code: "33" },
+  HR: { code: "385" },
+  SI: { code: "386" },
+};
+
+/**
+ * The phone number in E.164 form, e.g. "+390432123456". The settings hold it
+ * as written at home, e.g. "0432 123456"; numbers that already carry a
+ * prefix are kept as they are.
+ */
+export function internationalPhone(phone: string, country: string) {
+  const digits = phone.replace(/[^\d+]/g, "");
+  if (digits.startsWith("+")) {
+    return digits;
+  }
+  if (digits.startsWith("00")) {
+    return `+${digits.slice(2)}`;
+  }
+  const calling = CALLING_CODES[country.toUpperCase()];
+  if (!calling) {
+    return digits;
+  }
+  return `+${calling.code}${calling.keepsLeadingZero ? digits : digits.replace(/^0/, "")}`;
+}
+
+/** Phone number as dialled from anywhere. */
+export function phoneHref(phone: string, country: string) {
+  return `tel:${internationalPhone(phone, country)}`;
+}
+
+/** Consecutive days become a range, e.g. "lun–ven"; the rest are listed. */
+export function formatOpeningDays(hours: OpeningHours, dateLocale: DateLocale) {
+  const indexes = hours.days.map((day) => weekdays.indexOf(day)).sort((a, b) => a - b);
+  // date-fns counts days from Sunday.
+  const dayName = (index: number) => dateLocale.localize.day(((index + 1) % 7) as Day, { width: "abbreviated" });
+  const consecutive = indexes.every((index, position) => position === 0 || index === indexes[position - 1] + 1);
+  if (consecutive && indexes.length > 2) {
+    return `${dayName(indexes[0])}–${dayName(indexes[indexes.length - 1])}`;
+  }
+  return indexes.map(dayName).join(", ");
+}
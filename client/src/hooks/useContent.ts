@@ -1,4 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
+import type { ContentSectionData, ContentSectionKey, Locale } from "@db/schema";
+import { useLocale, withLocale } from "@/lib/i18n";
 
 export interface ContentSection {
   title: string;
@@ -7,5 +9,15 @@ export interface ContentSection {
   points?: string[];
 }
 
+// In the page's language unless one is given; sections not translated yet
+// come back in Italian.
+export function useContent<K extends ContentSectionKey>(section: K, locale?: Locale) {
+  const pageLocale = useLocale();
+  return useQuery<ContentSectionData<K>>({
+    queryKey: [withLocale(`/api/content/${section}`, locale ?? pageLocale)],
+  });
+}
 
-
+export function useAboutContent() {
+  return useContent("about");
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * How long the visitor has had a form in front of them, for the anti-spam
+ * "elapsedMs" field. Measured entirely in the browser: the server never
+ * compares it with its own clock, so a wrong system clock on the visitor's
+ * device cannot make a person look like a bot.
+ */
+export function useFillTime() {
+  const shownAt = useRef<number>();
+
+  useEffect(() => {
+    shownAt.current = performance.now();
+  }, []);
+
+  const elapsed = useCallback(
+    () => (shownAt.current === undefined ? undefined : Math.round(performance.now() - shownAt.current)),
+    [],
+  );
+  const restart = useCallback(() => {
+    shownAt.current = performance.now();
+  }, []);
+
+  return { elapsed, restart };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ImageManifestEntry } from "@db/schema";
+
+// Static images and uploads; the server knows nothing about external URLs.
+const LOCAL_IMAGE = /^\/(images|media)\//;
+
+export function useImageMetadata(src: string) {
+  return useQuery<ImageManifestEntry>({
+    queryKey: [`/api/images/metadata?src=${encodeURIComponent(src)}`],
+    enabled: LOCAL_IMAGE.test(src),
+    staleTime: Infinity,
+    retry: false,
+  });
+}
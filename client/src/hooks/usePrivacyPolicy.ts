@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PublishedPrivacyPolicy } from "@db/schema";
+
+/** The current version of the privacy notice, in Italian. */
+export function usePrivacyPolicy() {
+  return useQuery<PublishedPrivacyPolicy>({
+    queryKey: ["/api/privacy-policy"],
+  });
+}
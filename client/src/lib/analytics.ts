@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import type { AnalyticsCta, AnalyticsForm } from "@db/schema";
+import { localeFromPath, stripLocale } from "./i18n";
+
+// First-party and cookieless: an event records what happened on which page,
+// never who did it, so unlike third-party content (see lib/consent.tsx) it
+// does not wait for the cookie banner.
+
+type TrackedEvent =
+  | { type: "page_view"; referrer?: string }
+  | { type: "project_view"; target: string }
+  | { type: "cta_click"; target: AnalyticsCta }
+  | { type: "form_submit"; target: AnalyticsForm };
+
+const ENDPOINT = "/api/analytics/events";
+
+export function trackEvent(event: TrackedEvent) {
+  const { pathname } = window.location;
+  const body = JSON.stringify({ ...event, path: stripLocale(pathname), locale: localeFromPath(pathname) });
+  // A beacon survives the page being left, e.g. right after clicking a tel: link.
+  if (!navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: "application/json" }))) {
+    fetch(ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch(() => undefined);
+  }
+}
+
+let lastTrackedPath: string | null = null;
+
+/** Records a page view whenever the public path changes. */
+export function usePageViewTracking(path: string) {
+  useEffect(() => {
+    // Effects run twice in development; one visit is one view.
+    if (path === lastTrackedPath) {
+      return;
+    }
+    // The browser's referrer only describes how the first page was reached.
+    const referrer = lastTrackedPath === null ? document.referrer || undefined : undefined;
+    lastTrackedPath = path;
+    trackEvent({ type: "page_view", referrer });
+  }, [path]);
+}
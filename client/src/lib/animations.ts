@@ -28,14 +28,26 @@ export const fadeIn: Variants = {
   initial: {
     opacity: 0,
   },
-
-
-  export const staggerChildren = {
   animate: {
+    opacity: 1,
     transition: {
-      delayChildern: 0.4,
-      staggerChildren: 0.1,
+      duration: 0.5,
+      ease: "easeOut",
+    },
+  },
+};
 
-    }   
-      
-      
+export const slideIn: Variants = {
+  initial: {
+    opacity: 0,
+    x: -20,
+  },
+  animate: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.5,
+      ease: "easeOut",
+    },
+  },
+};
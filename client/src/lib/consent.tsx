@@ -0,0 +1,125 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { COOKIE_CONSENT_VERSION, type CookieCategory, type OptionalCookieCategory } from "@db/schema";
+import { apiRequest } from "./queryClient";
+
+const CONSENT_COOKIE = "df_cookie_consent";
+
+// The Garante's guidelines ask not to show the banner again for six months
+// once the visitor has chosen.
+const CONSENT_MAX_AGE = 180 * 24 * 60 * 60;
+
+export type ConsentChoices = Record<OptionalCookieCategory, boolean>;
+
+export interface CookieConsent extends ConsentChoices {
+  /** Random, links the cookie to the server-side consent log. */
+  id: string;
+  version: number;
+  decidedAt: string;
+}
+
+function readConsentCookie(): CookieConsent | null {
+  const entry = document.cookie.split("; ").find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`));
+  if (!entry) {
+    return null;
+  }
+  try {
+    const consent = JSON.parse(decodeURIComponent(entry.slice(CONSENT_COOKIE.length + 1))) as CookieConsent;
+    // A choice made on an older banner does not cover what changed since.
+    return consent.version === COOKIE_CONSENT_VERSION ? consent : null;
+  } catch {
+    return null;
+  }
+}
+
+// A version 4 UUID, as the consent log expects. crypto.randomUUID() only
+// exists on HTTPS pages and localhost; getRandomValues() works everywhere.
+function randomConsentId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** Necessary resources are always allowed; the others only once accepted. */
+export function consentAllows(consent: CookieConsent | null, category: CookieCategory) {
+  return category === "necessary" || consent?.[category] === true;
+}
+
+function writeConsentCookie(consent: CookieConsent) {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie =
+    `${CONSENT_COOKIE}=${encodeURIComponent(JSON.stringify(consent))}; ` +
+    `Max-Age=${CONSENT_MAX_AGE}; Path=/; SameSite=Lax${secure}`;
+}
+
+interface ConsentContextValue {
+  /** False until the cookie has been read: on the server and while hydrating. */
+  isReady: boolean;
+  /** Null until the visitor has made a choice. */
+  consent: CookieConsent | null;
+  /** Whether resources in a category may be loaded; necessary ones always may. */
+  allows: (category: CookieCategory) => boolean;
+  save: (choices: ConsentChoices) => void;
+  isSettingsOpen: boolean;
+  openSettings: () => void;
+  closeSettings: () => void;
+}
+
+const ConsentContext = createContext<ConsentContextValue | null>(null);
+
+export function ConsentProvider({ children }: { children: ReactNode }) {
+  const [isReady, setIsReady] = useState(false);
+  const [consent, setConsent] = useState<CookieConsent | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // The server cannot know the choice, so it renders everything as not
+  // consented and the cookie is only read once hydrated.
+  useEffect(() => {
+    setConsent(readConsentCookie());
+    setIsReady(true);
+  }, []);
+
+  function save(choices: ConsentChoices) {
+    const saved: CookieConsent = {
+      id: consent?.id ?? randomConsentId(),
+      version: COOKIE_CONSENT_VERSION,
+      decidedAt: new Date().toISOString(),
+      ...choices,
+    };
+    writeConsentCookie(saved);
+    setConsent(saved);
+    setIsSettingsOpen(false);
+    // The choice applies even if it could not be logged.
+    apiRequest("POST", "/api/cookie-consent", {
+      consentId: saved.id,
+      version: saved.version,
+      statistics: saved.statistics,
+      marketing: saved.marketing,
+    }).catch((error) => console.error("Could not record the cookie consent:", error));
+  }
+
+  const value: ConsentContextValue = {
+    isReady,
+    consent,
+    allows: (category) => consentAllows(consent, category),
+    save,
+    isSettingsOpen,
+    openSettings: () => setIsSettingsOpen(true),
+    closeSettings: () => setIsSettingsOpen(false),
+  };
+
+  return <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>;
+}
+
+/**
+ * The visitor's cookie choices. Anything that loads third-party resources
+ * (maps, videos, analytics) must check allows() first.
+ */
+export function useConsent() {
+  const context = useContext(ConsentContext);
+  if (!context) {
+    throw new Error("useConsent must be used within a ConsentProvider");
+  }
+  return context;
+}
@@ -1,3 +1,20 @@
+import { Building2, Hammer, PaintBucket, type LucideIcon } from "lucide-react";
+import type {
+  AnalyticsCta,
+  CaseHistoryStatus,
+  CertificationCategory,
+  ContentSectionKey,
+  ProjectCategory,
+  PropertyType,
+  QuoteStatus,
+  QuoteTimeframe,
+  SoaCategory,
+  SocialNetwork,
+  TestimonialStatus,
+  Weekday,
+} from "@db/schema";
+import type { MessageKey } from "@/locales/it";
+
 // Helper function to ensure images go through WebP conversion
 const getImagePath = (path: string) => {
   // If it's an external URL, return as is
@@ -23,24 +40,162 @@ export const STOCK_PHOTOS = {
   about: "/images/chi-siamo/about-company.jpeg"
 };
 
-export const NAVIGATION_ITEMS = [
+export interface NavigationItem {
+  labelKey: MessageKey;
+  /** Italian path; the header and footer add the visitor's locale prefix. */
+  href: string;
+  items?: { labelKey: MessageKey; href: string }[];
+}
+
+export const NAVIGATION_ITEMS: NavigationItem[] = [
   { 
-    label: "Home",
+    labelKey: "nav.home",
     href: "/" 
   },
   {
-    label: "Menu",
+    labelKey: "nav.menu",
     href: "#",
     items: [
-      { label: "Ci Presentiamo", href: "/ci-presentiamo" },
-      { label: "Servizi", href: "/servizi" },
-      { label: "Sostenibilita", href: "/sostenibilita" },
-      { label: "Realizzazioni", href: "/realizzazioni" }
+      { labelKey: "nav.about", href: "/ci-presentiamo" },
+      { labelKey: "nav.services", href: "/servizi" },
+      { labelKey: "nav.sustainability", href: "/sostenibilita" },
+      { labelKey: "nav.projects", href: "/realizzazioni" }
     ]
   }
 ];
 
- 
-   
-    
-     
+export const SERVICE_ICONS: Record<ProjectCategory, LucideIcon> = {
+  restauro: PaintBucket,
+  costruzione: Building2,
+  ristrutturazione: Hammer,
+};
+
+export const CONTENT_SECTION_LABELS: Record<ContentSectionKey, string> = {
+  about: "Ci Presentiamo",
+  team: "Il Nostro Team",
+  services: "Servizi",
+  sostenibilita: "Sostenibilità",
+  certificazioni: "Certificazioni",
+};
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  abitazione: "Abitazione privata",
+  condominio: "Condominio",
+  edificio_storico: "Edificio storico o vincolato",
+  commerciale: "Locale commerciale / uffici",
+  industriale: "Capannone industriale",
+};
+
+export const QUOTE_TIMEFRAME_LABELS: Record<QuoteTimeframe, string> = {
+  urgente: "Il prima possibile",
+  entro_3_mesi: "Entro 3 mesi",
+  entro_6_mesi: "Entro 6 mesi",
+  oltre_6_mesi: "Oltre 6 mesi",
+  da_definire: "Da definire",
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  new: "Nuova",
+  site_visit_scheduled: "Sopralluogo fissato",
+  quoted: "Preventivo inviato",
+  accepted: "Accettato",
+  declined: "Rifiutato",
+};
+
+export const CASE_HISTORY_STATUS_LABELS: Record<CaseHistoryStatus, string> = {
+  in_progress: "In corso",
+  completed: "Completato",
+};
+
+export const TESTIMONIAL_STATUS_LABELS: Record<TestimonialStatus, string> = {
+  pending: "Da approvare",
+  approved: "Pubblicata",
+  rejected: "Rifiutata",
+};
+
+export const CERTIFICATION_CATEGORY_LABELS: Record<CertificationCategory, string> = {
+  qualita: "Qualità",
+  ambiente: "Ambiente",
+  sicurezza: "Sicurezza",
+  soa: "Attestazione SOA",
+};
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: "Lunedì",
+  tuesday: "Martedì",
+  wednesday: "Mercoledì",
+  thursday: "Giovedì",
+  friday: "Venerdì",
+  saturday: "Sabato",
+  sunday: "Domenica",
+};
+
+export const ANALYTICS_CTA_LABELS: Record<AnalyticsCta, string> = {
+  quote: "Richiedi preventivo",
+  "hero-contact": "Contattaci (home)",
+  phone: "Telefono",
+  email: "Email",
+};
+
+export const SOCIAL_NETWORK_LABELS: Record<SocialNetwork, string> = {
+  facebook: "Facebook",
+  instagram: "Instagram",
+  linkedin: "LinkedIn",
+  youtube: "YouTube",
+  twitter: "X (Twitter)",
+};
+
+export const SOA_CATEGORY_LABELS: Record<SoaCategory, string> = {
+  OG1: "Edifici civili e industriali",
+  OG2: "Restauro e manutenzione dei beni immobili sottoposti a tutela",
+  OG3: "Strade, autostrade, ponti, viadotti, ferrovie, metropolitane",
+  OG4: "Opere d'arte nel sottosuolo",
+  OG5: "Dighe",
+  OG6: "Acquedotti, gasdotti, oleodotti, opere di irrigazione e di evacuazione",
+  OG7: "Opere marittime e lavori di dragaggio",
+  OG8: "Opere fluviali, di difesa, di sistemazione idraulica e di bonifica",
+  OG9: "Impianti per la produzione di energia elettrica",
+  OG10: "Impianti per la trasformazione e distribuzione di energia elettrica e di pubblica illuminazione",
+  OG11: "Impianti tecnologici",
+  OG12: "Opere ed impianti di bonifica e protezione ambientale",
+  OG13: "Opere di ingegneria naturalistica",
+  OS1: "Lavori in terra",
+  "OS2-A": "Superfici decorate di beni immobili del patrimonio culturale e beni culturali mobili di interesse storico, artistico, archeologico ed etnoantropologico",
+  "OS2-B": "Beni culturali mobili di interesse archivistico e librario",
+  OS3: "Impianti idrico-sanitario, cucine, lavanderie",
+  OS4: "Impianti elettromeccanici trasportatori",
+  OS5: "Impianti pneumatici e antintrusione",
+  OS6: "Finiture di opere generali in materiali lignei, plastici, metallici e vetrosi",
+  OS7: "Finiture di opere generali di natura edile e tecnica",
+  OS8: "Opere di impermeabilizzazione",
+  OS9: "Impianti per la segnaletica luminosa e la sicurezza del traffico",
+  OS10: "Segnaletica stradale non luminosa",
+  OS11: "Apparecchiature strutturali speciali",
+  "OS12-A": "Barriere stradali di sicurezza",
+  "OS12-B": "Barriere paramassi, fermaneve e simili",
+  OS13: "Strutture prefabbricate in cemento armato",
+  OS14: "Impianti di smaltimento e recupero rifiuti",
+  OS15: "Pulizia di acque marine, lacustri, fluviali",
+  OS16: "Impianti per centrali produzione energia elettrica",
+  OS17: "Linee telefoniche ed impianti di telefonia",
+  "OS18-A": "Componenti strutturali in acciaio",
+  "OS18-B": "Componenti per facciate continue",
+  OS19: "Impianti di reti di telecomunicazione e di trasmissione dati",
+  "OS20-A": "Rilevamenti topografici",
+  "OS20-B": "Indagini geognostiche",
+  OS21: "Opere strutturali speciali",
+  OS22: "Impianti di potabilizzazione e depurazione",
+  OS23: "Demolizione di opere",
+  OS24: "Verde e arredo urbano",
+  OS25: "Scavi archeologici",
+  OS26: "Pavimentazioni e sovrastrutture speciali",
+  OS27: "Impianti per la trazione elettrica",
+  OS28: "Impianti termici e di condizionamento",
+  OS29: "Armamento ferroviario",
+  OS30: "Impianti interni elettrici, telefonici, radiotelefonici e televisivi",
+  OS31: "Impianti per la mobilità sospesa",
+  OS32: "Strutture in legno",
+  OS33: "Coperture speciali",
+  OS34: "Sistemi antirumore per infrastrutture di mobilità",
+  OS35: "Interventi a basso impatto ambientale",
+};
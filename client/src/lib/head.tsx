@@ -0,0 +1,204 @@
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import { DEFAULT_LOCALE, localizePath, locales, type Locale } from "@db/schema";
+import { absoluteUrl, businessStructuredData, type StructuredData } from "@/lib/structured-data";
+import { LOCALE_TAGS, useLocale } from "@/lib/i18n";
+import { useCompanySettings } from "@/hooks/useCompanySettings";
+
+export const SITE_NAME = "DF Restauri";
+
+// Shared previews fall back to this when a page has no picture of its own.
+const DEFAULT_IMAGE = "/images/hero-background-new.jpeg";
+
+export interface PageHead {
+  /** Page title; the site name is appended. */
+  title: string;
+  description: string;
+  /**
+   * Italian path of the canonical URL, without the query string; omit for
+   * error pages. The other languages' versions are derived from it.
+   */
+  path?: string;
+  /** Path or URL of the Open Graph image. */
+  image?: string;
+  /** Open Graph type; detail pages use "article". */
+  type?: "website" | "article";
+  /** JSON-LD for the page. */
+  structuredData?: StructuredData[];
+  /** Status of the server-rendered response, e.g. 404 for a missing project. */
+  status?: number;
+}
+
+// Filled in by the page while it renders on the server, so its <head> and
+// status can be written into the response.
+export interface HeadCollector {
+  /** Public origin used for absolute URLs. */
+  siteUrl: string;
+  head: PageHead | null;
+}
+
+const HeadContext = createContext<HeadCollector | null>(null);
+
+export function HeadProvider({ collector, children }: { collector: HeadCollector; children: ReactNode }) {
+  return <HeadContext.Provider value={collector}>{children}</HeadContext.Provider>;
+}
+
+export function formatTitle(title: string) {
+  return `${title} | ${SITE_NAME}`;
+}
+
+/** Origin for absolute URLs, on the server and in the browser alike. */
+export function useSiteUrl() {
+  const collector = useContext(HeadContext);
+  return collector ? collector.siteUrl : window.location.origin;
+}
+
+interface HeadTags {
+  locale: Locale;
+  title: string;
+  description: string;
+  url: string | null;
+  /** hreflang and URL of every language version, plus x-default. */
+  alternates: [hreflang: string, url: string][];
+  image: string;
+  type: string;
+  structuredData: StructuredData[];
+}
+
+function resolveHead(head: PageHead, siteUrl: string, locale: Locale): HeadTags {
+  const path = head.path;
+  return {
+    locale,
+    title: formatTitle(head.title),
+    description: head.description,
+    url: path ? absoluteUrl(localizePath(path, locale), siteUrl) : null,
+    alternates: path
+      ? [
+          ...locales.map((alternate): [string, string] => [
+            alternate,
+            absoluteUrl(localizePath(path, alternate), siteUrl),
+          ]),
+          ["x-default", absoluteUrl(localizePath(path, DEFAULT_LOCALE), siteUrl)],
+        ]
+      : [],
+    image: absoluteUrl(head.image ?? DEFAULT_IMAGE, siteUrl),
+    type: head.type ?? "website",
+    structuredData: head.structuredData ?? [],
+  };
+}
+
+function openGraphTags(tags: HeadTags): [property: string, content: string][] {
+  return [
+    ["og:site_name", SITE_NAME],
+    ["og:locale", LOCALE_TAGS[tags.locale].replace("-", "_")],
+    ["og:type", tags.type],
+    ["og:title", tags.title],
+    ["og:description", tags.description],
+    ["og:image", tags.image],
+  ];
+}
+
+function upsertHeadElement(selector: string, create: () => HTMLElement) {
+  let element = document.head.querySelector<HTMLElement>(selector);
+  if (!element) {
+    element = create();
+    document.head.appendChild(element);
+  }
+  return element;
+}
+
+function setMeta(attribute: "name" | "property", key: string, content: string) {
+  upsertHeadElement(`meta[${attribute}="${key}"]`, () => {
+    const meta = document.createElement("meta");
+    meta.setAttribute(attribute, key);
+    return meta;
+  }).setAttribute("content", content);
+}
+
+function applyHeadTags(tags: HeadTags) {
+  document.documentElement.lang = tags.locale;
+  document.title = tags.title;
+  setMeta("name", "description", tags.description);
+  for (const [property, content] of openGraphTags(tags)) {
+    setMeta("property", property, content);
+  }
+  if (tags.url) {
+    setMeta("property", "og:url", tags.url);
+    upsertHeadElement('link[rel="canonical"]', () => {
+      const link = document.createElement("link");
+      link.setAttribute("rel", "canonical");
+      return link;
+    }).setAttribute("href", tags.url);
+  } else {
+    document.head.querySelector('meta[property="og:url"]')?.remove();
+    document.head.querySelector('link[rel="canonical"]')?.remove();
+  }
+  document.head.querySelectorAll('link[rel="alternate"][hreflang]').forEach((link) => link.remove());
+  for (const [hreflang, href] of tags.alternates) {
+    const link = document.createElement("link");
+    link.setAttribute("rel", "alternate");
+    link.setAttribute("hreflang", hreflang);
+    link.setAttribute("href", href);
+    document.head.appendChild(link);
+  }
+  upsertHeadElement('script[type="application/ld+json"]', () => {
+    const script = document.createElement("script");
+    script.setAttribute("type", "application/ld+json");
+    return script;
+  }).textContent = JSON.stringify(tags.structuredData);
+}
+
+// The company's JSON-LD goes before the page's own once the settings have
+// loaded.
+export function usePageHead(pageHead: PageHead) {
+  const collector = useContext(HeadContext);
+  const siteUrl = useSiteUrl();
+  const locale = useLocale();
+  const { data: company } = useCompanySettings();
+  const head: PageHead = company
+    ? { ...pageHead, structuredData: [businessStructuredData(company, siteUrl), ...(pageHead.structuredData ?? [])] }
+    : pageHead;
+  if (collector) {
+    collector.head = head;
+  }
+
+  const tags = resolveHead(head, siteUrl, locale);
+  // Pages build a new object on every render; only apply actual changes.
+  const serialized = JSON.stringify(tags);
+  useEffect(() => {
+    applyHeadTags(tags);
+  }, [serialized]);
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderHeadTags(head: PageHead, siteUrl: string, locale: Locale) {
+  const tags = resolveHead(head, siteUrl, locale);
+  const lines = [
+    `<title>${escapeHtml(tags.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(tags.description)}" />`,
+    ...openGraphTags(tags).map(
+      ([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}" />`,
+    ),
+    '<meta name="twitter:card" content="summary_large_image" />',
+  ];
+  if (tags.url) {
+    lines.push(`<meta property="og:url" content="${escapeHtml(tags.url)}" />`);
+    lines.push(`<link rel="canonical" href="${escapeHtml(tags.url)}" />`);
+  }
+  for (const [hreflang, href] of tags.alternates) {
+    lines.push(`<link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(href)}" />`);
+  }
+  if (head.status && head.status >= 400) {
+    lines.push('<meta name="robots" content="noindex" />');
+  }
+  // Escape "<" so the JSON cannot close the script tag.
+  const structuredData = JSON.stringify(tags.structuredData).replace(/</g, "\\u003c");
+  lines.push(`<script type="application/ld+json">${structuredData}</script>`);
+  return lines.join("\n    ");
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { ZodTypeAny } from "zod";
+import {
+  contactFormSchema,
+  quoteRequestFormSchema,
+  testimonialFormSchema,
+  updateSoaQualificationsSchema,
+} from "@db/schema";
+import { isMessageKey, localeFromPath, stripLocale, translate } from "./i18n";
+
+function messagesOf(schema: ZodTypeAny, input: unknown) {
+  const result = schema.safeParse(input);
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+}
+
+describe("form validation messages", () => {
+  it.each([
+    ["contact", contactFormSchema, { name: "M", email: "no", phone: "1", message: "Ciao", privacyConsent: false }],
+    ["quote", quoteRequestFormSchema, { address: "Via", surface: 0, description: "Tetto", name: "M", email: "no", phone: "1", privacyConsent: false }],
+    ["testimonial", testimonialFormSchema, { author: "M", rating: 0, quote: "Bravi", consent: false }],
+    ["SOA", updateSoaQualificationsSchema, { qualifications: [{ category: "OG2", classification: "II" }, { category: "OG2", classification: "III" }, {}] }],
+  ])("are catalog keys in the %s form", (_form, schema, input) => {
+    const messages = messagesOf(schema, input).filter((message) => message !== "Required");
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.filter((message) => !isMessageKey(message))).toEqual([]);
+  });
+
+  it("are translated for every locale", () => {
+    expect(translate("it", "validation.email")).toBe("Inserisci un indirizzo email valido");
+    expect(translate("en", "validation.email")).toBe("Please enter a valid email address");
+    expect(translate("de", "validation.email")).toBe("Bitte geben Sie eine gültige E-Mail-Adresse ein");
+  });
+});
+
+describe("isMessageKey", () => {
+  it("does not mistake text or object properties for keys", () => {
+    expect(isMessageKey("Campo obbligatorio")).toBe(false);
+    expect(isMessageKey("constructor")).toBe(false);
+  });
+});
+
+describe("localeFromPath and stripLocale", () => {
+  it("read the locale prefix off a public path", () => {
+    expect(localeFromPath("/en/servizi")).toBe("en");
+    expect(stripLocale("/en/servizi")).toBe("/servizi");
+    expect(stripLocale("/de")).toBe("/");
+  });
+
+  it("treat unprefixed paths as Italian", () => {
+    expect(localeFromPath("/servizi")).toBe("it");
+    expect(localeFromPath("/it/servizi")).toBe("it");
+    expect(stripLocale("/servizi")).toBe("/servizi");
+  });
+});
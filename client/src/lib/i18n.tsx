@@ -0,0 +1,73 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { de as deDateLocale, enGB, it as itDateLocale, type Locale as DateLocale } from "date-fns/locale";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "@db/schema";
+import { it, type MessageKey, type Messages } from "@/locales/it";
+import { en } from "@/locales/en";
+import { de } from "@/locales/de";
+
+const CATALOGS: Record<Locale, Messages> = { it, en, de };
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { it: itDateLocale, en: enGB, de: deDateLocale };
+
+// BCP 47 tags for Intl and the <html lang> attribute.
+export const LOCALE_TAGS: Record<Locale, string> = { it: "it-IT", en: "en-GB", de: "de-DE" };
+
+export const LOCALE_LABELS: Record<Locale, string> = { it: "Italiano", en: "English", de: "Deutsch" };
+
+/** Locale of a public path: /en/servizi is English, /servizi Italian. */
+export function localeFromPath(path: string): Locale {
+  const prefix = path.split("/")[1];
+  return isLocale(prefix) && prefix !== DEFAULT_LOCALE ? prefix : DEFAULT_LOCALE;
+}
+
+/** The path without its locale prefix, e.g. /en/servizi becomes /servizi. */
+export function stripLocale(path: string) {
+  const locale = localeFromPath(path);
+  if (locale === DEFAULT_LOCALE) {
+    return path;
+  }
+  return path.slice(locale.length + 1) || "/";
+}
+
+/** Asks the API for the translated version of a resource. */
+export function withLocale(url: string, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) {
+    return url;
+  }
+  return `${url}${url.includes("?") ? "&" : "?"}locale=${locale}`;
+}
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export function LocaleProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale() {
+  return useContext(LocaleContext);
+}
+
+/** Tells catalog keys apart from literal text, e.g. a schema's error message. */
+export function isMessageKey(value: string): value is MessageKey {
+  return Object.hasOwn(it, value);
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: Record<string, string | number>) {
+  const message = CATALOGS[locale][key];
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+export function useTranslation() {
+  const locale = useLocale();
+  return {
+    locale,
+    t: (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    /** For date-fns format(). */
+    dateLocale: DATE_LOCALES[locale],
+  };
+}
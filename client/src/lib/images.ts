@@ -0,0 +1,13 @@
+// Must match RESPONSIVE_WIDTHS in server/utils/imageProcessing.ts; the server
+// rounds any other width up to the closest of these.
+export const RESPONSIVE_IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// Only images served from /images go through the resizing middleware;
+// external URLs are used as they are.
+export function isResponsiveImage(src: string | undefined): src is string {
+  return typeof src === "string" && /^\/images\/.+\.(jpe?g|png)$/i.test(src);
+}
+
+export function buildSrcSet(src: string, widths: number[] = RESPONSIVE_IMAGE_WIDTHS) {
+  return widths.map((width) => `${src}?w=${width} ${width}w`).join(", ");
+}
@@ -1,5 +1,27 @@
 import { QueryClient } from "@tanstack/react-query";
 
+export async function apiRequest<T = unknown>(
+  method: string,
+  url: string,
+  body?: unknown,
+): Promise<T> {
+  // FormData goes through untouched so the browser sets the multipart boundary.
+  const isFormData = body instanceof FormData;
+  const res = await fetch(url, {
+    method,
+    headers: body !== undefined && !isFormData ? { "Content-Type": "application/json" } : undefined,
+    body: isFormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.message ?? `${res.status}: ${res.statusText}`);
+  }
+
+  return res.json();
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -0,0 +1,72 @@
+import { localizePath, socialNetworks, type CompanySettings, type Locale, type Weekday } from "@db/schema";
+import { internationalPhone } from "@/hooks/useCompanySettings";
+import type { Project } from "@/types/project";
+
+/** A schema.org JSON-LD node. */
+export type StructuredData = Record<string, unknown>;
+
+export function absoluteUrl(pathOrUrl: string, siteUrl: string) {
+  return new URL(pathOrUrl, siteUrl).href;
+}
+
+function organizationId(siteUrl: string) {
+  return absoluteUrl("/#organization", siteUrl);
+}
+
+// Emitted on every public page so search engines can tie the pages to the
+// company and show its address and phone number.
+export function businessStructuredData(company: CompanySettings, siteUrl: string): StructuredData {
+  const sameAs = socialNetworks.flatMap((network) => company.social[network] ?? []);
+  return {
+    "@context": "https://schema.org",
+    "@type": "GeneralContractor",
+    "@id": organizationId(siteUrl),
+    name: company.name,
+    legalName: company.legalName,
+    vatID: `${company.country}${company.vatNumber}`,
+    url: absoluteUrl("/", siteUrl),
+    logo: absoluteUrl(company.logo, siteUrl),
+    image: absoluteUrl(company.logo, siteUrl),
+    telephone: internationalPhone(company.phone, company.country),
+    email: company.email,
+    address: {
+      "@type": "PostalAddress",
+      streetAddress: company.street,
+      postalCode: company.postalCode,
+      addressLocality: company.city,
+      addressRegion: company.province,
+      addressCountry: company.country,
+    },
+    openingHoursSpecification:
+      company.openingHours.length > 0
+        ? company.openingHours.map((hours) => ({
+            "@type": "OpeningHoursSpecification",
+            dayOfWeek: hours.days.map(schemaDayOfWeek),
+            opens: hours.opens,
+            closes: hours.closes,
+          }))
+        : undefined,
+    sameAs: sameAs.length > 0 ? sameAs : undefined,
+  };
+}
+
+function schemaDayOfWeek(day: Weekday) {
+  return `https://schema.org/${day.charAt(0).toUpperCase()}${day.slice(1)}`;
+}
+
+export function projectStructuredData(project: Project, siteUrl: string, locale: Locale): StructuredData {
+  return {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    name: project.title,
+    description: project.description,
+    inLanguage: locale,
+    url: absoluteUrl(localizePath(`/realizzazioni/${project.slug}`, locale), siteUrl),
+    image: [project.image, ...project.gallery].map((image) => absoluteUrl(image, siteUrl)),
+    dateCreated: String(project.year),
+    genre: project.category,
+    keywords: project.techniques.join(", ") || undefined,
+    locationCreated: { "@type": "Place", name: project.location },
+    creator: { "@id": organizationId(siteUrl) },
+  };
+}
@@ -0,0 +1,317 @@
+import type { Messages } from "./it";
+
+export const de: Messages = {
+  "nav.home": "Startseite",
+  "nav.menu": "Menü",
+  "nav.about": "Über uns",
+  "nav.services": "Leistungen",
+  "nav.sustainability": "Nachhaltigkeit",
+  "nav.projects": "Projekte",
+  "nav.toggleMenu": "Menü öffnen oder schließen",
+  "nav.language": "Sprache",
+
+  "common.requestQuote": "Angebot anfordern",
+  "common.contentError": "Beim Laden der Inhalte ist ein Fehler aufgetreten.",
+  "common.backHome": "Zurück zur Startseite",
+  "common.yearsExperience": "Jahre Erfahrung",
+  "common.sendFailed": "Senden fehlgeschlagen",
+  "common.tryAgainLater": "Ein Fehler ist aufgetreten, bitte versuchen Sie es später erneut.",
+  "common.name": "Name",
+  "common.email": "E-Mail",
+  "common.phone": "Telefon",
+  "common.namePlaceholder": "Ihr Name",
+  "common.emailPlaceholder": "Ihre E-Mail-Adresse",
+  "common.phonePlaceholder": "Ihre Telefonnummer",
+  "common.optional": "Optional",
+
+  "validation.name": "Der Name muss mindestens 2 Zeichen lang sein",
+  "validation.email": "Bitte geben Sie eine gültige E-Mail-Adresse ein",
+  "validation.phone": "Bitte geben Sie eine gültige Telefonnummer ein",
+  "validation.message": "Die Nachricht muss mindestens 10 Zeichen lang sein",
+  "validation.privacyConsent": "Bitte akzeptieren Sie die Datenschutzerklärung, um fortzufahren",
+  "validation.serviceType": "Bitte wählen Sie die Art der Arbeiten",
+  "validation.propertyType": "Bitte wählen Sie die Art der Immobilie",
+  "validation.address": "Bitte geben Sie die Adresse der Immobilie ein",
+  "validation.surface": "Die Fläche muss größer als null sein",
+  "validation.timeframe": "Bitte geben Sie den gewünschten Zeitraum an",
+  "validation.description": "Bitte beschreiben Sie die Arbeiten in mindestens 10 Zeichen",
+  "validation.rating": "Bitte wählen Sie eine Bewertung",
+  "validation.testimonialTooShort": "Der Erfahrungsbericht muss mindestens 20 Zeichen lang sein",
+  "validation.testimonialTooLong": "Der Erfahrungsbericht darf höchstens 1500 Zeichen lang sein",
+  "validation.testimonialConsent": "Wir benötigen Ihre Zustimmung, um den Erfahrungsbericht zu veröffentlichen",
+  "validation.soaCategory": "Bitte wählen Sie die Kategorie",
+  "validation.soaClassification": "Bitte wählen Sie die Klasse",
+  "validation.soaDuplicateCategory": "Jede Kategorie darf nur einmal vorkommen",
+
+  "footer.tagline":
+    "Seit über zwanzig Jahren steht DF Restauri für Spitzenqualität bei Restaurierung, Malerarbeiten und Dekoration.",
+  "footer.quickLinks": "Schnellzugriff",
+  "footer.contacts": "Kontakt",
+  "footer.follow": "Folgen Sie uns",
+  "footer.openingHours": "Öffnungszeiten",
+  "footer.rights": "© {year} DF Restauri SRL. Alle Rechte vorbehalten.",
+  "footer.privacy": "Datenschutz",
+  "footer.cookies": "Cookie-Einstellungen",
+
+  "hero.imageAlt": "Moderne Ansicht einer Baustelle",
+  "hero.title": "Restaurierung: Geschichte lebendig halten",
+  "hero.subtitle": "Über 20 Jahre Erfahrung in Restaurierung und Sanierung",
+  "hero.services": "Unsere Leistungen entdecken",
+  "hero.contact": "Kontakt aufnehmen",
+
+  "about.title": "Über uns",
+  "about.imageAlt": "Über uns - DF Restauri",
+  "about.mission": "Mission",
+  "about.vision": "Vision",
+  "team.error": "Beim Laden des Teams ist ein Fehler aufgetreten.",
+
+  "contact.title": "Kontakt",
+  "contact.intro":
+    "Erzählen Sie uns von Ihrem Projekt: Wir melden uns für eine Besichtigung vor Ort oder ein Angebot.",
+  "contact.company": "Unternehmen",
+  "contact.vat": "USt-IdNr.",
+  "contact.address": "Adresse",
+  "contact.map": "Karte unseres Firmensitzes",
+  "contact.message": "Nachricht",
+  "contact.messagePlaceholder": "Wie können wir Ihnen helfen?",
+  "contact.submit": "Nachricht senden",
+  "contact.sent": "Nachricht gesendet",
+  "contact.sentDescription": "Vielen Dank für Ihre Nachricht, wir antworten Ihnen so schnell wie möglich.",
+
+  "aboutPage.title": "Über uns",
+  "aboutPage.intro":
+    "Entdecken Sie unsere Geschichte, unsere Werte und die Leidenschaft, die wir in jedes Projekt stecken.",
+  "aboutPage.historyImageAlt": "Unsere Geschichte - DF Restauri",
+  "aboutPage.valuesError": "Beim Laden unserer Unternehmenswerte ist ein Fehler aufgetreten.",
+  "aboutPage.missionError": "Beim Laden von Mission und Vision ist ein Fehler aufgetreten.",
+  "history.imageAlt": "Firmengeschichte {index}",
+  "history.beginnings": "Unsere Anfänge",
+  "history.growth": "Das Wachstum",
+  "history.present": "Heute",
+
+  "services.title": "Unsere Leistungen",
+  "services.error": "Beim Laden der Leistungen ist ein Fehler aufgetreten.",
+  "services.ctaTitle": "Bereit, Ihr Projekt zu starten?",
+
+  "sustainability.title": "Nachhaltigkeit",
+  "sustainability.initiatives": "Umweltinitiativen",
+  "sustainability.initiativesError": "Beim Laden der Initiativen ist ein Fehler aufgetreten.",
+  "sustainability.certifications": "Zertifizierungen",
+  "sustainability.fieldTitle": "Nachhaltigkeit auf der Baustelle",
+  "sustainability.fieldText":
+    "Unsere Fallstudien zeigen, wie Materialrückgewinnung und Energieeffizienz zu konkreten Ergebnissen führen.",
+  "sustainability.caseHistories": "Fallstudien ansehen",
+  "sustainability.galleryTitle": "Unsere nachhaltigen Projekte",
+  "sustainability.gallery.palazzo.title": "Restaurierung eines historischen Palazzo",
+  "sustainability.gallery.palazzo.description": "Nachhaltige Restaurierung mit umweltfreundlichen Materialien",
+  "sustainability.gallery.zeroEmissions.title": "Null-Emissions-Gebäude",
+  "sustainability.gallery.zeroEmissions.description": "Moderner Neubau mit energieeffizienten Technologien",
+  "sustainability.gallery.green.title": "Grüne Sanierung",
+  "sustainability.gallery.green.description": "Sanierung mit Schwerpunkt auf Energieeinsparung",
+  "sustainability.gallery.historicCentre.title": "Sanierung einer Altstadt",
+  "sustainability.gallery.historicCentre.description":
+    "Denkmalgerechte Restaurierung mit traditionellen, nachhaltigen Materialien",
+  "sustainability.gallery.residential.title": "Nachhaltiges Projekt",
+  "sustainability.gallery.residential.description": "Neue Wohnanlage mit geringer Umweltbelastung",
+  "sustainability.gallery.energy.title": "Energetische Sanierung",
+  "sustainability.gallery.energy.description": "Umfassende energetische Modernisierung",
+
+  "certifications.title": "Unsere Zertifizierungen",
+  "certifications.error": "Beim Laden der Zertifizierungen ist ein Fehler aufgetreten.",
+  "certifications.category": "Kategorie:",
+  "certifications.issuer": "Zertifizierungsstelle:",
+  "certifications.number": "Zertifikat Nr.",
+  "certifications.scope": "Geltungsbereich:",
+  "certifications.validUntil": "Gültig bis",
+  "certifications.download": "Zertifikat herunterladen",
+  "certificationCategories.qualita": "Qualität",
+  "certificationCategories.ambiente": "Umwelt",
+  "certificationCategories.sicurezza": "Arbeitssicherheit",
+  "certificationCategories.soa": "SOA-Bescheinigung",
+
+  "soa.title": "SOA-Qualifikation für öffentliche Aufträge",
+  "soa.error": "Beim Laden der SOA-Qualifikationen ist ein Fehler aufgetreten.",
+  "soa.attestationNumber": " Nr. {number}",
+  "soa.issuedBy": ", ausgestellt von {issuer}",
+  "soa.validUntil": ", gültig bis {date}",
+  "soa.filter.all": "Alle",
+  "soa.filter.og": "Allgemeine Bauarbeiten (OG)",
+  "soa.filter.os": "Spezialarbeiten (OS)",
+  "soa.search": "Kategorie suchen",
+  "soa.category": "Kategorie",
+  "soa.description": "Beschreibung",
+  "soa.classification": "Klasse",
+  "soa.amount": "Betrag",
+  "soa.validity": "Gültig bis",
+  "soa.upTo": "bis {amount}",
+  "soa.over": "über {amount}",
+  "soa.noResults": "Keine Kategorie entspricht Ihrer Suche.",
+  "soa.note":
+    "Klassen gemäß Art. 61 des italienischen Präsidialdekrets 207/2010: Der Betrag ist der Höchstwert der Arbeiten, zu denen die jeweilige Klasse berechtigt. Die Kategoriebeschreibungen sind die offiziellen italienischen.",
+
+  "projects.title": "Unsere Projekte",
+  "projects.intro":
+    "Entdecken Sie unsere wichtigsten Projekte und unser Engagement für hervorragende Bauqualität.",
+  "projects.ourProjects": "Unsere Projekte",
+  "projects.all": "Alle Projekte",
+  "projects.error": "Beim Laden der Projekte ist ein Fehler aufgetreten.",
+  "projects.caseHistoryTitle": "Fallstudien",
+  "projects.caseHistoryIntro":
+    "Von der ursprünglichen Herausforderung bis zum Ergebnis: wie wir einige unserer anspruchsvollsten Aufträge umgesetzt haben.",
+  "projectCategories.restauro": "Restaurierung",
+  "projectCategories.costruzione": "Neubau",
+  "projectCategories.ristrutturazione": "Sanierung",
+
+  "project.back": "Alle Projekte",
+  "project.notFound": "Projekt nicht gefunden.",
+  "project.otherProjects": "Weitere Projekte",
+  "project.clientSays": "Was der Kunde sagt",
+  "project.category": "Kategorie",
+  "project.year": "Jahr",
+  "project.location": "Ort",
+  "project.client": "Auftraggeber",
+  "project.duration": "Dauer",
+  "project.techniques": "Angewandte Techniken",
+  "project.beforeAfter": "Vorher und nachher",
+
+  "caseHistory.error": "Beim Laden der Fallstudien ist ein Fehler aufgetreten.",
+  "caseHistory.challenge": "Die Herausforderung",
+  "caseHistory.solution": "Die Lösung",
+  "caseHistory.results": "Ergebnisse",
+  "caseHistory.gallery": "Projektgalerie",
+  "caseHistoryStatuses.in_progress": "In Arbeit",
+  "caseHistoryStatuses.completed": "Abgeschlossen",
+
+  "beforeAfter.before": "Vorher",
+  "beforeAfter.after": "Nachher",
+  "beforeAfter.beforeAlt": "Vor den Arbeiten",
+  "beforeAfter.afterAlt": "Nach den Arbeiten",
+  "beforeAfter.captionBefore": "Vorher: {caption}",
+  "beforeAfter.captionAfter": "Nachher: {caption}",
+  "beforeAfter.label": "Vorher-Nachher-Vergleich",
+  "beforeAfter.value": "{value} % vorher",
+
+  "testimonials.title": "Das sagen unsere Kunden",
+  "rating.label": "Bewertung",
+  "rating.star": "{star} von 5",
+  "rating.value": "Bewertung: {value} von 5",
+
+  "testimonialForm.title": "Erzählen Sie uns von Ihrer Erfahrung",
+  "testimonialForm.projectQuestion": "Wie ist das Projekt „{project}“ verlaufen?",
+  "testimonialForm.question": "Wie sind die Arbeiten verlaufen, die wir für Sie ausgeführt haben?",
+  "testimonialForm.why": "Ihre Meinung hilft anderen Kunden bei der Entscheidung.",
+  "testimonialForm.thanks": "Vielen Dank!",
+  "testimonialForm.received":
+    "Wir haben Ihr Feedback erhalten: Es wird nach einer kurzen Prüfung veröffentlicht.",
+  "testimonialForm.quote": "Ihr Erfahrungsbericht",
+  "testimonialForm.quotePlaceholder": "Was hat Ihnen an unserer Arbeit gefallen?",
+  "testimonialForm.nameDescription": "Er wird zusammen mit dem Erfahrungsbericht veröffentlicht.",
+  "testimonialForm.role": "Funktion oder Unternehmen",
+  "testimonialForm.rolePlaceholder": "Optional, z. B. Hausverwaltung",
+  "testimonialForm.consent":
+    "Ich bin mit der Veröffentlichung meines Erfahrungsberichts und meines Namens auf der Website von DF Restauri einverstanden.",
+  "testimonialForm.submit": "Erfahrungsbericht senden",
+
+  "quote.title": "Angebot anfordern",
+  "quote.step": "Schritt {current} von {total}: {title}",
+  "quote.steps.service": "Leistung",
+  "quote.steps.property": "Immobilie",
+  "quote.steps.description": "Beschreibung",
+  "quote.steps.photos": "Fotos",
+  "quote.steps.contacts": "Kontaktdaten",
+  "quote.serviceType": "Art der Arbeiten",
+  "quote.servicePlaceholder": "Leistung auswählen",
+  "quote.propertyType": "Art der Immobilie",
+  "quote.propertyPlaceholder": "Art der Immobilie auswählen",
+  "quote.address": "Adresse der Immobilie",
+  "quote.addressPlaceholder": "Straße, Hausnummer, Ort",
+  "quote.surface": "Ungefähre Fläche (m²)",
+  "quote.timeframe": "Gewünschter Zeitraum",
+  "quote.timeframePlaceholder": "Wann möchten Sie beginnen?",
+  "quote.description": "Beschreibung der Arbeiten",
+  "quote.descriptionPlaceholder": "Beschreiben Sie den aktuellen Zustand und die gewünschten Arbeiten",
+  "quote.back": "Zurück",
+  "quote.next": "Weiter",
+  "quote.submit": "Anfrage senden",
+  "quote.sent": "Anfrage gesendet",
+  "quote.sentDescription": "Vielen Dank! Wir melden uns in Kürze, um eine Besichtigung zu vereinbaren.",
+  "quote.photos.intro":
+    "Hängen Sie bis zu {max} Fotos der Immobilie oder der zu behebenden Schäden an (optional). Der GPS-Standort wird aus den Bildern entfernt.",
+  "quote.photos.add": "Fotos hinzufügen",
+  "quote.photos.remove": "{name} entfernen",
+  "quote.photos.rejected": "Einige Fotos wurden nicht übernommen",
+  "quote.photos.rejectedDescription": "Es werden nur JPEG-, PNG- oder WebP-Bilder bis {size} MB akzeptiert.",
+  "quote.photos.tooMany": "Zu viele Fotos",
+  "quote.photos.tooManyDescription": "Sie können höchstens {max} Fotos anhängen.",
+  "propertyTypes.abitazione": "Privathaus",
+  "propertyTypes.condominio": "Mehrfamilienhaus",
+  "propertyTypes.edificio_storico": "Historisches oder denkmalgeschütztes Gebäude",
+  "propertyTypes.commerciale": "Geschäft / Büros",
+  "propertyTypes.industriale": "Gewerbehalle",
+  "quoteTimeframes.urgente": "So bald wie möglich",
+  "quoteTimeframes.entro_3_mesi": "Innerhalb von 3 Monaten",
+  "quoteTimeframes.entro_6_mesi": "Innerhalb von 6 Monaten",
+  "quoteTimeframes.oltre_6_mesi": "In mehr als 6 Monaten",
+  "quoteTimeframes.da_definire": "Noch offen",
+
+  "notFound.title": "Seite nicht gefunden",
+  "notFound.text": "Die gesuchte Seite existiert nicht oder wurde verschoben.",
+
+  "privacy.title": "Datenschutzerklärung",
+  "privacy.version": "Version {version}, veröffentlicht am {date}",
+  "privacy.italianOnly": "Diese Datenschutzerklärung ist nur auf Italienisch verfügbar; die italienische Fassung ist rechtsverbindlich.",
+  "privacy.error": "Beim Laden der Datenschutzerklärung ist ein Fehler aufgetreten.",
+  "privacy.consentBefore": "Ich stimme der Verarbeitung meiner personenbezogenen Daten gemäß der ",
+  "privacy.consentLink": "Datenschutzerklärung",
+  "privacy.consentAfter": " zu.",
+  "privacy.consentUnavailable":
+    "Die Datenschutzerklärung konnte nicht geladen werden: Laden Sie die Seite neu, um das Formular zu senden.",
+
+  "cookies.title": "Cookies",
+  "cookies.intro":
+    "Wir verwenden nur die technischen Cookies, die für den Betrieb der Website nötig sind. Mit Ihrer Einwilligung würden wir auch Statistik-Cookies und die Cookies externer Dienste wie Karten und Videos verwenden. Sie können Ihre Wahl jederzeit unter „Cookie-Einstellungen“ unten auf der Seite ändern.",
+  "cookies.acceptAll": "Alle akzeptieren",
+  "cookies.rejectAll": "Ablehnen",
+  "cookies.customize": "Anpassen",
+  "cookies.save": "Einstellungen speichern",
+  "cookies.close": "Schließen ohne zu akzeptieren",
+  "cookies.alwaysOn": "Immer aktiv",
+  "cookies.categories.necessary": "Notwendig",
+  "cookies.categories.necessary.description":
+    "Für den Betrieb der Website erforderlich, zum Beispiel um diese Auswahl zu speichern. Sie erfordern keine Einwilligung.",
+  "cookies.categories.statistics": "Statistik",
+  "cookies.categories.statistics.description":
+    "Helfen uns mit zusammengefassten Daten zu verstehen, wie die Website genutzt wird.",
+  "cookies.categories.marketing": "Marketing und externe Inhalte",
+  "cookies.categories.marketing.description":
+    "Ermöglichen Karten, Videos und andere Inhalte von Drittanbietern, die Ihr Surfverhalten verfolgen können.",
+  "cookies.blocked": "Dieser Inhalt wird von {service} bereitgestellt, der Cookies von Drittanbietern verwendet.",
+  "cookies.allowAndShow": "Akzeptieren und anzeigen",
+
+  "meta.home.title": "Restaurierung, Neubau und Sanierung in Friaul",
+  "meta.home.description":
+    "DF Restauri S.R.L. aus Pradamano (Udine, Italien): Restaurierung historischer Gebäude, Neubau und Sanierung mit Blick auf Qualität und Nachhaltigkeit.",
+  "meta.about.title": "Über uns",
+  "meta.about.description":
+    "Geschichte, Werte und Team von DF Restauri, einem Friauler Bauunternehmen für Restaurierung und Sanierung.",
+  "meta.services.title": "Leistungen",
+  "meta.services.description":
+    "Denkmalgerechte Restaurierung, Neubau und Sanierung: die Leistungen von DF Restauri, von der Besichtigung bis zur Übergabe.",
+  "meta.sustainability.title": "Nachhaltigkeit",
+  "meta.sustainability.description":
+    "Materialien, Verfahren und Umweltzertifizierungen, mit denen DF Restauri die Auswirkungen seiner Baustellen verringert.",
+  "meta.certifications.title": "Zertifizierungen",
+  "meta.certifications.description":
+    "Die ISO-Zertifizierungen von DF Restauri und die SOA-Qualifikation für öffentliche Aufträge, mit Kategorien und Klassen.",
+  "meta.projects.title": "Projekte",
+  "meta.projects.description":
+    "Restaurierungs-, Neubau- und Sanierungsprojekte von DF Restauri, mit Fallstudien und Vorher-Nachher-Fotos.",
+  "meta.project.description": "Projekte von DF Restauri.",
+  "meta.projectNotFound.title": "Projekt nicht gefunden",
+  "meta.projectNotFound.description": "Das gesuchte Projekt existiert nicht oder wurde entfernt.",
+  "meta.testimonial.title": "Erfahrungsbericht abgeben",
+  "meta.testimonial.description": "Erzählen Sie uns, wie die Arbeiten verlaufen sind, die wir für Sie ausgeführt haben.",
+  "meta.privacy.title": "Datenschutzerklärung",
+  "meta.privacy.description":
+    "Wie DF Restauri die personenbezogenen Daten von Personen verarbeitet, die über die Website Kontakt aufnehmen, wie lange sie gespeichert werden und wie Sie Ihre Rechte ausüben.",
+};
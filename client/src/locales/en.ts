@@ -0,0 +1,310 @@
+import type { Messages } from "./it";
+
+export const en: Messages = {
+  "nav.home": "Home",
+  "nav.menu": "Menu",
+  "nav.about": "About us",
+  "nav.services": "Services",
+  "nav.sustainability": "Sustainability",
+  "nav.projects": "Projects",
+  "nav.toggleMenu": "Open or close the menu",
+  "nav.language": "Language",
+
+  "common.requestQuote": "Request a Quote",
+  "common.contentError": "An error occurred while loading the content.",
+  "common.backHome": "Back to the home page",
+  "common.yearsExperience": "Years of experience",
+  "common.sendFailed": "Sending failed",
+  "common.tryAgainLater": "Something went wrong, please try again later.",
+  "common.name": "Name",
+  "common.email": "Email",
+  "common.phone": "Phone",
+  "common.namePlaceholder": "Your name",
+  "common.emailPlaceholder": "Your email",
+  "common.phonePlaceholder": "Your phone number",
+  "common.optional": "Optional",
+
+  "validation.name": "Your name must be at least 2 characters long",
+  "validation.email": "Please enter a valid email address",
+  "validation.phone": "Please enter a valid phone number",
+  "validation.message": "Your message must be at least 10 characters long",
+  "validation.privacyConsent": "Please accept the privacy notice to continue",
+  "validation.serviceType": "Please choose the type of work",
+  "validation.propertyType": "Please choose the type of property",
+  "validation.address": "Please enter the address of the property",
+  "validation.surface": "The floor area must be greater than zero",
+  "validation.timeframe": "Please tell us when you would like the work done",
+  "validation.description": "Please describe the work in at least 10 characters",
+  "validation.rating": "Please choose a rating",
+  "validation.testimonialTooShort": "Your testimonial must be at least 20 characters long",
+  "validation.testimonialTooLong": "Your testimonial can be at most 1500 characters long",
+  "validation.testimonialConsent": "We need your consent to publish the testimonial",
+  "validation.soaCategory": "Please choose the category",
+  "validation.soaClassification": "Please choose the classification",
+  "validation.soaDuplicateCategory": "Each category can only appear once",
+
+  "footer.tagline":
+    "For over twenty years DF Restauri has stood for excellence in restoration, painting and decoration.",
+  "footer.quickLinks": "Quick Links",
+  "footer.contacts": "Contact",
+  "footer.follow": "Follow us",
+  "footer.openingHours": "Opening hours",
+  "footer.rights": "© {year} DF Restauri SRL. All rights reserved.",
+  "footer.privacy": "Privacy policy",
+  "footer.cookies": "Cookie settings",
+
+  "hero.imageAlt": "Modern view of a construction site",
+  "hero.title": "Restoration: keeping history alive",
+  "hero.subtitle": "Over 20 years of experience in restoration and renovation",
+  "hero.services": "Discover our services",
+  "hero.contact": "Contact us",
+
+  "about.title": "About Us",
+  "about.imageAlt": "About us - DF Restauri",
+  "about.mission": "Mission",
+  "about.vision": "Vision",
+  "team.error": "An error occurred while loading the team.",
+
+  "contact.title": "Contact us",
+  "contact.intro": "Tell us about your project: we will get back to you to arrange a site visit or a quote.",
+  "contact.company": "Company",
+  "contact.vat": "VAT no.",
+  "contact.address": "Address",
+  "contact.map": "Map of our office",
+  "contact.message": "Message",
+  "contact.messagePlaceholder": "How can we help you?",
+  "contact.submit": "Send Message",
+  "contact.sent": "Message sent",
+  "contact.sentDescription": "Thank you for contacting us, we will reply as soon as possible.",
+
+  "aboutPage.title": "About Us",
+  "aboutPage.intro": "Discover our history, our values and the passion we put into every project.",
+  "aboutPage.historyImageAlt": "Our history - DF Restauri",
+  "aboutPage.valuesError": "An error occurred while loading our company values.",
+  "aboutPage.missionError": "An error occurred while loading our mission and vision.",
+  "history.imageAlt": "Company history {index}",
+  "history.beginnings": "Our Beginnings",
+  "history.growth": "Growth",
+  "history.present": "Today",
+
+  "services.title": "Our Services",
+  "services.error": "An error occurred while loading the services.",
+  "services.ctaTitle": "Ready to Start Your Project?",
+
+  "sustainability.title": "Sustainability",
+  "sustainability.initiatives": "Environmental Initiatives",
+  "sustainability.initiativesError": "An error occurred while loading the initiatives.",
+  "sustainability.certifications": "Certifications",
+  "sustainability.fieldTitle": "Sustainability on site",
+  "sustainability.fieldText":
+    "See in our case histories how material recovery and energy efficiency turn into tangible results.",
+  "sustainability.caseHistories": "View the case histories",
+  "sustainability.galleryTitle": "Our Sustainable Projects",
+  "sustainability.gallery.palazzo.title": "Historic Palazzo Restoration",
+  "sustainability.gallery.palazzo.description": "Sustainable restoration with eco-friendly materials",
+  "sustainability.gallery.zeroEmissions.title": "Zero-Emission Building",
+  "sustainability.gallery.zeroEmissions.description": "Modern construction with energy-efficient technologies",
+  "sustainability.gallery.green.title": "Green Renovation",
+  "sustainability.gallery.green.description": "Renovation focused on energy savings",
+  "sustainability.gallery.historicCentre.title": "Historic Centre Recovery",
+  "sustainability.gallery.historicCentre.description": "Conservative restoration with traditional sustainable materials",
+  "sustainability.gallery.residential.title": "Sustainable Project",
+  "sustainability.gallery.residential.description": "New low-impact residential complex",
+  "sustainability.gallery.energy.title": "Energy Upgrade",
+  "sustainability.gallery.energy.description": "Complete energy efficiency upgrade",
+
+  "certifications.title": "Our Certifications",
+  "certifications.error": "An error occurred while loading the certifications.",
+  "certifications.category": "Category:",
+  "certifications.issuer": "Certification body:",
+  "certifications.number": "Certificate no.",
+  "certifications.scope": "Scope:",
+  "certifications.validUntil": "Valid until",
+  "certifications.download": "Download Certificate",
+  "certificationCategories.qualita": "Quality",
+  "certificationCategories.ambiente": "Environment",
+  "certificationCategories.sicurezza": "Safety",
+  "certificationCategories.soa": "SOA attestation",
+
+  "soa.title": "SOA qualification for public works",
+  "soa.error": "An error occurred while loading the SOA qualifications.",
+  "soa.attestationNumber": " no. {number}",
+  "soa.issuedBy": ", issued by {issuer}",
+  "soa.validUntil": ", valid until {date}",
+  "soa.filter.all": "All",
+  "soa.filter.og": "General works (OG)",
+  "soa.filter.os": "Specialised works (OS)",
+  "soa.search": "Search category",
+  "soa.category": "Category",
+  "soa.description": "Description",
+  "soa.classification": "Class",
+  "soa.amount": "Amount",
+  "soa.validity": "Valid until",
+  "soa.upTo": "up to {amount}",
+  "soa.over": "over {amount}",
+  "soa.noResults": "No category matches your search.",
+  "soa.note":
+    "Classes as defined by art. 61 of Italian Presidential Decree 207/2010: the amount is the maximum value of the works each class qualifies for. Category descriptions are the official Italian ones.",
+
+  "projects.title": "Our Projects",
+  "projects.intro": "Discover our most significant projects and our commitment to building excellence.",
+  "projects.ourProjects": "Our Projects",
+  "projects.all": "All Projects",
+  "projects.error": "An error occurred while loading the projects.",
+  "projects.caseHistoryTitle": "Case Histories",
+  "projects.caseHistoryIntro":
+    "From the initial challenge to the results achieved: how we tackled some of our most demanding jobs.",
+  "projectCategories.restauro": "Restoration",
+  "projectCategories.costruzione": "Construction",
+  "projectCategories.ristrutturazione": "Renovation",
+
+  "project.back": "All projects",
+  "project.notFound": "Project not found.",
+  "project.otherProjects": "Other projects",
+  "project.clientSays": "What the client says",
+  "project.category": "Category",
+  "project.year": "Year",
+  "project.location": "Location",
+  "project.client": "Client",
+  "project.duration": "Duration",
+  "project.techniques": "Techniques used",
+  "project.beforeAfter": "Before and after",
+
+  "caseHistory.error": "An error occurred while loading the case histories.",
+  "caseHistory.challenge": "The Challenge",
+  "caseHistory.solution": "The Solution",
+  "caseHistory.results": "Results",
+  "caseHistory.gallery": "Project Gallery",
+  "caseHistoryStatuses.in_progress": "In progress",
+  "caseHistoryStatuses.completed": "Completed",
+
+  "beforeAfter.before": "Before",
+  "beforeAfter.after": "After",
+  "beforeAfter.beforeAlt": "Before the works",
+  "beforeAfter.afterAlt": "After the works",
+  "beforeAfter.captionBefore": "Before: {caption}",
+  "beforeAfter.captionAfter": "After: {caption}",
+  "beforeAfter.label": "Before and after comparison",
+  "beforeAfter.value": "{value}% before",
+
+  "testimonials.title": "What our clients say",
+  "rating.label": "Rating",
+  "rating.star": "{star} out of 5",
+  "rating.value": "Rating: {value} out of 5",
+
+  "testimonialForm.title": "Tell us about your experience",
+  "testimonialForm.projectQuestion": "How did the \"{project}\" project go?",
+  "testimonialForm.question": "How did the work we carried out for you go?",
+  "testimonialForm.why": "Your opinion helps other clients choose us.",
+  "testimonialForm.thanks": "Thank you!",
+  "testimonialForm.received": "We have received your testimonial: it will be published after a short review.",
+  "testimonialForm.quote": "Your testimonial",
+  "testimonialForm.quotePlaceholder": "What did you like about our work?",
+  "testimonialForm.nameDescription": "It will be published together with the testimonial.",
+  "testimonialForm.role": "Role or company",
+  "testimonialForm.rolePlaceholder": "Optional, e.g. Property manager",
+  "testimonialForm.consent": "I agree to the publication of my testimonial and my name on the DF Restauri website.",
+  "testimonialForm.submit": "Send testimonial",
+
+  "quote.title": "Request a quote",
+  "quote.step": "Step {current} of {total}: {title}",
+  "quote.steps.service": "Service",
+  "quote.steps.property": "Property",
+  "quote.steps.description": "Description",
+  "quote.steps.photos": "Photos",
+  "quote.steps.contacts": "Contact details",
+  "quote.serviceType": "Type of work",
+  "quote.servicePlaceholder": "Select a service",
+  "quote.propertyType": "Type of property",
+  "quote.propertyPlaceholder": "Select the type of property",
+  "quote.address": "Property address",
+  "quote.addressPlaceholder": "Street, number, town",
+  "quote.surface": "Approximate surface (m²)",
+  "quote.timeframe": "Desired timing",
+  "quote.timeframePlaceholder": "When would you like to start?",
+  "quote.description": "Description of the work",
+  "quote.descriptionPlaceholder": "Describe the current condition and the work you would like done",
+  "quote.back": "Back",
+  "quote.next": "Next",
+  "quote.submit": "Send request",
+  "quote.sent": "Request sent",
+  "quote.sentDescription": "Thank you! We will contact you shortly to arrange a site visit.",
+  "quote.photos.intro":
+    "Attach up to {max} photos of the property or of the damage to repair (optional). GPS location is removed from the images.",
+  "quote.photos.add": "Add photos",
+  "quote.photos.remove": "Remove {name}",
+  "quote.photos.rejected": "Some photos were left out",
+  "quote.photos.rejectedDescription": "Only JPEG, PNG or WebP images up to {size} MB are accepted.",
+  "quote.photos.tooMany": "Too many photos",
+  "quote.photos.tooManyDescription": "You can attach at most {max} photos.",
+  "propertyTypes.abitazione": "Private home",
+  "propertyTypes.condominio": "Apartment building",
+  "propertyTypes.edificio_storico": "Historic or listed building",
+  "propertyTypes.commerciale": "Shop / offices",
+  "propertyTypes.industriale": "Industrial building",
+  "quoteTimeframes.urgente": "As soon as possible",
+  "quoteTimeframes.entro_3_mesi": "Within 3 months",
+  "quoteTimeframes.entro_6_mesi": "Within 6 months",
+  "quoteTimeframes.oltre_6_mesi": "In more than 6 months",
+  "quoteTimeframes.da_definire": "To be decided",
+
+  "notFound.title": "Page not found",
+  "notFound.text": "The page you are looking for does not exist or has been moved.",
+
+  "privacy.title": "Privacy policy",
+  "privacy.version": "Version {version}, published on {date}",
+  "privacy.italianOnly": "This privacy policy is only available in Italian, which is the legally binding version.",
+  "privacy.error": "An error occurred while loading the privacy policy.",
+  "privacy.consentBefore": "I agree to the processing of my personal data as described in the ",
+  "privacy.consentLink": "privacy policy",
+  "privacy.consentAfter": ".",
+  "privacy.consentUnavailable": "The privacy policy could not be loaded: reload the page to send the form.",
+
+  "cookies.title": "Cookies",
+  "cookies.intro":
+    "We only use the technical cookies the site needs to work. With your consent we would also use statistics cookies and those of external services such as maps and videos. You can change your mind at any time from “Cookie settings” at the bottom of the page.",
+  "cookies.acceptAll": "Accept all",
+  "cookies.rejectAll": "Reject",
+  "cookies.customize": "Customise",
+  "cookies.save": "Save preferences",
+  "cookies.close": "Close without accepting",
+  "cookies.alwaysOn": "Always on",
+  "cookies.categories.necessary": "Necessary",
+  "cookies.categories.necessary.description":
+    "Needed for the site to work, for example to remember this choice. They do not require consent.",
+  "cookies.categories.statistics": "Statistics",
+  "cookies.categories.statistics.description":
+    "Help us understand how the site is used, with aggregated data.",
+  "cookies.categories.marketing": "Marketing and external content",
+  "cookies.categories.marketing.description":
+    "Allow maps, videos and other third-party content to be shown, which may track your browsing.",
+  "cookies.blocked": "This content is provided by {service}, which uses third-party cookies.",
+  "cookies.allowAndShow": "Accept and show",
+
+  "meta.home.title": "Restoration, construction and renovation in Friuli",
+  "meta.home.description":
+    "DF Restauri S.R.L. of Pradamano (Udine, Italy): restoration of historic buildings, new construction and renovation with care for quality and sustainability.",
+  "meta.about.title": "About us",
+  "meta.about.description":
+    "The history, values and team of DF Restauri, a Friulian building company specialising in restoration and renovation.",
+  "meta.services.title": "Services",
+  "meta.services.description":
+    "Conservative restoration, new construction and renovation: DF Restauri's services, from the site visit to handover.",
+  "meta.sustainability.title": "Sustainability",
+  "meta.sustainability.description":
+    "The materials, processes and environmental certifications DF Restauri uses to reduce the impact of its building sites.",
+  "meta.certifications.title": "Certifications",
+  "meta.certifications.description":
+    "DF Restauri's ISO certifications and SOA qualification for public works, with categories and classes.",
+  "meta.projects.title": "Projects",
+  "meta.projects.description":
+    "Restoration, construction and renovation projects by DF Restauri, with case histories and before and after photos.",
+  "meta.project.description": "Projects by DF Restauri.",
+  "meta.projectNotFound.title": "Project not found",
+  "meta.projectNotFound.description": "The project you are looking for does not exist or has been removed.",
+  "meta.testimonial.title": "Leave a testimonial",
+  "meta.testimonial.description": "Tell us how the work we carried out for you went.",
+  "meta.privacy.title": "Privacy policy",
+  "meta.privacy.description":
+    "How DF Restauri handles the personal data of people who contact it through the website, how long it keeps it and how to exercise your rights.",
+};
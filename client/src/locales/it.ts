@@ -0,0 +1,315 @@
+// Italian is the source language: en.ts and de.ts must define every key.
+// Placeholders such as {year} are filled in by t().
+export const it = {
+  "nav.home": "Home",
+  "nav.menu": "Menu",
+  "nav.about": "Ci Presentiamo",
+  "nav.services": "Servizi",
+  "nav.sustainability": "Sostenibilità",
+  "nav.projects": "Realizzazioni",
+  "nav.toggleMenu": "Apri o chiudi il menu",
+  "nav.language": "Lingua",
+
+  "common.requestQuote": "Richiedi Preventivo",
+  "common.contentError": "Si è verificato un errore nel caricamento del contenuto.",
+  "common.backHome": "Torna alla home",
+  "common.yearsExperience": "Anni di esperienza",
+  "common.sendFailed": "Invio non riuscito",
+  "common.tryAgainLater": "Si è verificato un errore, riprova più tardi.",
+  "common.name": "Nome",
+  "common.email": "Email",
+  "common.phone": "Telefono",
+  "common.namePlaceholder": "Il tuo nome",
+  "common.emailPlaceholder": "La tua email",
+  "common.phonePlaceholder": "Il tuo numero",
+  "common.optional": "Facoltativo",
+
+  "validation.name": "Il nome deve contenere almeno 2 caratteri",
+  "validation.email": "Inserisci un indirizzo email valido",
+  "validation.phone": "Inserisci un numero di telefono valido",
+  "validation.message": "Il messaggio deve contenere almeno 10 caratteri",
+  "validation.privacyConsent": "Per procedere è necessario accettare l'informativa sulla privacy",
+  "validation.serviceType": "Seleziona il tipo di intervento",
+  "validation.propertyType": "Seleziona il tipo di immobile",
+  "validation.address": "Inserisci l'indirizzo dell'immobile",
+  "validation.surface": "La superficie deve essere maggiore di zero",
+  "validation.timeframe": "Indica le tempistiche desiderate",
+  "validation.description": "Descrivi l'intervento in almeno 10 caratteri",
+  "validation.rating": "Scegli una valutazione",
+  "validation.testimonialTooShort": "La testimonianza deve contenere almeno 20 caratteri",
+  "validation.testimonialTooLong": "La testimonianza può contenere al massimo 1500 caratteri",
+  "validation.testimonialConsent": "Serve il tuo consenso per pubblicare la testimonianza",
+  "validation.soaCategory": "Seleziona la categoria",
+  "validation.soaClassification": "Seleziona la classifica",
+  "validation.soaDuplicateCategory": "Ogni categoria può comparire una sola volta",
+
+  "footer.tagline":
+    "Da oltre vent'anni, DF Restauri è sinonimo di eccellenza nel mondo del restauro, delle pitture e delle decorazioni.",
+  "footer.quickLinks": "Collegamenti Rapidi",
+  "footer.contacts": "Contatti",
+  "footer.follow": "Seguici",
+  "footer.openingHours": "Orari",
+  "footer.rights": "© {year} DF Restauri SRL. Tutti i diritti riservati.",
+  "footer.privacy": "Privacy",
+  "footer.cookies": "Preferenze cookie",
+
+  "hero.imageAlt": "Vista moderna di un cantiere di costruzione",
+  "hero.title": "Restauri: Mantieni viva la storia",
+  "hero.subtitle": "Oltre 20 anni di esperienza nel restauro e nella ristrutturazione",
+  "hero.services": "Scopri i nostri servizi",
+  "hero.contact": "Contattaci",
+
+  "about.title": "Chi Siamo",
+  "about.imageAlt": "Chi Siamo - DF Restauri",
+  "about.mission": "Mission",
+  "about.vision": "Vision",
+  "team.error": "Si è verificato un errore nel caricamento del team.",
+
+  "contact.title": "Contattaci",
+  "contact.intro": "Raccontaci il tuo progetto: ti ricontatteremo per un sopralluogo o un preventivo.",
+  "contact.company": "Azienda",
+  "contact.vat": "P. IVA",
+  "contact.address": "Indirizzo",
+  "contact.map": "Mappa della sede",
+  "contact.message": "Messaggio",
+  "contact.messagePlaceholder": "Come possiamo aiutarti?",
+  "contact.submit": "Invia Messaggio",
+  "contact.sent": "Messaggio inviato",
+  "contact.sentDescription": "Grazie per averci contattato, ti risponderemo al più presto.",
+
+  "aboutPage.title": "Ci Presentiamo",
+  "aboutPage.intro": "Scopri la nostra storia, i nostri valori e la passione che mettiamo in ogni progetto.",
+  "aboutPage.historyImageAlt": "La nostra storia - DF Restauri",
+  "aboutPage.valuesError": "Si è verificato un errore nel caricamento dei valori aziendali.",
+  "aboutPage.missionError": "Si è verificato un errore nel caricamento della mission e vision.",
+  "history.imageAlt": "Storia aziendale {index}",
+  "history.beginnings": "I Nostri Inizi",
+  "history.growth": "La Crescita",
+  "history.present": "Il Presente",
+
+  "services.title": "I Nostri Servizi",
+  "services.error": "Si è verificato un errore nel caricamento dei servizi.",
+  "services.ctaTitle": "Pronti a Iniziare il Tuo Progetto?",
+
+  "sustainability.title": "Sostenibilità",
+  "sustainability.initiatives": "Iniziative Ambientali",
+  "sustainability.initiativesError": "Si è verificato un errore nel caricamento delle iniziative.",
+  "sustainability.certifications": "Certificazioni",
+  "sustainability.fieldTitle": "Sostenibilità sul campo",
+  "sustainability.fieldText":
+    "Scopri nei nostri case history come recupero dei materiali ed efficienza energetica si traducono in risultati concreti.",
+  "sustainability.caseHistories": "Vedi i case history",
+  "sustainability.galleryTitle": "I Nostri Progetti Sostenibili",
+  "sustainability.gallery.palazzo.title": "Restauro Palazzo Storico",
+  "sustainability.gallery.palazzo.description": "Intervento di restauro sostenibile con materiali eco-compatibili",
+  "sustainability.gallery.zeroEmissions.title": "Edificio Zero Emissioni",
+  "sustainability.gallery.zeroEmissions.description": "Costruzione moderna con tecnologie per l'efficienza energetica",
+  "sustainability.gallery.green.title": "Ristrutturazione Green",
+  "sustainability.gallery.green.description": "Ristrutturazione con focus sul risparmio energetico",
+  "sustainability.gallery.historicCentre.title": "Recupero Centro Storico",
+  "sustainability.gallery.historicCentre.description": "Restauro conservativo con materiali tradizionali sostenibili",
+  "sustainability.gallery.residential.title": "Progetto Sostenibile",
+  "sustainability.gallery.residential.description": "Nuovo complesso residenziale a basso impatto ambientale",
+  "sustainability.gallery.energy.title": "Riqualificazione Energetica",
+  "sustainability.gallery.energy.description": "Intervento di efficientamento energetico completo",
+
+  "certifications.title": "Le Nostre Certificazioni",
+  "certifications.error": "Si è verificato un errore nel caricamento delle certificazioni.",
+  "certifications.category": "Categoria:",
+  "certifications.issuer": "Ente di certificazione:",
+  "certifications.number": "Certificato n.",
+  "certifications.scope": "Campo di applicazione:",
+  "certifications.validUntil": "Valido fino al",
+  "certifications.download": "Scarica Certificato",
+  "certificationCategories.qualita": "Qualità",
+  "certificationCategories.ambiente": "Ambiente",
+  "certificationCategories.sicurezza": "Sicurezza",
+  "certificationCategories.soa": "Attestazione SOA",
+
+  "soa.title": "Qualificazione SOA per i lavori pubblici",
+  "soa.error": "Si è verificato un errore nel caricamento delle qualificazioni SOA.",
+  "soa.attestationNumber": " n. {number}",
+  "soa.issuedBy": ", rilasciata da {issuer}",
+  "soa.validUntil": ", valida fino al {date}",
+  "soa.filter.all": "Tutte",
+  "soa.filter.og": "Opere generali (OG)",
+  "soa.filter.os": "Opere specializzate (OS)",
+  "soa.search": "Cerca categoria",
+  "soa.category": "Categoria",
+  "soa.description": "Descrizione",
+  "soa.classification": "Classifica",
+  "soa.amount": "Importo",
+  "soa.validity": "Validità",
+  "soa.upTo": "fino a {amount}",
+  "soa.over": "oltre {amount}",
+  "soa.noResults": "Nessuna categoria corrisponde alla ricerca.",
+  "soa.note":
+    "Classifiche secondo l'art. 61 del DPR 207/2010: l'importo indica il valore massimo dei lavori a cui ciascuna classifica abilita.",
+
+  "projects.title": "Le Nostre Realizzazioni",
+  "projects.intro":
+    "Scopri i nostri progetti più significativi che raccontano il nostro impegno nell'eccellenza costruttiva.",
+  "projects.ourProjects": "I Nostri Progetti",
+  "projects.all": "Tutti i Progetti",
+  "projects.error": "Si è verificato un errore nel caricamento dei progetti.",
+  "projects.caseHistoryTitle": "Case History",
+  "projects.caseHistoryIntro":
+    "Dalla sfida iniziale ai risultati ottenuti: come abbiamo affrontato alcuni dei nostri interventi più impegnativi.",
+  "projectCategories.restauro": "Restauro",
+  "projectCategories.costruzione": "Costruzione",
+  "projectCategories.ristrutturazione": "Ristrutturazione",
+
+  "project.back": "Tutte le realizzazioni",
+  "project.notFound": "Progetto non trovato.",
+  "project.otherProjects": "Altri progetti",
+  "project.clientSays": "Cosa dice il cliente",
+  "project.category": "Categoria",
+  "project.year": "Anno",
+  "project.location": "Località",
+  "project.client": "Committente",
+  "project.duration": "Durata",
+  "project.techniques": "Tecniche impiegate",
+  "project.beforeAfter": "Prima e dopo",
+
+  "caseHistory.error": "Si è verificato un errore nel caricamento dei casi studio.",
+  "caseHistory.challenge": "La Sfida",
+  "caseHistory.solution": "La Soluzione",
+  "caseHistory.results": "Risultati",
+  "caseHistory.gallery": "Galleria del Progetto",
+  "caseHistoryStatuses.in_progress": "In corso",
+  "caseHistoryStatuses.completed": "Completato",
+
+  "beforeAfter.before": "Prima",
+  "beforeAfter.after": "Dopo",
+  "beforeAfter.beforeAlt": "Prima dell'intervento",
+  "beforeAfter.afterAlt": "Dopo l'intervento",
+  "beforeAfter.captionBefore": "Prima: {caption}",
+  "beforeAfter.captionAfter": "Dopo: {caption}",
+  "beforeAfter.label": "Confronto prima e dopo",
+  "beforeAfter.value": "{value}% prima",
+
+  "testimonials.title": "Dicono di noi",
+  "rating.label": "Valutazione",
+  "rating.star": "{star} su 5",
+  "rating.value": "Valutazione: {value} su 5",
+
+  "testimonialForm.title": "Raccontaci la tua esperienza",
+  "testimonialForm.projectQuestion": "Com'è andato l'intervento \"{project}\"?",
+  "testimonialForm.question": "Com'è andato il lavoro che abbiamo svolto per te?",
+  "testimonialForm.why": "La tua opinione aiuta altri clienti a sceglierci.",
+  "testimonialForm.thanks": "Grazie!",
+  "testimonialForm.received": "Abbiamo ricevuto la tua testimonianza: sarà pubblicata dopo una breve verifica.",
+  "testimonialForm.quote": "La tua testimonianza",
+  "testimonialForm.quotePlaceholder": "Cosa ti è piaciuto del nostro lavoro?",
+  "testimonialForm.nameDescription": "Sarà pubblicato insieme alla testimonianza.",
+  "testimonialForm.role": "Ruolo o azienda",
+  "testimonialForm.rolePlaceholder": "Facoltativo, es. Amministratore di condominio",
+  "testimonialForm.consent":
+    "Acconsento alla pubblicazione della testimonianza e del mio nome sul sito di DF Restauri.",
+  "testimonialForm.submit": "Invia testimonianza",
+
+  "quote.title": "Richiedi un preventivo",
+  "quote.step": "Passo {current} di {total}: {title}",
+  "quote.steps.service": "Intervento",
+  "quote.steps.property": "Immobile",
+  "quote.steps.description": "Descrizione",
+  "quote.steps.photos": "Foto",
+  "quote.steps.contacts": "Contatti",
+  "quote.serviceType": "Tipo di intervento",
+  "quote.servicePlaceholder": "Seleziona un servizio",
+  "quote.propertyType": "Tipo di immobile",
+  "quote.propertyPlaceholder": "Seleziona il tipo di immobile",
+  "quote.address": "Indirizzo dell'immobile",
+  "quote.addressPlaceholder": "Via, numero civico, comune",
+  "quote.surface": "Superficie indicativa (m²)",
+  "quote.timeframe": "Tempistiche desiderate",
+  "quote.timeframePlaceholder": "Quando vorresti iniziare?",
+  "quote.description": "Descrizione dell'intervento",
+  "quote.descriptionPlaceholder": "Descrivi lo stato attuale e i lavori che vorresti realizzare",
+  "quote.back": "Indietro",
+  "quote.next": "Avanti",
+  "quote.submit": "Invia richiesta",
+  "quote.sent": "Richiesta inviata",
+  "quote.sentDescription": "Grazie! Ti contatteremo a breve per fissare un sopralluogo.",
+  "quote.photos.intro":
+    "Allega fino a {max} foto dell'immobile o dei danni da riparare (facoltativo). La posizione GPS viene rimossa dalle immagini.",
+  "quote.photos.add": "Aggiungi foto",
+  "quote.photos.remove": "Rimuovi {name}",
+  "quote.photos.rejected": "Alcune foto sono state escluse",
+  "quote.photos.rejectedDescription": "Sono accettate solo immagini JPEG, PNG o WebP fino a {size} MB.",
+  "quote.photos.tooMany": "Troppe foto",
+  "quote.photos.tooManyDescription": "Puoi allegare al massimo {max} foto.",
+  "propertyTypes.abitazione": "Abitazione privata",
+  "propertyTypes.condominio": "Condominio",
+  "propertyTypes.edificio_storico": "Edificio storico o vincolato",
+  "propertyTypes.commerciale": "Locale commerciale / uffici",
+  "propertyTypes.industriale": "Capannone industriale",
+  "quoteTimeframes.urgente": "Il prima possibile",
+  "quoteTimeframes.entro_3_mesi": "Entro 3 mesi",
+  "quoteTimeframes.entro_6_mesi": "Entro 6 mesi",
+  "quoteTimeframes.oltre_6_mesi": "Oltre 6 mesi",
+  "quoteTimeframes.da_definire": "Da definire",
+
+  "notFound.title": "Pagina non trovata",
+  "notFound.text": "La pagina che cerchi non esiste o è stata spostata.",
+
+  "privacy.title": "Informativa sulla privacy",
+  "privacy.version": "Versione {version}, pubblicata il {date}",
+  "privacy.italianOnly": "L'informativa è disponibile solo in italiano, che è la versione che fa fede.",
+  "privacy.error": "Si è verificato un errore nel caricamento dell'informativa.",
+  "privacy.consentBefore": "Acconsento al trattamento dei miei dati personali come descritto nell'",
+  "privacy.consentLink": "informativa sulla privacy",
+  "privacy.consentAfter": ".",
+  "privacy.consentUnavailable": "Non è stato possibile caricare l'informativa: ricarica la pagina per inviare il modulo.",
+
+  "cookies.title": "Cookie",
+  "cookies.intro":
+    "Usiamo solo i cookie tecnici necessari al funzionamento del sito. Con il tuo consenso useremmo anche cookie statistici e quelli dei servizi esterni, come mappe e video. Puoi cambiare idea in qualsiasi momento da «Preferenze cookie» in fondo alla pagina.",
+  "cookies.acceptAll": "Accetta tutti",
+  "cookies.rejectAll": "Rifiuta",
+  "cookies.customize": "Personalizza",
+  "cookies.save": "Salva le preferenze",
+  "cookies.close": "Chiudi senza accettare",
+  "cookies.alwaysOn": "Sempre attivi",
+  "cookies.categories.necessary": "Necessari",
+  "cookies.categories.necessary.description":
+    "Servono al funzionamento del sito, ad esempio per ricordare questa scelta. Non richiedono consenso.",
+  "cookies.categories.statistics": "Statistiche",
+  "cookies.categories.statistics.description":
+    "Ci aiutano a capire come viene usato il sito, con dati aggregati.",
+  "cookies.categories.marketing": "Marketing e contenuti esterni",
+  "cookies.categories.marketing.description":
+    "Permettono di mostrare mappe, video e altri contenuti di terze parti, che possono tracciare la tua navigazione.",
+  "cookies.blocked": "Questo contenuto è fornito da {service}, che usa cookie di terze parti.",
+  "cookies.allowAndShow": "Accetta e mostra",
+
+  "meta.home.title": "Restauri, costruzioni e ristrutturazioni in Friuli",
+  "meta.home.description":
+    "DF Restauri S.R.L. di Pradamano (UD): restauro di edifici storici, nuove costruzioni e ristrutturazioni con attenzione alla qualità e alla sostenibilità.",
+  "meta.about.title": "Ci presentiamo",
+  "meta.about.description":
+    "La storia, i valori e il team di DF Restauri, impresa edile friulana specializzata in restauro e ristrutturazioni.",
+  "meta.services.title": "Servizi",
+  "meta.services.description":
+    "Restauro conservativo, nuove costruzioni e ristrutturazioni: i servizi di DF Restauri, dal sopralluogo alla consegna del cantiere.",
+  "meta.sustainability.title": "Sostenibilità",
+  "meta.sustainability.description":
+    "Materiali, processi e certificazioni ambientali con cui DF Restauri riduce l'impatto dei propri cantieri.",
+  "meta.certifications.title": "Certificazioni",
+  "meta.certifications.description":
+    "Le certificazioni ISO di DF Restauri e la qualificazione SOA per i lavori pubblici, con categorie e classifiche.",
+  "meta.projects.title": "Realizzazioni",
+  "meta.projects.description":
+    "Progetti di restauro, costruzione e ristrutturazione realizzati da DF Restauri, con case history e foto prima e dopo.",
+  "meta.project.description": "Progetti realizzati da DF Restauri.",
+  "meta.projectNotFound.title": "Progetto non trovato",
+  "meta.projectNotFound.description": "Il progetto che cerchi non esiste o è stato rimosso.",
+  "meta.testimonial.title": "Lascia una testimonianza",
+  "meta.testimonial.description": "Raccontaci com'è andato il lavoro che abbiamo svolto per te.",
+  "meta.privacy.title": "Informativa sulla privacy",
+  "meta.privacy.description":
+    "Come DF Restauri tratta i dati personali di chi la contatta dal sito, per quanto tempo li conserva e come esercitare i propri diritti.",
+};
+
+export type Messages = typeof it;
+export type MessageKey = keyof Messages;
@@ -1,36 +1,31 @@
 import { StrictMode } from "react";
-import { createRoot } from "react-dom/client";
-import { Switch, Route } from "wouter";
+import { createRoot, hydrateRoot } from "react-dom/client";
+import { hydrate, type DehydratedState } from "@tanstack/react-query";
 import "./index.css";
-import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
-import { Toaster } from "@/components/ui/toaster";
-import { Home } from "./pages/Home";
-import { Sostenibilita } from "./pages/Sostenibilita";
-import { default as Certificazioni } from "./pages/Certificazioni";
-import { CiPresentiamo } from "./pages/CiPresentiamo";
-import { Servizi } from "./pages/Servizi";
-import { Realizzazioni } from "./pages/Realizzazioni";
+import { App } from "./App";
 
-function Router() {
-  return (
-    <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/sostenibilita" component={Sostenibilita} />
-      <Route path="/certificazioni" component={Certificazioni} />
-      <Route path="/ci-presentiamo" component={CiPresentiamo} />
-      <Route path="/servizi" component={Servizi} />
-      <Route path="/realizzazioni" component={Realizzazioni} />
-      <Route>404 Page Not Found</Route>
-    </Switch>
-  );
+declare global {
+  interface Window {
+    __REACT_QUERY_STATE__?: DehydratedState;
+  }
 }
 
-createRoot(document.getElementById("root")!).render(
+// Server-rendered pages ship the data they were rendered with, so the first
+// client render matches the HTML instead of showing loading states.
+if (window.__REACT_QUERY_STATE__) {
+  hydrate(queryClient, window.__REACT_QUERY_STATE__);
+}
+
+const container = document.getElementById("root")!;
+const app = (
   <StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
-    </QueryClientProvider>
-  </StrictMode>,
+    <App queryClient={queryClient} />
+  </StrictMode>
 );
+
+if (container.hasChildNodes()) {
+  hydrateRoot(container, app);
+} else {
+  createRoot(container).render(app);
+}
@@ -5,6 +5,8 @@ import { motion } from "framer-motion";
 import { fadeInUp, staggerChildren, fadeIn, slideIn } from "@/lib/animations";
 import { useAboutContent } from "@/hooks/useContent";
 import { Team } from "@/components/home/Team";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
 
 // Values are now loaded dynamically
 
@@ -13,6 +15,13 @@ import { Footer } from "@/components/layout/Footer";
 
 export function CiPresentiamo() {
   const { data: aboutContent, isLoading, error } = useAboutContent();
+  const { t } = useTranslation();
+  usePageHead({
+    title: t("meta.about.title"),
+    description: t("meta.about.description"),
+    path: "/ci-presentiamo",
+    image: STOCK_PHOTOS.about,
+  });
   
   return (
     <div className="min-h-screen bg-background">
@@ -29,9 +38,9 @@ export function CiPresentiamo() {
               variants={fadeInUp}
               className="text-center mb-12"
             >
-              <h1 className="text-4xl font-bold mb-4">Ci Presentiamo</h1>
+              <h1 className="text-4xl font-bold mb-4">{t("aboutPage.title")}</h1>
               <p className="text-gray-600 max-w-2xl mx-auto">
-                Scopri la nostra storia, i nostri valori e la passione che mettiamo in ogni progetto.
+                {t("aboutPage.intro")}
               </p>
             </motion.div>
 
@@ -43,7 +52,7 @@ export function CiPresentiamo() {
                   </div>
                 ) : error ? (
                   <div className="text-red-500 text-center py-12">
-                    Si è verificato un errore nel caricamento del contenuto.
+                    {t("common.contentError")}
                   </div>
                 ) : aboutContent ? (
                   <>
@@ -60,7 +69,7 @@ export function CiPresentiamo() {
               >
                 <img
                   src={STOCK_PHOTOS.about}
-                  alt="La nostra storia - DF Restauri"
+                  alt={t("aboutPage.historyImageAlt")}
                   className="rounded-lg shadow-xl w-full h-full object-cover"
                   loading="eager"
                   decoding="async"
@@ -72,7 +81,7 @@ export function CiPresentiamo() {
                   className="absolute -bottom-6 -left-6 bg-primary text-white p-6 rounded-lg"
                 >
                   <div className="text-4xl font-bold mb-2">20+</div>
-                  <div className="text-sm">Anni di esperienza</div>
+                  <div className="text-sm">{t("common.yearsExperience")}</div>
                 </motion.div>
               </motion.div>
             </div>
@@ -103,7 +112,7 @@ export function CiPresentiamo() {
               </div>
             ) : error ? (
               <div className="text-red-500 text-center py-12">
-                Si è verificato un errore nel caricamento dei valori aziendali.
+                {t("aboutPage.valuesError")}
               </div>
             ) : aboutContent ? (
               <motion.div
@@ -150,7 +159,7 @@ export function CiPresentiamo() {
               </div>
             ) : error ? (
               <div className="text-red-500 text-center py-12">
-                Si è verificato un errore nel caricamento della mission e vision.
+                {t("aboutPage.missionError")}
               </div>
             ) : aboutContent ? (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
@@ -160,7 +169,7 @@ export function CiPresentiamo() {
                     variants={fadeInUp}
                     className="bg-primary/5 p-8 rounded-lg"
                   >
-                    <h2 className="text-3xl font-bold mb-6 text-primary">Mission</h2>
+                    <h2 className="text-3xl font-bold mb-6 text-primary">{t("about.mission")}</h2>
                     <motion.p
                       variants={fadeIn}
                       className="text-gray-700 leading-relaxed mb-6"
@@ -190,7 +199,7 @@ export function CiPresentiamo() {
                     variants={fadeInUp}
                     className="bg-primary/5 p-8 rounded-lg"
                   >
-                    <h2 className="text-3xl font-bold mb-6 text-primary">Vision</h2>
+                    <h2 className="text-3xl font-bold mb-6 text-primary">{t("about.vision")}</h2>
                     <motion.p
                       variants={fadeIn}
                       className="text-gray-700 leading-relaxed mb-6"
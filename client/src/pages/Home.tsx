@@ -5,8 +5,18 @@ import { Services } from "@/components/home/Services";
 import { About } from "@/components/home/About";
 import { VisionMission } from "@/components/home/VisionMission";
 import { Contact } from "@/components/home/Contact";
+import { TestimonialCarousel } from "@/components/testimonials/TestimonialCarousel";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
 
 export function Home() {
+  const { t } = useTranslation();
+  usePageHead({
+    title: t("meta.home.title"),
+    description: t("meta.home.description"),
+    path: "/",
+  });
+
   return (
     <div className="min-h-screen">
       <Header />
@@ -15,6 +25,7 @@ export function Home() {
         <Services />
         <About />
         <VisionMission />
+        <TestimonialCarousel className="bg-gray-50" />
         <Contact />
       </main>
       <Footer />
@@ -0,0 +1,35 @@
+import { Link } from "wouter";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Button } from "@/components/ui/button";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
+
+export function NotFound() {
+  const { t } = useTranslation();
+  usePageHead({
+    title: t("notFound.title"),
+    description: t("notFound.text"),
+    status: 404,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20">
+        <section className="py-20">
+          <div className="container mx-auto px-4 text-center">
+            <h1 className="text-4xl font-bold mb-4">{t("notFound.title")}</h1>
+            <p className="text-xl text-gray-600 mb-8">
+              {t("notFound.text")}
+            </p>
+            <Button asChild>
+              <Link href="/">{t("common.backHome")}</Link>
+            </Button>
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { DEFAULT_LOCALE } from "@db/schema";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { usePrivacyPolicy } from "@/hooks/usePrivacyPolicy";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
+
+// The notice is plain text: blank lines separate paragraphs and a paragraph
+// starting with "## " is a heading.
+function PolicyBody({ body }: { body: string }) {
+  return (
+    <div className="space-y-4 text-gray-700 leading-relaxed">
+      {body
+        .split(/\n\s*\n/)
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .map((block, index) =>
+          block.startsWith("## ") ? (
+            <h2 key={index} className="text-2xl font-semibold text-gray-900 pt-4">
+              {block.slice(3)}
+            </h2>
+          ) : (
+            <p key={index} className="whitespace-pre-line">
+              {block}
+            </p>
+          ),
+        )}
+    </div>
+  );
+}
+
+export function Privacy() {
+  const { locale, t, dateLocale } = useTranslation();
+  const { data: policy, isLoading, error } = usePrivacyPolicy();
+  usePageHead({
+    title: t("meta.privacy.title"),
+    description: t("meta.privacy.description"),
+    path: "/privacy",
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20">
+        <section className="py-20">
+          <div className="container mx-auto px-4 max-w-3xl">
+            <h1 className="text-4xl font-bold mb-4">{t("privacy.title")}</h1>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : error || !policy ? (
+              <div className="text-red-500 text-center py-12">{t("privacy.error")}</div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-8">
+                  {t("privacy.version", {
+                    version: policy.version,
+                    date: format(new Date(policy.publishedAt), "PPP", { locale: dateLocale }),
+                  })}
+                </p>
+                {locale !== DEFAULT_LOCALE && (
+                  <p className="mb-8 rounded-md bg-muted p-4 text-gray-700">{t("privacy.italianOnly")}</p>
+                )}
+                <div lang="it">
+                  <PolicyBody body={policy.body} />
+                </div>
+              </>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import { motion } from "framer-motion";
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { projectCategories, type ProjectCategory } from "@db/schema";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Button } from "@/components/ui/button";
+import { ProjectDetail } from "@/components/gallery/ProjectDetail";
+import { TestimonialCarousel } from "@/components/testimonials/TestimonialCarousel";
+import { trackEvent } from "@/lib/analytics";
+import { fadeInUp, staggerChildren } from "@/lib/animations";
+import { usePageHead, useSiteUrl } from "@/lib/head";
+import { projectStructuredData } from "@/lib/structured-data";
+import { ProjectWithNeighbours } from "@/types/project";
+import { useTranslation, withLocale } from "@/lib/i18n";
+
+export function RealizzazioneDettaglio() {
+  const { slug } = useParams<{ slug: string }>();
+  // Keep the ?categoria= filter so previous/next and the way back stay
+  // within the category the visitor was browsing. An unknown category, e.g.
+  // from a mistyped link, is ignored rather than failing the page.
+  const categoryParam = new URLSearchParams(useSearch()).get("categoria");
+  const category = projectCategories.includes(categoryParam as ProjectCategory) ? categoryParam : null;
+  const query = category ? `?category=${category}` : "";
+  const suffix = category ? `?categoria=${category}` : "";
+  const { locale, t } = useTranslation();
+
+  const { data: project, isLoading, error } = useQuery<ProjectWithNeighbours>({
+    queryKey: [withLocale(`/api/projects/${slug}${query}`, locale)],
+    // Keep a failure rendered on the server as the error message instead of
+    // retrying into a loader when the page hydrates.
+    retryOnMount: false,
+  });
+
+  const viewedSlug = project?.slug;
+  useEffect(() => {
+    if (viewedSlug) {
+      trackEvent({ type: "project_view", target: viewedSlug });
+    }
+  }, [viewedSlug]);
+
+  const siteUrl = useSiteUrl();
+  // The canonical URL drops ?categoria=, which only changes the navigation.
+  usePageHead(
+    project
+      ? {
+          title: project.title,
+          description: project.description,
+          path: `/realizzazioni/${project.slug}`,
+          image: project.image,
+          type: "article",
+          structuredData: [projectStructuredData(project, siteUrl, locale)],
+        }
+      : error
+      ? {
+          title: t("meta.projectNotFound.title"),
+          description: t("meta.projectNotFound.description"),
+          status: error.message.startsWith("404") ? 404 : 500,
+        }
+      : {
+          title: t("meta.projects.title"),
+          description: t("meta.project.description"),
+          path: `/realizzazioni/${slug}`,
+        },
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20">
+        <section className="py-12">
+          <div className="container mx-auto px-4">
+            <Button variant="ghost" className="mb-6" asChild>
+              <Link href={`/realizzazioni${suffix}`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {t("project.back")}
+              </Link>
+            </Button>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : error || !project ? (
+              <div className="text-red-500 text-center py-12">
+                {t("project.notFound")}
+              </div>
+            ) : (
+              <motion.div
+                key={project.slug}
+                initial="initial"
+                animate="animate"
+                variants={staggerChildren}
+                className="space-y-12"
+              >
+                <motion.h1 variants={fadeInUp} className="text-4xl md:text-5xl font-bold">
+                  {project.title}
+                </motion.h1>
+                <motion.div variants={fadeInUp}>
+                  <ProjectDetail project={project} />
+                </motion.div>
+
+                <nav className="flex justify-between gap-4 border-t pt-8" aria-label={t("project.otherProjects")}>
+                  {project.previous ? (
+                    <Button variant="outline" asChild>
+                      <Link href={`/realizzazioni/${project.previous.slug}${suffix}`}>
+                        <ChevronLeft className="mr-2 h-4 w-4" />
+                        {project.previous.title}
+                      </Link>
+                    </Button>
+                  ) : (
+                    <span />
+                  )}
+                  {project.next && (
+                    <Button variant="outline" asChild>
+                      <Link href={`/realizzazioni/${project.next.slug}${suffix}`}>
+                        {project.next.title}
+                        <ChevronRight className="ml-2 h-4 w-4" />
+                      </Link>
+                    </Button>
+                  )}
+                </nav>
+              </motion.div>
+            )}
+          </div>
+        </section>
+        <TestimonialCarousel
+          projectSlug={slug}
+          title={t("project.clientSays")}
+          className="bg-muted/30"
+        />
+      </main>
+      <Footer />
+    </div>
+  );
+}
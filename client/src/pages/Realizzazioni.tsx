@@ -1,14 +1,28 @@
-import { useState } from "react";
+import { useEffect } from "react";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { ProjectGallery } from "@/components/gallery/ProjectGallery";
-import { Project } from "@/types/project";
-import { motion, AnimatePresence } from "framer-motion";
+import { CaseHistory } from "@/components/realizzazioni/CaseHistory";
+import { motion } from "framer-motion";
 import { fadeInUp, staggerChildren } from "@/lib/animations";
-import { ProjectDetail } from "@/components/gallery/ProjectDetail";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
 
 export function Realizzazioni() {
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const { t } = useTranslation();
+  usePageHead({
+    title: t("meta.projects.title"),
+    description: t("meta.projects.description"),
+    path: "/realizzazioni",
+  });
+
+  // Links such as /realizzazioni#case-history arrive through client-side
+  // navigation, which does not scroll to the fragment by itself.
+  useEffect(() => {
+    if (window.location.hash) {
+      document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, []);
 
   return (
     <div className="min-h-screen bg-background">
@@ -23,10 +37,9 @@ export function Realizzazioni() {
         >
           <div className="container mx-auto px-4">
             <motion.div variants={fadeInUp} className="max-w-3xl">
-              <h1 className="text-4xl md:text-5xl font-bold mb-4">Le Nostre Realizzazioni</h1>
+              <h1 className="text-4xl md:text-5xl font-bold mb-4">{t("projects.title")}</h1>
               <p className="text-xl text-gray-600">
-                Scopri i nostri progetti più significativi che raccontano
-                il nostro impegno nell'eccellenza costruttiva.
+                {t("projects.intro")}
               </p>
             </motion.div>
           </div>
@@ -35,8 +48,19 @@ export function Realizzazioni() {
         {/* Projects Section */}
         <section className="py-20">
           <div className="container mx-auto px-4">
-            <h2 className="text-3xl font-bold mb-12 text-center">I Nostri Progetti</h2>
-            <ProjectGallery onProjectClick={setSelectedProject} />
+            <h2 className="text-3xl font-bold mb-12 text-center">{t("projects.ourProjects")}</h2>
+            <ProjectGallery />
+          </div>
+        </section>
+
+        {/* Case Histories Section */}
+        <section id="case-history" className="py-20 bg-muted/30">
+          <div className="container mx-auto px-4">
+            <h2 className="text-3xl font-bold mb-4 text-center">{t("projects.caseHistoryTitle")}</h2>
+            <p className="text-gray-600 text-center max-w-2xl mx-auto mb-12">
+              {t("projects.caseHistoryIntro")}
+            </p>
+            <CaseHistory />
           </div>
         </section>
       </main>
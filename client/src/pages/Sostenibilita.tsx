@@ -1,47 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Leaf, Award } from "lucide-react";
+import { Link } from "wouter";
+import { Leaf, Award, Loader2, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Gallery } from "@/components/sostenibilita/Gallery";
-
-const INITIATIVES = [
-  {
-    title: "Edilizia Sostenibile",
-    description: "Utilizzo di materiali eco-compatibili e tecniche costruttive a basso impatto ambientale.",
-    icon: Leaf,
-  },
-  {
-    title: "Efficienza Energetica",
-    description: "Implementazione di soluzioni per il risparmio energetico e l'utilizzo di energie rinnovabili.",
-    icon: Leaf,
-  },
-  {
-    title: "Gestione Rifiuti",
-    description: "Sistema integrato di gestione e riciclo dei rifiuti da costruzione.",
-    icon: Leaf,
-  },
-];
-
-const CERTIFICATIONS = [
-  {
-    title: "ISO 14001",
-    description: "Certificazione del sistema di gestione ambientale.",
-    icon: Award,
-  },
-  {
-    title: "LEED",
-    description: "Leadership in Energy and Environmental Design.",
-    icon: Award,
-  },
-  {
-    title: "EMAS",
-    description: "Eco-Management and Audit Scheme dell'Unione Europea.",
-    icon: Award,
-  },
-];
-
+import { useContent } from "@/hooks/useContent";
+import type { Certification } from "@db/schema";
+import { usePageHead } from "@/lib/head";
+import { useTranslation } from "@/lib/i18n";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 
 export function Sostenibilita() {
+  const { data: sostenibilitaContent, isLoading, error } = useContent("sostenibilita");
+  const { t } = useTranslation();
+  usePageHead({
+    title: t("meta.sustainability.title"),
+    description: t("meta.sustainability.description"),
+    path: "/sostenibilita",
+  });
+  const { data: certifications } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications?category=ambiente"],
+  });
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -49,9 +30,11 @@ export function Sostenibilita() {
       {/* Hero Section */}
       <section className="relative section-padding bg-primary/10">
         <div className="container section-spacing">
-          <h1 className="text-4xl font-bold mb-4">Sostenibilità</h1>
+          <h1 className="text-4xl font-bold mb-4">
+            {sostenibilitaContent?.intro.title ?? t("sustainability.title")}
+          </h1>
           <p className="text-xl text-muted-foreground max-w-2xl">
-            Il nostro impegno per un futuro sostenibile attraverso pratiche edilizie innovative e rispettose dell'ambiente.
+            {sostenibilitaContent?.intro.content}
           </p>
         </div>
       </section>
@@ -59,45 +42,73 @@ export function Sostenibilita() {
       {/* Environmental Initiatives */}
       <section className="section-padding">
         <div className="container section-spacing">
-          <h2 className="text-3xl font-bold mb-8 text-center">Iniziative Ambientali</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {INITIATIVES.map((initiative) => (
-              <Card key={initiative.title}>
-                <CardHeader>
-                  <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-4">
-                    <initiative.icon className="w-6 h-6 text-primary" />
-                  </div>
-                  <CardTitle>{initiative.title}</CardTitle>
-                  <CardDescription>{initiative.description}</CardDescription>
-                </CardHeader>
-              </Card>
-            ))}
-          </div>
+          <h2 className="text-3xl font-bold mb-8 text-center">{t("sustainability.initiatives")}</h2>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <div className="text-red-500 text-center py-12">
+              {t("sustainability.initiativesError")}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              {sostenibilitaContent?.initiatives.map((initiative) => (
+                <Card key={initiative.title}>
+                  <CardHeader>
+                    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-4">
+                      <Leaf className="w-6 h-6 text-primary" />
+                    </div>
+                    <CardTitle>{initiative.title}</CardTitle>
+                    <CardDescription>{initiative.description}</CardDescription>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          )}
         </div>
       </section>
 
       {/* Certifications */}
-      <section className="section-padding bg-muted/50">
-        <div className="container section-spacing">
-          <h2 className="text-3xl font-bold mb-8 text-center">Certificazioni</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {CERTIFICATIONS.map((cert) => (
-              <Card key={cert.title}>
-                <CardHeader>
-                  <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-4">
-                    <cert.icon className="w-6 h-6 text-primary" />
-                  </div>
-                  <CardTitle>{cert.title}</CardTitle>
-                  <CardDescription>{cert.description}</CardDescription>
-                </CardHeader>
-              </Card>
-            ))}
+      {certifications && certifications.length > 0 && (
+        <section className="section-padding bg-muted/50">
+          <div className="container section-spacing">
+            <h2 className="text-3xl font-bold mb-8 text-center">{t("sustainability.certifications")}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              {certifications.map((cert) => (
+                <Card key={cert.id}>
+                  <CardHeader>
+                    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-4">
+                      <Award className="w-6 h-6 text-primary" />
+                    </div>
+                    <CardTitle>{cert.title}</CardTitle>
+                    <CardDescription>{cert.description}</CardDescription>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
           </div>
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* Photo Gallery */}
       <Gallery />
+
+      {/* Case Histories */}
+      <section className="section-padding">
+        <div className="container section-spacing text-center">
+          <h2 className="text-3xl font-bold mb-4">{t("sustainability.fieldTitle")}</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto mb-8">
+            {t("sustainability.fieldText")}
+          </p>
+          <Button asChild>
+            <Link href="/realizzazioni#case-history">
+              {t("sustainability.caseHistories")}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </section>
       </main>
       <Footer />
     </div>
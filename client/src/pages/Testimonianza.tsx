@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { motion } from "framer-motion";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { testimonialFormSchema } from "@db/schema";
+import { HoneypotField } from "@/components/forms/HoneypotField";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { RatingStars } from "@/components/testimonials/RatingStars";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useFillTime } from "@/hooks/useFillTime";
+import { trackEvent } from "@/lib/analytics";
+import { fadeInUp, staggerChildren } from "@/lib/animations";
+import { usePageHead } from "@/lib/head";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation, withLocale } from "@/lib/i18n";
+import { Project } from "@/types/project";
+
+const formSchema = testimonialFormSchema.omit({ projectSlug: true });
+type TestimonialFormValues = z.infer<typeof formSchema>;
+
+// Public page linked from the message we send customers at the end of a
+// job, e.g. /testimonianza?progetto=restauro-palazzo-storico-veneziano.
+export function Testimonianza() {
+  const { toast } = useToast();
+  const { locale, t } = useTranslation();
+  const [submitted, setSubmitted] = useState(false);
+  const fillTime = useFillTime();
+  const projectSlug = new URLSearchParams(useSearch()).get("progetto");
+
+  const { data: project } = useQuery<Project>({
+    queryKey: [withLocale(`/api/projects/${projectSlug}`, locale)],
+    enabled: Boolean(projectSlug),
+    retry: false,
+  });
+  usePageHead({
+    title: t("meta.testimonial.title"),
+    description: t("meta.testimonial.description"),
+    path: "/testimonianza",
+  });
+
+  const form = useForm<TestimonialFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      author: "",
+      role: "",
+      rating: 0,
+      quote: "",
+      website: "",
+      consent: false,
+    },
+  });
+
+  const submitTestimonial = useMutation({
+    mutationFn: (values: TestimonialFormValues) =>
+      apiRequest("POST", "/api/testimonials", {
+        ...values,
+        role: values.role || undefined,
+        projectSlug: project?.slug,
+        elapsedMs: fillTime.elapsed(),
+      }),
+    onSuccess: () => {
+      trackEvent({ type: "form_submit", target: "testimonial" });
+      setSubmitted(true);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: t("common.sendFailed"),
+        description: t("common.tryAgainLater"),
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20">
+        <motion.section
+          initial="initial"
+          animate="animate"
+          variants={staggerChildren}
+          className="py-20"
+        >
+          <div className="container mx-auto px-4 max-w-2xl">
+            <motion.div variants={fadeInUp} className="mb-8">
+              <h1 className="text-4xl font-bold mb-4">{t("testimonialForm.title")}</h1>
+              <p className="text-xl text-gray-600">
+                {project
+                  ? t("testimonialForm.projectQuestion", { project: project.title })
+                  : t("testimonialForm.question")}{" "}
+                {t("testimonialForm.why")}
+              </p>
+            </motion.div>
+
+            <motion.div variants={fadeInUp}>
+              {submitted ? (
+                <Card>
+                  <CardContent className="flex flex-col items-center gap-4 p-8 text-center">
+                    <CheckCircle2 className="h-12 w-12 text-primary" />
+                    <h2 className="text-2xl font-semibold">{t("testimonialForm.thanks")}</h2>
+                    <p className="text-muted-foreground">
+                      {t("testimonialForm.received")}
+                    </p>
+                    <Button asChild>
+                      <Link href="/">{t("common.backHome")}</Link>
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit((values) => submitTestimonial.mutate(values))}
+                    className="space-y-6"
+                  >
+                    <HoneypotField id="testimonial-website" {...form.register("website")} />
+                    <FormField
+                      control={form.control}
+                      name="rating"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("rating.label")}</FormLabel>
+                          <FormControl>
+                            <RatingStars value={field.value} onChange={field.onChange} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="quote"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("testimonialForm.quote")}</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder={t("testimonialForm.quotePlaceholder")}
+                              className="min-h-[150px]"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="author"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("common.name")}</FormLabel>
+                          <FormControl>
+                            <Input placeholder={t("common.namePlaceholder")} {...field} />
+                          </FormControl>
+                          <FormDescription>{t("testimonialForm.nameDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="role"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("testimonialForm.role")}</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={t("testimonialForm.rolePlaceholder")}
+                              {...field}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="consent"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={(checked) => field.onChange(checked === true)}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>
+                              {t("testimonialForm.consent")}
+                            </FormLabel>
+                            <FormMessage />
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={submitTestimonial.isPending}
+                    >
+                      {submitTestimonial.isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      {t("testimonialForm.submit")}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </motion.div>
+          </div>
+        </motion.section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Redirect, Route, Switch } from "wouter";
+import { Loader2 } from "lucide-react";
+import { AdminSidebar } from "@/components/admin/AdminSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Separator } from "@/components/ui/separator";
+import { useUser } from "@/hooks/use-user";
+import { AdminLogin } from "./AdminLogin";
+import { ContentList } from "./ContentList";
+import { ContentEditor } from "./ContentEditor";
+import { QuoteList } from "./QuoteList";
+import { QuoteDetail } from "./QuoteDetail";
+import { ContactSubmissionList } from "./ContactSubmissionList";
+import { ProjectList } from "./ProjectList";
+import { ProjectBeforeAfter } from "./ProjectBeforeAfter";
+import { ProjectTranslations } from "./ProjectTranslations";
+import { CaseHistoryList } from "./CaseHistoryList";
+import { CaseHistoryEditor } from "./CaseHistoryEditor";
+import { TestimonialList } from "./TestimonialList";
+import { CertificationList } from "./CertificationList";
+import { CertificationEditor } from "./CertificationEditor";
+import { CompanySettingsEditor } from "./CompanySettingsEditor";
+import { PrivacyAdmin } from "./PrivacyAdmin";
+import { AnalyticsDashboard } from "./AnalyticsDashboard";
+
+// Mounted under a nested "/admin" route, so every path below is relative.
+export function Admin() {
+  const { user, isLoading } = useUser();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AdminLogin />;
+  }
+
+  return (
+    <SidebarProvider>
+      <AdminSidebar />
+      <SidebarInset>
+        <header className="flex h-16 items-center gap-2 border-b px-4">
+          <SidebarTrigger />
+          <Separator orientation="vertical" className="h-6" />
+          <span className="font-semibold">DF Restauri — Amministrazione</span>
+        </header>
+        <main className="p-6">
+          <Switch>
+            <Route path="/preventivi" component={QuoteList} />
+            <Route path="/preventivi/:id" component={QuoteDetail} />
+            <Route path="/messaggi" component={ContactSubmissionList} />
+            <Route path="/statistiche" component={AnalyticsDashboard} />
+            <Route path="/progetti" component={ProjectList} />
+            <Route path="/progetti/:slug" component={ProjectBeforeAfter} />
+            <Route path="/progetti/:slug/traduzioni" component={ProjectTranslations} />
+            <Route path="/case-history" component={CaseHistoryList} />
+            <Route path="/case-history/:id" component={CaseHistoryEditor} />
+            <Route path="/testimonianze" component={TestimonialList} />
+            <Route path="/certificazioni" component={CertificationList} />
+            <Route path="/certificazioni/:id" component={CertificationEditor} />
+            <Route path="/contenuti" component={ContentList} />
+            <Route path="/contenuti/:section" component={ContentEditor} />
+            <Route path="/dati-aziendali" component={CompanySettingsEditor} />
+            <Route path="/privacy" component={PrivacyAdmin} />
+            <Route>
+              <Redirect to="/preventivi" />
+            </Route>
+          </Switch>
+        </main>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
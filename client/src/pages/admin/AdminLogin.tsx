@@ -0,0 +1,92 @@
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { loginSchema } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+
+type LoginValues = z.infer<typeof loginSchema>;
+
+export function AdminLogin() {
+  const { toast } = useToast();
+  const { login } = useUser();
+  const form = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  function onSubmit(values: LoginValues) {
+    login.mutate(values, {
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Accesso non riuscito",
+          description: "Nome utente o password non validi.",
+        });
+      },
+    });
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <img
+            src="/images/logo_dfrestauri_transparent.png"
+            alt="DF Restauri"
+            className="h-12 w-auto object-contain mx-auto mb-4"
+          />
+          <CardTitle className="text-center">Area riservata</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome utente</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={login.isPending}>
+                {login.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accedi
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
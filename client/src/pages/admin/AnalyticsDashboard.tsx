@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ANALYTICS_CTA_LABELS } from "@/lib/constants";
+import type { AnalyticsSummary } from "@/types/analytics";
+
+const PERIODS = [
+  { days: 7, label: "7 giorni" },
+  { days: 30, label: "30 giorni" },
+  { days: 90, label: "3 mesi" },
+  { days: 365, label: "12 mesi" },
+];
+
+const trafficChart = {
+  pageViews: { label: "Pagine viste", color: "hsl(var(--primary))" },
+  formSubmissions: { label: "Moduli inviati", color: "#f97316" },
+} satisfies ChartConfig;
+
+const projectsChart = {
+  views: { label: "Visite", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function percentage(part: number, total: number) {
+  return total > 0 ? `${((part / total) * 100).toLocaleString("it-IT", { maximumFractionDigits: 1 })}%` : "—";
+}
+
+function Empty() {
+  return <p className="text-sm text-muted-foreground text-center py-8">Nessun dato nel periodo.</p>;
+}
+
+export function AnalyticsDashboard() {
+  const [days, setDays] = useState(30);
+  const { data: summary, isLoading, error } = useQuery<AnalyticsSummary>({
+    queryKey: [`/api/analytics?days=${days}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Statistiche</h1>
+        <p className="text-muted-foreground">
+          Visite e azioni sul sito pubblico, senza cookie e senza dati dei visitatori: le pagine vengono
+          contate in forma anonima.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PERIODS.map((period) => (
+          <Button
+            key={period.days}
+            size="sm"
+            variant={days === period.days ? "default" : "outline"}
+            onClick={() => setDays(period.days)}
+          >
+            {period.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error || !summary ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento delle statistiche.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: "Pagine viste", value: summary.totals.pageViews },
+              { label: "Progetti visti", value: summary.totals.projectViews },
+              { label: "Clic sulle azioni", value: summary.totals.ctaClicks },
+              { label: "Moduli inviati", value: summary.totals.formSubmissions },
+            ].map(({ label, value }) => (
+              <Card key={label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-3xl font-bold">{value.toLocaleString("it-IT")}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Traffico</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trafficChart} className="aspect-auto h-72 w-full">
+                <LineChart data={summary.traffic} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={24}
+                    tickFormatter={(date: string) => format(parseISO(date), "d MMM", { locale: it })}
+                  />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_label, payload) =>
+                          format(parseISO(payload[0].payload.date), "EEEE d MMMM yyyy", { locale: it })
+                        }
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="pageViews" type="monotone" stroke="var(--color-pageViews)" strokeWidth={2} dot={false} />
+                  <Line
+                    dataKey="formSubmissions"
+                    type="monotone"
+                    stroke="var(--color-formSubmissions)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Progetti più visti</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.topProjects.length === 0 ? (
+                  <Empty />
+                ) : (
+                  <ChartContainer config={projectsChart} className="aspect-auto h-72 w-full">
+                    <BarChart
+                      data={summary.topProjects.map((project) => ({
+                        ...project,
+                        name: project.title ?? project.slug,
+                      }))}
+                      layout="vertical"
+                      margin={{ left: 0, right: 12 }}
+                    >
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis
+                        type="category"
+                        dataKey="name"
+                        tickLine={false}
+                        axisLine={false}
+                        width={140}
+                        tickFormatter={(name: string) => (name.length > 22 ? `${name.slice(0, 21)}…` : name)}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Pagine più viste</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.topPages.length === 0 ? (
+                  <Empty />
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pagina</TableHead>
+                        <TableHead className="text-right">Visite</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.topPages.map((page) => (
+                        <TableRow key={page.path}>
+                          <TableCell className="font-mono text-sm">{page.path}</TableCell>
+                          <TableCell className="text-right">{page.views}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversioni per pagina</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground mb-4">
+                Moduli inviati dalla pagina rispetto alle sue visite. Il modulo contatti è in home page, la
+                richiesta di preventivo si apre da più pagine.
+              </p>
+              {summary.conversions.length === 0 ? (
+                <Empty />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pagina</TableHead>
+                      <TableHead className="text-right">Visite</TableHead>
+                      <TableHead className="text-right">Contatti</TableHead>
+                      <TableHead className="text-right">Conv. contatti</TableHead>
+                      <TableHead className="text-right">Preventivi</TableHead>
+                      <TableHead className="text-right">Conv. preventivi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.conversions.map((row) => (
+                      <TableRow key={row.path}>
+                        <TableCell className="font-mono text-sm">{row.path}</TableCell>
+                        <TableCell className="text-right">{row.pageViews}</TableCell>
+                        <TableCell className="text-right">{row.contactForms}</TableCell>
+                        <TableCell className="text-right">{percentage(row.contactForms, row.pageViews)}</TableCell>
+                        <TableCell className="text-right">{row.quoteForms}</TableCell>
+                        <TableCell className="text-right">{percentage(row.quoteForms, row.pageViews)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Clic sulle azioni</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.ctaClicks.length === 0 ? (
+                  <Empty />
+                ) : (
+                  <Table>
+                    <TableBody>
+                      {summary.ctaClicks.map((row) => (
+                        <TableRow key={row.cta}>
+                          <TableCell>{ANALYTICS_CTA_LABELS[row.cta] ?? row.cta}</TableCell>
+                          <TableCell className="text-right">{row.clicks}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Provenienza</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.referrers.length === 0 ? (
+                  <Empty />
+                ) : (
+                  <Table>
+                    <TableBody>
+                      {summary.referrers.map((row) => (
+                        <TableRow key={row.host}>
+                          <TableCell>{row.host}</TableCell>
+                          <TableCell className="text-right">{row.views}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import {
+  caseHistoryStatuses,
+  insertCaseHistorySchema,
+  projectCategories,
+} from "@db/schema";
+import { BeforeAfterManager } from "@/components/admin/BeforeAfterManager";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CASE_HISTORY_STATUS_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CaseHistory } from "@/types/project";
+
+// Lists are edited one entry per line and the testimonial as flat fields;
+// they are converted back to the API shape on submit.
+const formSchema = insertCaseHistorySchema
+  .omit({ results: true, gallery: true, beforeAfter: true, testimonial: true, projectId: true })
+  .extend({
+    client: z.string().trim(),
+    results: z.string(),
+    gallery: z.string(),
+    testimonialQuote: z.string().trim(),
+    testimonialAuthor: z.string().trim(),
+    testimonialRole: z.string().trim(),
+  });
+type CaseHistoryFormValues = z.infer<typeof formSchema>;
+
+const EMPTY_VALUES: CaseHistoryFormValues = {
+  slug: "",
+  title: "",
+  description: "",
+  category: "restauro",
+  image: "",
+  year: new Date().getFullYear(),
+  location: "",
+  client: "",
+  challenge: "",
+  solution: "",
+  results: "",
+  gallery: "",
+  status: "completed",
+  testimonialQuote: "",
+  testimonialAuthor: "",
+  testimonialRole: "",
+};
+
+function toFormValues(caseHistory: CaseHistory): CaseHistoryFormValues {
+  return {
+    slug: caseHistory.slug,
+    title: caseHistory.title,
+    description: caseHistory.description,
+    category: caseHistory.category,
+    image: caseHistory.image,
+    year: caseHistory.year,
+    location: caseHistory.location,
+    client: caseHistory.client ?? "",
+    challenge: caseHistory.challenge,
+    solution: caseHistory.solution,
+    results: caseHistory.results.join("\n"),
+    gallery: caseHistory.gallery.join("\n"),
+    status: caseHistory.status,
+    testimonialQuote: caseHistory.testimonial?.quote ?? "",
+    testimonialAuthor: caseHistory.testimonial?.author ?? "",
+    testimonialRole: caseHistory.testimonial?.role ?? "",
+  };
+}
+
+function splitLines(value: string) {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toPayload({
+  testimonialQuote,
+  testimonialAuthor,
+  testimonialRole,
+  ...values
+}: CaseHistoryFormValues) {
+  return {
+    ...values,
+    client: values.client || null,
+    results: splitLines(values.results),
+    gallery: splitLines(values.gallery),
+    testimonial:
+      testimonialQuote || testimonialAuthor
+        ? { quote: testimonialQuote, author: testimonialAuthor, role: testimonialRole || undefined }
+        : null,
+  };
+}
+
+export function CaseHistoryEditor() {
+  const { id } = useParams<{ id: string }>();
+  const isNew = id === "nuovo";
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: caseHistories, isLoading, error } = useQuery<CaseHistory[]>({
+    queryKey: ["/api/case-histories"],
+  });
+  const caseHistory = caseHistories?.find((entry) => entry.id === Number(id));
+
+  const form = useForm<CaseHistoryFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (caseHistory) {
+      form.reset(toFormValues(caseHistory));
+    }
+  }, [caseHistory, form]);
+
+  const saveCaseHistory = useMutation({
+    mutationFn: (values: CaseHistoryFormValues) =>
+      isNew
+        ? apiRequest<CaseHistory>("POST", "/api/case-histories", { ...toPayload(values), beforeAfter: [] })
+        : apiRequest<CaseHistory>("PUT", `/api/case-histories/${id}`, toPayload(values)),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/case-histories"] });
+      toast({ title: "Case history salvato" });
+      if (isNew) {
+        navigate(`/case-history/${saved.id}`, { replace: true });
+      }
+    },
+    onError: (saveError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  if (!isNew && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isNew && (error || !caseHistory)) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Case history non trovato.
+      </div>
+    );
+  }
+
+  const textFields: { name: keyof CaseHistoryFormValues; label: string; description?: string }[] = [
+    { name: "title", label: "Titolo" },
+    { name: "slug", label: "Slug", description: "Usato nell'indirizzo, es. restauro-palazzo-storico" },
+    { name: "location", label: "Località" },
+    { name: "client", label: "Committente" },
+    { name: "image", label: "Immagine principale", description: "Percorso, es. /images/progetti/facciata.jpg" },
+  ];
+
+  const longFields: { name: keyof CaseHistoryFormValues; label: string; description?: string }[] = [
+    { name: "description", label: "Descrizione" },
+    { name: "challenge", label: "La sfida" },
+    { name: "solution", label: "La soluzione" },
+    { name: "results", label: "Risultati", description: "Un risultato per riga" },
+    { name: "gallery", label: "Galleria", description: "Un percorso immagine per riga" },
+  ];
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/case-history" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">
+          {isNew ? "Nuovo case history" : caseHistory?.title}
+        </h1>
+      </div>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => saveCaseHistory.mutate(values))}
+          className="space-y-6"
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Dati principali</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {textFields.map(({ name, label, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      {description && <FormDescription>{description}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="year"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Anno</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Categoria</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {projectCategories.map((category) => (
+                            <SelectItem key={category} value={category} className="capitalize">
+                              {category}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stato</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {caseHistoryStatuses.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {CASE_HISTORY_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Racconto</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {longFields.map(({ name, label, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Textarea className="min-h-[100px]" {...field} />
+                      </FormControl>
+                      {description && <FormDescription>{description}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Testimonianza del cliente</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="testimonialQuote"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Testo</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormDescription>Lascia vuoto se non c'è una testimonianza.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="testimonialAuthor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Autore</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="testimonialRole"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ruolo</FormLabel>
+                      <FormControl>
+                        <Input placeholder="es. Amministratore di condominio" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={saveCaseHistory.isPending}>
+            {saveCaseHistory.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salva
+          </Button>
+        </form>
+      </Form>
+
+      {caseHistory && (
+        <BeforeAfterManager<CaseHistory>
+          pairs={caseHistory.beforeAfter}
+          endpoint={`/api/case-histories/${caseHistory.id}/before-after`}
+          onUpdated={() => queryClient.invalidateQueries({ queryKey: ["/api/case-histories"] })}
+        />
+      )}
+    </div>
+  );
+}
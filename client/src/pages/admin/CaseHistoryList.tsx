@@ -0,0 +1,113 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CASE_HISTORY_STATUS_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CaseHistory } from "@/types/project";
+
+export function CaseHistoryList() {
+  const { toast } = useToast();
+  const { data: caseHistories, isLoading, error } = useQuery<CaseHistory[]>({
+    queryKey: ["/api/case-histories"],
+  });
+
+  const deleteCaseHistory = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/case-histories/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/case-histories"] });
+      toast({ title: "Case history eliminato" });
+    },
+    onError: (deleteError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: deleteError.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Case history</h1>
+          <p className="text-muted-foreground">
+            I casi studio mostrati nella pagina Realizzazioni.
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/case-history/nuovo">
+            <Plus className="mr-1 h-4 w-4" />
+            Nuovo
+          </Link>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento dei case history.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Titolo</TableHead>
+              <TableHead>Anno</TableHead>
+              <TableHead>Stato</TableHead>
+              <TableHead className="w-[200px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {caseHistories?.map((caseHistory) => (
+              <TableRow key={caseHistory.id}>
+                <TableCell className="font-medium">{caseHistory.title}</TableCell>
+                <TableCell>{caseHistory.year}</TableCell>
+                <TableCell>
+                  <Badge variant={caseHistory.status === "completed" ? "default" : "secondary"}>
+                    {CASE_HISTORY_STATUS_LABELS[caseHistory.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/case-history/${caseHistory.id}`}>
+                      <Pencil className="mr-1 h-4 w-4" />
+                      Modifica
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={deleteCaseHistory.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Eliminare "${caseHistory.title}"?`)) {
+                        deleteCaseHistory.mutate(caseHistory.id);
+                      }
+                    }}
+                    aria-label={`Elimina ${caseHistory.title}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
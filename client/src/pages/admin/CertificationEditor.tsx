@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { ArrowLeft, FileText, Loader2 } from "lucide-react";
+import {
+  certificationCategories,
+  certificationDocumentLimits,
+  insertCertificationSchema,
+  type Certification,
+  type NewCertification,
+} from "@db/schema";
+import { SoaQualificationsManager } from "@/components/admin/SoaQualificationsManager";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CERTIFICATION_CATEGORY_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const EMPTY_VALUES: NewCertification = {
+  title: "",
+  description: "",
+  category: "qualita",
+  issuer: "",
+  number: "",
+  scope: "",
+  issuedAt: "",
+  expiresAt: null,
+};
+
+function toFormValues(certification: Certification): NewCertification {
+  return {
+    title: certification.title,
+    description: certification.description,
+    category: certification.category,
+    issuer: certification.issuer ?? "",
+    number: certification.number ?? "",
+    scope: certification.scope ?? "",
+    issuedAt: certification.issuedAt ?? "",
+    expiresAt: certification.expiresAt,
+  };
+}
+
+export function CertificationEditor() {
+  const { id } = useParams<{ id: string }>();
+  const isNew = id === "nuova";
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const { data: certifications, isLoading, error } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications/all"],
+  });
+  const certification = certifications?.find((entry) => entry.id === Number(id));
+
+  const form = useForm<NewCertification>({
+    resolver: zodResolver(insertCertificationSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (certification) {
+      form.reset(toFormValues(certification));
+    }
+  }, [certification, form]);
+
+  const saveCertification = useMutation({
+    mutationFn: (values: NewCertification) => {
+      const body = new FormData();
+      body.append("data", JSON.stringify({ ...values, number: values.number || null, scope: values.scope || null }));
+      if (documentFile) {
+        body.append("document", documentFile);
+      }
+      return isNew
+        ? apiRequest<Certification>("POST", "/api/certifications", body)
+        : apiRequest<Certification>("PUT", `/api/certifications/${id}`, body);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/certifications"),
+      });
+      setDocumentFile(null);
+      // Remount the file input so it forgets the uploaded file.
+      setFormKey((key) => key + 1);
+      toast({ title: "Certificazione salvata" });
+      if (isNew) {
+        navigate(`/certificazioni/${saved.id}`, { replace: true });
+      }
+    },
+    onError: (saveError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  if (!isNew && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isNew && (error || !certification)) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Certificazione non trovata.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/certificazioni" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">
+          {isNew ? "Nuova certificazione" : certification?.title}
+        </h1>
+      </div>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => saveCertification.mutate(values))}
+          className="space-y-6"
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Dati del certificato</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Titolo</FormLabel>
+                    <FormControl>
+                      <Input placeholder="es. ISO 9001:2015" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descrizione</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="issuer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ente di certificazione</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Categoria</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {certificationCategories.map((category) => (
+                            <SelectItem key={category} value={category}>
+                              {CERTIFICATION_CATEGORY_LABELS[category]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="number"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Numero certificato</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="issuedAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data di emissione</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiresAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data di scadenza</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormDescription>Lascia vuoto se il certificato non scade.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Campo di applicazione</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Documento PDF</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {certification?.documentFilename && (
+                <a
+                  href={`/api/certifications/${certification.id}/document`}
+                  className="inline-flex items-center text-primary hover:underline"
+                >
+                  <FileText className="mr-1 h-4 w-4" />
+                  {certification.documentName ?? "Documento attuale"}
+                </a>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="certification-document">
+                  {certification?.documentFilename ? "Sostituisci il documento" : "Carica il documento"}
+                </Label>
+                <Input
+                  key={formKey}
+                  id="certification-document"
+                  type="file"
+                  accept={certificationDocumentLimits.mimeTypes.join(",")}
+                  onChange={(e) => setDocumentFile(e.target.files?.[0] ?? null)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  PDF fino a {certificationDocumentLimits.maxFileSize / 1024 / 1024} MB.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={saveCertification.isPending}>
+            {saveCertification.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salva
+          </Button>
+        </form>
+      </Form>
+
+      {certification?.category === "soa" && (
+        <SoaQualificationsManager certificationId={certification.id} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { differenceInCalendarDays, format } from "date-fns";
+import { it } from "date-fns/locale";
+import { AlertTriangle, FileText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { CERTIFICATION_EXPIRY_WARNING_DAYS, type Certification } from "@db/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CERTIFICATION_CATEGORY_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+function formatDate(value: string) {
+  return format(new Date(value), "d MMM yyyy", { locale: it });
+}
+
+function ExpiryBadge({ expiresAt }: { expiresAt: string | null }) {
+  if (!expiresAt) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const days = differenceInCalendarDays(new Date(expiresAt), new Date());
+  if (days < 0) {
+    return <Badge variant="destructive">Scaduto il {formatDate(expiresAt)}</Badge>;
+  }
+  if (days <= CERTIFICATION_EXPIRY_WARNING_DAYS) {
+    return <Badge variant="secondary">Scade tra {days} giorni</Badge>;
+  }
+  return <span>{formatDate(expiresAt)}</span>;
+}
+
+export function CertificationList() {
+  const { toast } = useToast();
+  const { data: certifications, isLoading, error } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications/all"],
+  });
+  const { data: expiring } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications/expiring"],
+  });
+
+  const deleteCertification = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/certifications/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/certifications"),
+      });
+      toast({ title: "Certificazione eliminata" });
+    },
+    onError: (deleteError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: deleteError.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Certificazioni</h1>
+          <p className="text-muted-foreground">
+            I certificati scaduti restano in archivio ma non sono più mostrati sul sito.
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/certificazioni/nuova">
+            <Plus className="mr-1 h-4 w-4" />
+            Nuova
+          </Link>
+        </Button>
+      </div>
+
+      {expiring && expiring.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Certificati da rinnovare</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1">
+              {expiring.map((certification) => (
+                <li key={certification.id}>
+                  <Link href={`/certificazioni/${certification.id}`} className="font-medium hover:underline">
+                    {certification.title}
+                  </Link>
+                  {" — "}
+                  {differenceInCalendarDays(new Date(certification.expiresAt!), new Date()) < 0
+                    ? "scaduto il "
+                    : "scade il "}
+                  {formatDate(certification.expiresAt!)}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento delle certificazioni.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Certificazione</TableHead>
+              <TableHead>Categoria</TableHead>
+              <TableHead>Ente</TableHead>
+              <TableHead>Scadenza</TableHead>
+              <TableHead>PDF</TableHead>
+              <TableHead className="w-[200px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {certifications?.map((certification) => (
+              <TableRow key={certification.id}>
+                <TableCell className="font-medium">{certification.title}</TableCell>
+                <TableCell>{CERTIFICATION_CATEGORY_LABELS[certification.category]}</TableCell>
+                <TableCell>{certification.issuer ?? "—"}</TableCell>
+                <TableCell>
+                  <ExpiryBadge expiresAt={certification.expiresAt} />
+                </TableCell>
+                <TableCell>
+                  {certification.documentFilename ? (
+                    <a
+                      href={`/api/certifications/${certification.id}/document`}
+                      className="inline-flex items-center text-primary hover:underline"
+                    >
+                      <FileText className="mr-1 h-4 w-4" />
+                      Scarica
+                    </a>
+                  ) : (
+                    <span className="text-muted-foreground">Mancante</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/certificazioni/${certification.id}`}>
+                      <Pencil className="mr-1 h-4 w-4" />
+                      Modifica
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={deleteCertification.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Eliminare "${certification.title}"?`)) {
+                        deleteCertification.mutate(certification.id);
+                      }
+                    }}
+                    aria-label={`Elimina ${certification.title}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
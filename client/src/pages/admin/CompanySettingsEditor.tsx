@@ -0,0 +1,335 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  socialNetworks,
+  updateCompanySettingsSchema,
+  weekdays,
+  type CompanySettings,
+  type SocialLinks,
+  type SocialNetwork,
+} from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { useCompanySettings } from "@/hooks/useCompanySettings";
+import { SOCIAL_NETWORK_LABELS, WEEKDAY_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The PEC and the social profiles are edited as plain strings, empty when
+// missing; they are converted back to the API shape on submit.
+const socialUrl = z.string().trim().url("Inserisci un indirizzo completo, es. https://...").or(z.literal(""));
+
+const formSchema = updateCompanySettingsSchema.omit({ pec: true, social: true }).extend({
+  pec: z.string().trim().email("PEC non valida").or(z.literal("")),
+  social: z.object({
+    facebook: socialUrl,
+    instagram: socialUrl,
+    linkedin: socialUrl,
+    youtube: socialUrl,
+    twitter: socialUrl,
+  }),
+});
+type CompanySettingsFormValues = z.infer<typeof formSchema>;
+
+function toFormValues(settings: CompanySettings): CompanySettingsFormValues {
+  return {
+    name: settings.name,
+    legalName: settings.legalName,
+    vatNumber: settings.vatNumber,
+    phone: settings.phone,
+    email: settings.email,
+    pec: settings.pec ?? "",
+    street: settings.street,
+    postalCode: settings.postalCode,
+    city: settings.city,
+    province: settings.province,
+    country: settings.country,
+    logo: settings.logo,
+    openingHours: settings.openingHours,
+    social: Object.fromEntries(
+      socialNetworks.map((network) => [network, settings.social[network] ?? ""]),
+    ) as Record<SocialNetwork, string>,
+  };
+}
+
+function toPayload({ pec, social, ...values }: CompanySettingsFormValues) {
+  return {
+    ...values,
+    pec: pec || null,
+    social: Object.fromEntries(
+      Object.entries(social).filter(([, url]) => url),
+    ) as SocialLinks,
+  };
+}
+
+const FIELD_GROUPS: {
+  title: string;
+  fields: {
+    name: Exclude<keyof CompanySettingsFormValues, "openingHours" | "social">;
+    label: string;
+    description?: string;
+  }[];
+}[] = [
+  {
+    title: "Dati legali",
+    fields: [
+      { name: "name", label: "Nome", description: "Come compare sul sito, es. DF Restauri" },
+      { name: "legalName", label: "Ragione sociale" },
+      { name: "vatNumber", label: "Partita IVA" },
+      { name: "logo", label: "Logo", description: "Percorso, es. /images/logo_dfrestauri_transparent.png" },
+    ],
+  },
+  {
+    title: "Contatti",
+    fields: [
+      { name: "phone", label: "Telefono" },
+      { name: "email", label: "Email" },
+      { name: "pec", label: "PEC", description: "Lascia vuoto per non mostrarla" },
+    ],
+  },
+  {
+    title: "Sede",
+    fields: [
+      { name: "street", label: "Indirizzo" },
+      { name: "postalCode", label: "CAP" },
+      { name: "city", label: "Comune" },
+      { name: "province", label: "Provincia", description: "Sigla, es. UD" },
+      { name: "country", label: "Nazione", description: "Codice ISO, es. IT" },
+    ],
+  },
+];
+
+export function CompanySettingsEditor() {
+  const { toast } = useToast();
+  const { data: settings, isLoading, error } = useCompanySettings();
+
+  const form = useForm<CompanySettingsFormValues>({
+    resolver: zodResolver(formSchema),
+  });
+  const openingHours = useFieldArray({ control: form.control, name: "openingHours" });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset(toFormValues(settings));
+    }
+  }, [settings, form]);
+
+  const saveSettings = useMutation({
+    mutationFn: (values: CompanySettingsFormValues) =>
+      apiRequest<CompanySettings>("PUT", "/api/settings", toPayload(values)),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      toast({ title: "Dati aziendali salvati" });
+    },
+    onError: (saveError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !settings) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Si è verificato un errore durante il caricamento dei dati aziendali.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Dati aziendali</h1>
+        <p className="text-muted-foreground">
+          Mostrati nell'intestazione, nel piè di pagina, nella sezione contatti e nei dati strutturati del sito.
+        </p>
+      </div>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => saveSettings.mutate(values))}
+          className="space-y-6"
+        >
+          {FIELD_GROUPS.map((group) => (
+            <Card key={group.title}>
+              <CardHeader>
+                <CardTitle>{group.title}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {group.fields.map(({ name, label, description }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        {description && <FormDescription>{description}</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Orari</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {openingHours.fields.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Nessun orario: il piè di pagina non mostra la sezione.
+                </p>
+              )}
+              {openingHours.fields.map((hours, index) => (
+                <div key={hours.id} className="space-y-4 rounded-md border p-4">
+                  <FormField
+                    control={form.control}
+                    name={`openingHours.${index}.days`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Giorni</FormLabel>
+                        <FormControl>
+                          <ToggleGroup
+                            type="multiple"
+                            variant="outline"
+                            className="flex-wrap justify-start"
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            {weekdays.map((day) => (
+                              <ToggleGroupItem key={day} value={day} aria-label={WEEKDAY_LABELS[day]}>
+                                {WEEKDAY_LABELS[day].slice(0, 3)}
+                              </ToggleGroupItem>
+                            ))}
+                          </ToggleGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-end gap-4">
+                    <FormField
+                      control={form.control}
+                      name={`openingHours.${index}.opens`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Apertura</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`openingHours.${index}.closes`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Chiusura</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openingHours.remove(index)}
+                      aria-label="Rimuovi fascia oraria"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  openingHours.append({
+                    days: ["monday", "tuesday", "wednesday", "thursday", "friday"],
+                    opens: "08:00",
+                    closes: "17:00",
+                  })
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Aggiungi fascia oraria
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Social</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {socialNetworks.map((network) => (
+                <FormField
+                  key={network}
+                  control={form.control}
+                  name={`social.${network}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{SOCIAL_NETWORK_LABELS[network]}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <p className="text-sm text-muted-foreground">
+                Solo i profili indicati compaiono nel piè di pagina.
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveSettings.isPending}>
+              {saveSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salva
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Check, Loader2, Mail, Phone, RotateCcw, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+import type { ContactSubmission } from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type Folder = "open" | "handled" | "spam";
+
+const FOLDERS: { value: Folder; label: string; query: string }[] = [
+  { value: "open", label: "Da gestire", query: "status=open" },
+  { value: "handled", label: "Gestiti", query: "status=handled" },
+  { value: "spam", label: "Spam", query: "folder=spam" },
+];
+
+export function ContactSubmissionList() {
+  const { toast } = useToast();
+  const [folder, setFolder] = useState<Folder>("open");
+  const { data: submissions, isLoading, error } = useQuery<ContactSubmission[]>({
+    queryKey: [`/api/contact-submissions?${FOLDERS.find((entry) => entry.value === folder)!.query}`],
+  });
+
+  function onChanged() {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/contact-submissions"),
+    });
+  }
+
+  const update = useMutation({
+    mutationFn: ({ id, ...changes }: { id: number; handled?: boolean; spam?: boolean }) =>
+      apiRequest<ContactSubmission>("PATCH", `/api/contact-submissions/${id}`, changes),
+    onSuccess: (_updated, { spam }) => {
+      onChanged();
+      toast({
+        title: spam === true ? "Spostato nello spam" : spam === false ? "Spostato tra i messaggi" : "Messaggio aggiornato",
+      });
+    },
+    onError: (updateError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Aggiornamento non riuscito",
+        description: updateError.message,
+      });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/contact-submissions/${id}`),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Messaggio eliminato" });
+    },
+    onError: (removeError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: removeError.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Messaggi</h1>
+        <p className="text-muted-foreground">
+          I messaggi inviati dal modulo contatti. Quelli riconosciuti come spam finiscono nella cartella Spam
+          e non generano notifiche.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {FOLDERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={folder === value ? "default" : "outline"}
+            onClick={() => setFolder(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento dei messaggi.
+        </div>
+      ) : submissions?.length === 0 ? (
+        <p className="text-muted-foreground text-center py-12">Nessun messaggio.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {submissions?.map((submission) => (
+            <Card key={submission.id}>
+              <CardHeader className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-semibold">{submission.name}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(submission.createdAt), "d MMM yyyy, HH:mm", { locale: it })}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  <a href={`mailto:${submission.email}`} className="flex items-center gap-1 hover:text-foreground">
+                    <Mail className="h-4 w-4" />
+                    {submission.email}
+                  </a>
+                  <a href={`tel:${submission.phone}`} className="flex items-center gap-1 hover:text-foreground">
+                    <Phone className="h-4 w-4" />
+                    {submission.phone}
+                  </a>
+                </div>
+                {submission.spamReasons.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant={submission.isSpam ? "destructive" : "outline"}>
+                      Punteggio spam {submission.spamScore}
+                    </Badge>
+                    {submission.spamReasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {reason}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="whitespace-pre-line break-words text-muted-foreground">{submission.message}</p>
+                <div className="flex flex-wrap gap-2">
+                  {submission.isSpam ? (
+                    <Button
+                      size="sm"
+                      disabled={update.isPending}
+                      onClick={() => update.mutate({ id: submission.id, spam: false })}
+                    >
+                      <ShieldCheck className="mr-1 h-4 w-4" />
+                      Non è spam
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        size="sm"
+                        variant={submission.handledAt ? "outline" : "default"}
+                        disabled={update.isPending}
+                        onClick={() => update.mutate({ id: submission.id, handled: !submission.handledAt })}
+                      >
+                        {submission.handledAt ? (
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                        ) : (
+                          <Check className="mr-1 h-4 w-4" />
+                        )}
+                        {submission.handledAt ? "Riapri" : "Segna come gestito"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={update.isPending}
+                        onClick={() => update.mutate({ id: submission.id, spam: true })}
+                      >
+                        <ShieldAlert className="mr-1 h-4 w-4" />
+                        Spam
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={remove.isPending}
+                    onClick={() => {
+                      if (window.confirm("Eliminare definitivamente questo messaggio?")) {
+                        remove.mutate(submission.id);
+                      }
+                    }}
+                    aria-label="Elimina"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
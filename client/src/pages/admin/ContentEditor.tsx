@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import {
+  DEFAULT_LOCALE,
+  contentSectionSchemas,
+  isContentSectionKey,
+  isLocale,
+  locales,
+  type ContentSectionKey,
+  type Locale,
+} from "@db/schema";
+import { ContentFields } from "@/components/admin/ContentFields";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useContent } from "@/hooks/useContent";
+import { useToast } from "@/hooks/use-toast";
+import { CONTENT_SECTION_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LOCALE_LABELS, withLocale } from "@/lib/i18n";
+
+// The language being edited is in the query string (?lingua=en), so the
+// links on the content list open the right version.
+export function ContentEditor() {
+  const { section } = useParams<{ section: string }>();
+  const lingua = new URLSearchParams(useSearch()).get("lingua");
+  const locale = isLocale(lingua) ? lingua : DEFAULT_LOCALE;
+
+  if (!isContentSectionKey(section)) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Sezione non trovata.
+      </div>
+    );
+  }
+
+  return <SectionForm key={`${section}-${locale}`} section={section} locale={locale} />;
+}
+
+function SectionForm({ section, locale }: { section: ContentSectionKey; locale: Locale }) {
+  const { toast } = useToast();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const schema = contentSectionSchemas[section];
+  // Until a translation is saved this is the Italian text, to translate in place.
+  const { data: content, isLoading, error } = useContent(section, locale);
+  const url = withLocale(`/api/content/${section}`, locale);
+  const form = useForm<Record<string, unknown>>({
+    resolver: zodResolver(schema),
+  });
+
+  useEffect(() => {
+    if (content) {
+      form.reset(content);
+    }
+  }, [content, form]);
+
+  const saveContent = useMutation({
+    mutationFn: (values: Record<string, unknown>) =>
+      apiRequest("PUT", url, values),
+    onSuccess: (saved) => {
+      queryClient.setQueryData([url], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/content"] });
+      setIsConfirmOpen(false);
+      toast({ title: "Contenuto pubblicato" });
+    },
+    onError: (saveError: Error) => {
+      setIsConfirmOpen(false);
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Si è verificato un errore nel caricamento del contenuto.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/contenuti" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">{CONTENT_SECTION_LABELS[section]}</h1>
+      </div>
+
+      <div className="flex gap-2" role="group" aria-label="Lingua">
+        {locales.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={option === locale ? "default" : "outline"}
+            asChild
+          >
+            <Link href={option === DEFAULT_LOCALE ? `/contenuti/${section}` : `/contenuti/${section}?lingua=${option}`}>
+              {LOCALE_LABELS[option]}
+            </Link>
+          </Button>
+        ))}
+      </div>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(() => setIsConfirmOpen(true))}
+          className="space-y-6"
+        >
+          {Object.entries(schema.shape).map(([key, child]) => (
+            <ContentFields key={key} schema={child} name={key} fieldKey={key} />
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!form.formState.isDirty}
+              onClick={() => content && form.reset(content)}
+            >
+              Annulla modifiche
+            </Button>
+            <Button type="submit" disabled={!form.formState.isDirty}>
+              Pubblica
+            </Button>
+          </div>
+        </form>
+      </Form>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pubblicare le modifiche?</DialogTitle>
+            <DialogDescription>
+              I nuovi testi di "{CONTENT_SECTION_LABELS[section]}" ({LOCALE_LABELS[locale]})
+              saranno visibili immediatamente sul sito.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Annulla
+            </Button>
+            <Button
+              onClick={() => saveContent.mutate(form.getValues())}
+              disabled={saveContent.isPending}
+            >
+              {saveContent.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pubblica
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
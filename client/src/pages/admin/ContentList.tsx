@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2, Pencil } from "lucide-react";
+import { DEFAULT_LOCALE, contentSectionKeys, locales, type ContentSectionKey, type Locale } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CONTENT_SECTION_LABELS } from "@/lib/constants";
+import { LOCALE_LABELS } from "@/lib/i18n";
+
+interface ContentSectionSummary {
+  key: ContentSectionKey;
+  locale: Locale;
+  updatedAt: string;
+}
+
+function editPath(key: ContentSectionKey, locale: Locale) {
+  return locale === DEFAULT_LOCALE ? `/contenuti/${key}` : `/contenuti/${key}?lingua=${locale}`;
+}
+
+export function ContentList() {
+  const { data: sections, isLoading, error } = useQuery<ContentSectionSummary[]>({
+    queryKey: ["/api/content"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Contenuti del sito</h1>
+        <p className="text-muted-foreground">
+          Modifica i testi delle pagine pubbliche. Le modifiche sono visibili subito dopo il salvataggio.
+          Le sezioni non ancora tradotte sono mostrate in italiano.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento dei contenuti.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sezione</TableHead>
+              {locales.map((locale) => (
+                <TableHead key={locale}>{LOCALE_LABELS[locale]}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {contentSectionKeys.map((key) => (
+              <TableRow key={key}>
+                <TableCell className="font-medium">{CONTENT_SECTION_LABELS[key]}</TableCell>
+                {locales.map((locale) => {
+                  const version = sections?.find(
+                    (section) => section.key === key && section.locale === locale,
+                  );
+                  return (
+                    <TableCell key={locale}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={version ? undefined : "text-muted-foreground"}>
+                          {version
+                            ? format(new Date(version.updatedAt), "d MMMM yyyy, HH:mm", { locale: it })
+                            : "Da tradurre"}
+                        </span>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={editPath(key, locale)}>
+                            <Pencil className="mr-1 h-4 w-4" />
+                            Modifica
+                          </Link>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
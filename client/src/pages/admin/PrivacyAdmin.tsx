@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Download, Loader2, Search, Trash2 } from "lucide-react";
+import {
+  DATA_RETENTION_DAYS,
+  publishPrivacyPolicySchema,
+  type ContactSubmission,
+  type PrivacyPolicy,
+  type QuoteRequestWithAttachments,
+} from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type PolicyFormValues = z.infer<typeof publishPrivacyPolicySchema>;
+
+// Mirrors the server's export; only the counts are shown here, the rest goes
+// into the downloaded file.
+interface PersonalDataExport {
+  email: string;
+  exportedAt: string;
+  contactSubmissions: ContactSubmission[];
+  quoteRequests: QuoteRequestWithAttachments[];
+  emails: unknown[];
+}
+
+type ErasedCounts = Record<"contactSubmissions" | "quoteRequests" | "emails", number>;
+
+const RETENTION_LABELS: Record<keyof typeof DATA_RETENTION_DAYS, string> = {
+  contactSubmissions: "Messaggi dal modulo contatti",
+  spam: "Messaggi nello spam",
+  quoteRequests: "Richieste di preventivo non accettate",
+  acceptedQuoteRequests: "Richieste di preventivo accettate",
+  emails: "Email inviate",
+  cookieConsents: "Registro dei consensi ai cookie",
+};
+
+function formatDate(date: string | Date) {
+  return format(new Date(date), "d MMM yyyy, HH:mm", { locale: it });
+}
+
+function downloadJson(data: PersonalDataExport) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `dati-personali-${data.email}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function PolicyCard() {
+  const { toast } = useToast();
+  const { data: versions, isLoading, error } = useQuery<PrivacyPolicy[]>({
+    queryKey: ["/api/privacy-policy/versions"],
+  });
+  const current = versions?.[0];
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(publishPrivacyPolicySchema),
+    defaultValues: { body: "" },
+  });
+
+  useEffect(() => {
+    if (current) {
+      form.reset({ body: current.body });
+    }
+  }, [current, form]);
+
+  const publish = useMutation({
+    mutationFn: (values: PolicyFormValues) => apiRequest<PrivacyPolicy>("POST", "/api/privacy-policy", values),
+    onSuccess: (published) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/privacy-policy"),
+      });
+      toast({ title: `Pubblicata la versione ${published.version}` });
+    },
+    onError: (publishError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Pubblicazione non riuscita",
+        description: publishError.message,
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Informativa sulla privacy</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-red-500 text-center py-12">
+            Si è verificato un errore nel caricamento dell'informativa.
+          </div>
+        ) : (
+          <>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((values) => publish.mutate(values))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="body"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Textarea className="min-h-[400px] font-mono text-sm" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Testo semplice: una riga vuota separa i paragrafi, un paragrafo che inizia con "## " è un
+                        titolo. Ogni pubblicazione crea una nuova versione; i consensi già raccolti restano legati
+                        alla versione accettata.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={publish.isPending || !form.formState.isDirty}>
+                  {publish.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Pubblica nuova versione
+                </Button>
+              </form>
+            </Form>
+
+            {versions && versions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Versioni pubblicate</h3>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {versions.map((version) => (
+                    <li key={version.version}>
+                      Versione {version.version} — {formatDate(version.publishedAt)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PersonalDataCard() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [found, setFound] = useState<PersonalDataExport | null>(null);
+
+  const search = useMutation({
+    mutationFn: (address: string) =>
+      apiRequest<PersonalDataExport>("GET", `/api/personal-data?email=${encodeURIComponent(address)}`),
+    onSuccess: setFound,
+    onError: (searchError: Error) => {
+      setFound(null);
+      toast({
+        variant: "destructive",
+        title: "Ricerca non riuscita",
+        description: searchError.message,
+      });
+    },
+  });
+
+  const erase = useMutation({
+    mutationFn: (address: string) =>
+      apiRequest<ErasedCounts>("DELETE", `/api/personal-data?email=${encodeURIComponent(address)}`),
+    onSuccess: (erased) => {
+      setFound(null);
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          ["/api/contact-submissions", "/api/quotes"].some((url) => String(query.queryKey[0]).startsWith(url)),
+      });
+      toast({
+        title: "Dati eliminati",
+        description: `${erased.contactSubmissions} messaggi, ${erased.quoteRequests} preventivi, ${erased.emails} email.`,
+      });
+    },
+    onError: (eraseError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: eraseError.message,
+      });
+    },
+  });
+
+  const total = found ? found.contactSubmissions.length + found.quoteRequests.length + found.emails.length : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Richieste degli interessati</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Cerca per email i messaggi, i preventivi con le foto e le email inviate, per rispondere a una richiesta di
+          accesso (esporta) o di cancellazione (elimina).
+        </p>
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (email.trim()) {
+              search.mutate(email.trim());
+            }
+          }}
+        >
+          <Input
+            type="email"
+            placeholder="nome@esempio.it"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+          <Button type="submit" disabled={search.isPending}>
+            {search.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+            Cerca
+          </Button>
+        </form>
+
+        {found && (
+          <div className="space-y-4 rounded-md border p-4">
+            <ul className="text-sm space-y-1">
+              <li>Messaggi: {found.contactSubmissions.length}</li>
+              <li>Richieste di preventivo: {found.quoteRequests.length}</li>
+              <li>Email: {found.emails.length}</li>
+            </ul>
+            {total === 0 ? (
+              <p className="text-sm text-muted-foreground">Nessun dato trovato per {found.email}.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => downloadJson(found)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Esporta (JSON)
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={erase.isPending}
+                  onClick={() => {
+                    if (window.confirm(`Eliminare definitivamente tutti i dati di ${found.email}?`)) {
+                      erase.mutate(found.email);
+                    }
+                  }}
+                >
+                  {erase.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                  Elimina tutto
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PrivacyAdmin() {
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Privacy</h1>
+        <p className="text-muted-foreground">
+          L'informativa mostrata sul sito, le richieste di accesso e cancellazione dei dati e i tempi di
+          conservazione.
+        </p>
+      </div>
+
+      <PolicyCard />
+      <PersonalDataCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Conservazione dei dati</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Ogni giorno vengono eliminati automaticamente i dati più vecchi di:
+          </p>
+          <ul className="text-sm space-y-1">
+            {(Object.keys(RETENTION_LABELS) as (keyof typeof DATA_RETENTION_DAYS)[]).map((key) => (
+              <li key={key}>
+                {RETENTION_LABELS[key]}: {DATA_RETENTION_DAYS[key]} giorni
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
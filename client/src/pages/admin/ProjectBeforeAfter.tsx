@@ -0,0 +1,67 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, ExternalLink, Loader2 } from "lucide-react";
+import { BeforeAfterManager } from "@/components/admin/BeforeAfterManager";
+import { Button } from "@/components/ui/button";
+import { queryClient } from "@/lib/queryClient";
+import { Project, ProjectWithNeighbours } from "@/types/project";
+
+export function ProjectBeforeAfter() {
+  const { slug } = useParams<{ slug: string }>();
+
+  const { data: project, isLoading, error } = useQuery<ProjectWithNeighbours>({
+    queryKey: [`/api/projects/${slug}`],
+  });
+
+  function onProjectUpdated(updated: Project) {
+    queryClient.setQueryData<ProjectWithNeighbours>(
+      [`/api/projects/${slug}`],
+      (current) => current && { ...current, ...updated },
+    );
+    // The public pages key the catalogue by locale and each project by slug.
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/projects"),
+    });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Progetto non trovato.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="~/admin/progetti" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">{project.title}</h1>
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <Link href={`~/realizzazioni/${project.slug}`}>
+            <ExternalLink className="mr-1 h-4 w-4" />
+            Vedi sul sito
+          </Link>
+        </Button>
+      </div>
+
+      <BeforeAfterManager<Project>
+        pairs={project.beforeAfter}
+        endpoint={`/api/projects/${project.id}/before-after`}
+        onUpdated={onProjectUpdated}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ImageIcon, Languages, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Project } from "@/types/project";
+
+export function ProjectList() {
+  const { toast } = useToast();
+  const { data: projects, isLoading, error } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  // The link sent to the customer at the end of a job, so their testimonial
+  // arrives already attached to the project.
+  async function copyTestimonialLink(project: Project) {
+    const url = `${window.location.origin}/testimonianza?progetto=${project.slug}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copiato", description: url });
+    } catch {
+      toast({ title: "Link per la testimonianza", description: url });
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Progetti</h1>
+        <p className="text-muted-foreground">
+          Gestisci le foto prima/dopo e le traduzioni delle pagine delle realizzazioni.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento dei progetti.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Progetto</TableHead>
+              <TableHead>Anno</TableHead>
+              <TableHead>Prima/dopo</TableHead>
+              <TableHead className="w-[360px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {projects?.map((project) => (
+              <TableRow key={project.id}>
+                <TableCell className="font-medium">{project.title}</TableCell>
+                <TableCell>{project.year}</TableCell>
+                <TableCell>{project.beforeAfter.length}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyTestimonialLink(project)}
+                  >
+                    <Link2 className="mr-1 h-4 w-4" />
+                    Link testimonianza
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/progetti/${project.slug}`}>
+                      <ImageIcon className="mr-1 h-4 w-4" />
+                      Foto
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/progetti/${project.slug}/traduzioni`}>
+                      <Languages className="mr-1 h-4 w-4" />
+                      Traduzioni
+                    </Link>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import type { ProjectTranslation } from "@db/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { LOCALE_LABELS } from "@/lib/i18n";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Project, ProjectWithNeighbours } from "@/types/project";
+
+// Italian is edited on the project itself; these are the other languages.
+const TRANSLATED_LOCALES = ["en", "de"] as const;
+
+// Techniques are edited one per line, like the lists of the case histories.
+const translationFormSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  details: z.string(),
+  techniques: z.string(),
+});
+const formSchema = z.object({
+  en: translationFormSchema,
+  de: translationFormSchema,
+});
+type ProjectTranslationsFormValues = z.infer<typeof formSchema>;
+type TranslationFormValues = z.infer<typeof translationFormSchema>;
+
+function toTranslationValues(translation: ProjectTranslation = {}): TranslationFormValues {
+  return {
+    title: translation.title ?? "",
+    description: translation.description ?? "",
+    details: translation.details ?? "",
+    techniques: translation.techniques?.join("\n") ?? "",
+  };
+}
+
+function toTranslation(values: TranslationFormValues): ProjectTranslation {
+  const techniques = values.techniques
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return {
+    title: values.title,
+    description: values.description,
+    details: values.details,
+    techniques: techniques.length > 0 ? techniques : undefined,
+  };
+}
+
+const FIELDS: { name: keyof TranslationFormValues; label: string; long?: boolean; description?: string }[] = [
+  { name: "title", label: "Titolo" },
+  { name: "description", label: "Descrizione", long: true },
+  { name: "details", label: "Dettagli", long: true },
+  { name: "techniques", label: "Tecniche impiegate", long: true, description: "Una tecnica per riga" },
+];
+
+export function ProjectTranslations() {
+  const { slug } = useParams<{ slug: string }>();
+  const { toast } = useToast();
+
+  const { data: project, isLoading, error } = useQuery<ProjectWithNeighbours>({
+    queryKey: [`/api/projects/${slug}`],
+  });
+
+  const form = useForm<ProjectTranslationsFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { en: toTranslationValues(), de: toTranslationValues() },
+  });
+
+  useEffect(() => {
+    if (project) {
+      form.reset({
+        en: toTranslationValues(project.translations.en),
+        de: toTranslationValues(project.translations.de),
+      });
+    }
+  }, [project, form]);
+
+  const saveTranslations = useMutation({
+    mutationFn: (values: ProjectTranslationsFormValues) =>
+      apiRequest<Project>("PUT", `/api/projects/${project!.id}/translations`, {
+        en: toTranslation(values.en),
+        de: toTranslation(values.de),
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<ProjectWithNeighbours>(
+        [`/api/projects/${slug}`],
+        (current) => current && { ...current, translations: updated.translations },
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: "Traduzioni salvate" });
+    },
+    onError: (saveError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Salvataggio non riuscito",
+        description: saveError.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Progetto non trovato.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/progetti" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">{project.title}</h1>
+      </div>
+      <p className="text-muted-foreground">
+        I campi lasciati vuoti sono mostrati in italiano nella versione tradotta del sito.
+      </p>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => saveTranslations.mutate(values))}
+          className="space-y-6"
+        >
+          {TRANSLATED_LOCALES.map((locale) => (
+            <Card key={locale}>
+              <CardHeader>
+                <CardTitle>{LOCALE_LABELS[locale]}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {FIELDS.map(({ name, label, long, description }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={`${locale}.${name}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          {long ? <Textarea className="min-h-[100px]" {...field} /> : <Input {...field} />}
+                        </FormControl>
+                        {description && <FormDescription>{description}</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveTranslations.isPending}>
+              {saveTranslations.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salva traduzioni
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
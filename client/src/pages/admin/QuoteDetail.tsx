@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import {
+  quoteStatusTransitions,
+  type QuoteRequest,
+  type QuoteRequestWithAttachments,
+  type QuoteStatus,
+} from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PROPERTY_TYPE_LABELS,
+  QUOTE_STATUS_LABELS,
+  QUOTE_TIMEFRAME_LABELS,
+} from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+function formatDate(value: Date | string) {
+  return format(new Date(value), "d MMMM yyyy, HH:mm", { locale: it });
+}
+
+export function QuoteDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [nextStatus, setNextStatus] = useState<QuoteStatus | null>(null);
+  const [siteVisitAt, setSiteVisitAt] = useState("");
+  const [adminNotes, setAdminNotes] = useState("");
+
+  const { data: quote, isLoading, error } = useQuery<QuoteRequestWithAttachments>({
+    queryKey: [`/api/quotes/${id}`],
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: (status: QuoteStatus) =>
+      apiRequest<QuoteRequest>("PATCH", `/api/quotes/${id}/status`, {
+        status,
+        siteVisitAt: siteVisitAt || undefined,
+        adminNotes: adminNotes || undefined,
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<QuoteRequestWithAttachments>(
+        [`/api/quotes/${id}`],
+        (current) => current && { ...current, ...updated },
+      );
+      // Refresh the list views (with or without a status filter).
+      queryClient.invalidateQueries({
+        predicate: (query) => /^\/api\/quotes(\?|$)/.test(String(query.queryKey[0])),
+      });
+      setNextStatus(null);
+      toast({ title: `Stato aggiornato: ${QUOTE_STATUS_LABELS[updated.status]}` });
+    },
+    onError: (updateError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Aggiornamento non riuscito",
+        description: updateError.message,
+      });
+    },
+  });
+
+  function openTransition(status: QuoteStatus) {
+    setSiteVisitAt("");
+    setAdminNotes(quote?.adminNotes ?? "");
+    setNextStatus(status);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !quote) {
+    return (
+      <div className="text-red-500 text-center py-12">
+        Richiesta non trovata.
+      </div>
+    );
+  }
+
+  const transitions = quoteStatusTransitions[quote.status];
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/preventivi" aria-label="Torna all'elenco">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">Richiesta #{quote.id}</h1>
+        <Badge>{QUOTE_STATUS_LABELS[quote.status]}</Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Intervento</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          <div>
+            <span className="font-semibold">Servizio:</span>{" "}
+            <span className="capitalize">{quote.serviceType}</span>
+          </div>
+          <div>
+            <span className="font-semibold">Immobile:</span> {PROPERTY_TYPE_LABELS[quote.propertyType]}
+          </div>
+          <div>
+            <span className="font-semibold">Indirizzo:</span> {quote.address}
+          </div>
+          <div>
+            <span className="font-semibold">Superficie:</span>{" "}
+            {quote.surface ? `${quote.surface} m²` : "non indicata"}
+          </div>
+          <div>
+            <span className="font-semibold">Tempistiche:</span> {QUOTE_TIMEFRAME_LABELS[quote.timeframe]}
+          </div>
+          <div>
+            <span className="font-semibold">Ricevuta il:</span> {formatDate(quote.createdAt)}
+          </div>
+          <p className="sm:col-span-2 whitespace-pre-line text-muted-foreground">
+            {quote.description}
+          </p>
+        </CardContent>
+      </Card>
+
+      {quote.attachments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Foto ({quote.attachments.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {quote.attachments.map((attachment) => {
+              const src = `/api/quotes/${quote.id}/attachments/${attachment.id}`;
+              return (
+                <a key={attachment.id} href={src} target="_blank" rel="noreferrer">
+                  <img
+                    src={`${src}?size=thumb`}
+                    alt={attachment.originalName}
+                    title={attachment.originalName}
+                    loading="lazy"
+                    style={
+                      attachment.placeholder
+                        ? { backgroundImage: `url("${attachment.placeholder}")`, backgroundSize: "cover" }
+                        : undefined
+                    }
+                    className="aspect-square w-full rounded-md object-cover hover:opacity-80"
+                  />
+                </a>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contatti</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          <p className="font-medium">{quote.name}</p>
+          <p>
+            <a href={`mailto:${quote.email}`} className="hover:underline">{quote.email}</a>
+          </p>
+          <p>
+            <a href={`tel:${quote.phone}`} className="hover:underline">{quote.phone}</a>
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Avanzamento</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {quote.siteVisitAt && (
+            <p>
+              <span className="font-semibold">Sopralluogo:</span> {formatDate(quote.siteVisitAt)}
+            </p>
+          )}
+          {quote.adminNotes && (
+            <p className="whitespace-pre-line">
+              <span className="font-semibold">Note interne:</span> {quote.adminNotes}
+            </p>
+          )}
+          {transitions.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {transitions.map((status) => (
+                <Button
+                  key={status}
+                  variant={status === "declined" ? "outline" : "default"}
+                  onClick={() => openTransition(status)}
+                >
+                  {QUOTE_STATUS_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">La richiesta è chiusa.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={nextStatus !== null} onOpenChange={(open) => !open && setNextStatus(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nextStatus && `Passa a "${QUOTE_STATUS_LABELS[nextStatus]}"`}
+            </DialogTitle>
+            <DialogDescription>
+              Lo stato della richiesta di {quote.name} verrà aggiornato.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {nextStatus === "site_visit_scheduled" && (
+              <div className="space-y-2">
+                <Label htmlFor="site-visit-at">Data e ora del sopralluogo</Label>
+                <Input
+                  id="site-visit-at"
+                  type="datetime-local"
+                  value={siteVisitAt}
+                  onChange={(e) => setSiteVisitAt(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="admin-notes">Note interne</Label>
+              <Textarea
+                id="admin-notes"
+                value={adminNotes}
+                onChange={(e) => setAdminNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNextStatus(null)}>
+              Annulla
+            </Button>
+            <Button
+              disabled={
+                updateStatus.isPending ||
+                (nextStatus === "site_visit_scheduled" && !siteVisitAt)
+              }
+              onClick={() => nextStatus && updateStatus.mutate(nextStatus)}
+            >
+              {updateStatus.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Conferma
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
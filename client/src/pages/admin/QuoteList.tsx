@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { quoteStatuses, type QuoteRequest, type QuoteStatus } from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QUOTE_STATUS_LABELS } from "@/lib/constants";
+
+export function QuoteList() {
+  const [status, setStatus] = useState<QuoteStatus | "all">("all");
+  const { data: quotes, isLoading, error } = useQuery<QuoteRequest[]>({
+    queryKey: [status === "all" ? "/api/quotes" : `/api/quotes?status=${status}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Richieste di preventivo</h1>
+        <p className="text-muted-foreground">
+          Segui ogni richiesta dal primo contatto al preventivo accettato.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={status === "all" ? "default" : "outline"}
+          onClick={() => setStatus("all")}
+        >
+          Tutte
+        </Button>
+        {quoteStatuses.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={status === value ? "default" : "outline"}
+            onClick={() => setStatus(value)}
+          >
+            {QUOTE_STATUS_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento delle richieste.
+        </div>
+      ) : quotes?.length === 0 ? (
+        <p className="text-muted-foreground text-center py-12">Nessuna richiesta.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Ricevuta</TableHead>
+              <TableHead>Cliente</TableHead>
+              <TableHead>Intervento</TableHead>
+              <TableHead>Indirizzo</TableHead>
+              <TableHead>Stato</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {quotes?.map((quote) => (
+              <TableRow key={quote.id}>
+                <TableCell>
+                  {format(new Date(quote.createdAt), "d MMM yyyy", { locale: it })}
+                </TableCell>
+                <TableCell className="font-medium">
+                  <Link href={`/preventivi/${quote.id}`} className="hover:underline">
+                    {quote.name}
+                  </Link>
+                </TableCell>
+                <TableCell className="capitalize">{quote.serviceType}</TableCell>
+                <TableCell>{quote.address}</TableCell>
+                <TableCell>
+                  <Badge variant={quote.status === "new" ? "default" : "secondary"}>
+                    {QUOTE_STATUS_LABELS[quote.status]}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Check, Loader2, Trash2, X } from "lucide-react";
+import {
+  testimonialStatuses,
+  type Testimonial,
+  type TestimonialStatus,
+  type TestimonialWithProject,
+} from "@db/schema";
+import { RatingStars } from "@/components/testimonials/RatingStars";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { TESTIMONIAL_STATUS_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function TestimonialList() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TestimonialStatus>("pending");
+  const { data: testimonials, isLoading, error } = useQuery<TestimonialWithProject[]>({
+    queryKey: [`/api/testimonials/moderation?status=${status}`],
+  });
+
+  function onModerated() {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/testimonials"),
+    });
+  }
+
+  const moderate = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: TestimonialStatus }) =>
+      apiRequest<Testimonial>("PATCH", `/api/testimonials/${id}`, { status }),
+    onSuccess: (updated) => {
+      onModerated();
+      toast({
+        title: updated.status === "approved" ? "Testimonianza pubblicata" : "Testimonianza aggiornata",
+      });
+    },
+    onError: (moderateError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Aggiornamento non riuscito",
+        description: moderateError.message,
+      });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/testimonials/${id}`),
+    onSuccess: () => {
+      onModerated();
+      toast({ title: "Testimonianza eliminata" });
+    },
+    onError: (removeError: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Eliminazione non riuscita",
+        description: removeError.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Testimonianze</h1>
+        <p className="text-muted-foreground">
+          Le testimonianze inviate dai clienti compaiono sul sito solo dopo l'approvazione.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {testimonialStatuses.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={status === value ? "default" : "outline"}
+            onClick={() => setStatus(value)}
+          >
+            {TESTIMONIAL_STATUS_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-12">
+          Si è verificato un errore nel caricamento delle testimonianze.
+        </div>
+      ) : testimonials?.length === 0 ? (
+        <p className="text-muted-foreground text-center py-12">Nessuna testimonianza.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {testimonials?.map((testimonial) => (
+            <Card key={testimonial.id}>
+              <CardHeader className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <RatingStars value={testimonial.rating} />
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(testimonial.createdAt), "d MMM yyyy", { locale: it })}
+                  </span>
+                </div>
+                <div className="text-sm">
+                  <span className="font-semibold">{testimonial.author}</span>
+                  {testimonial.role && <span className="text-muted-foreground">, {testimonial.role}</span>}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {testimonial.project && (
+                    <Badge variant="outline">{testimonial.project.title}</Badge>
+                  )}
+                  {!testimonial.consent && (
+                    <Badge variant="destructive">Senza consenso</Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <blockquote className="italic text-muted-foreground whitespace-pre-line">
+                  {testimonial.quote}
+                </blockquote>
+                <div className="flex flex-wrap gap-2">
+                  {testimonial.status !== "approved" && (
+                    <Button
+                      size="sm"
+                      disabled={moderate.isPending || !testimonial.consent}
+                      onClick={() => moderate.mutate({ id: testimonial.id, status: "approved" })}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Approva
+                    </Button>
+                  )}
+                  {testimonial.status !== "rejected" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={moderate.isPending}
+                      onClick={() => moderate.mutate({ id: testimonial.id, status: "rejected" })}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      {testimonial.status === "approved" ? "Ritira" : "Rifiuta"}
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={remove.isPending}
+                    onClick={() => {
+                      if (window.confirm("Eliminare definitivamente questa testimonianza?")) {
+                        remove.mutate(testimonial.id);
+                      }
+                    }}
+                    aria-label="Elimina"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
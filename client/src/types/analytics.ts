@@ -0,0 +1,20 @@
+import type { AnalyticsCta } from "@db/schema";
+
+/** GET /api/analytics: the dashboard data for the chosen period. */
+export interface AnalyticsSummary {
+  since: string;
+  totals: {
+    pageViews: number;
+    projectViews: number;
+    ctaClicks: number;
+    formSubmissions: number;
+  };
+  /** One entry per day, oldest first; dates are YYYY-MM-DD. */
+  traffic: { date: string; pageViews: number; formSubmissions: number }[];
+  topPages: { path: string; views: number }[];
+  /** The title is missing for projects deleted since. */
+  topProjects: { slug: string; title: string | null; views: number }[];
+  referrers: { host: string; views: number }[];
+  ctaClicks: { cta: AnalyticsCta; clicks: number }[];
+  conversions: { path: string; pageViews: number; contactForms: number; quoteForms: number }[];
+}
@@ -1,14 +1,55 @@
+import type {
+  BeforeAfterPair,
+  CaseHistoryStatus,
+  CaseHistoryTestimonial,
+  ProjectTranslations,
+} from "@db/schema";
+
 export interface Project {
-  id: string;
+  id: number;
+  slug: string;
   title: string;
   description: string;
   category: 'restauro' | 'costruzione' | 'ristrutturazione';
   image: string;
   year: number;
   location: string;
-  client?: string;
-  duration?: string;
-  techniques?: string[];
-  gallery?: string[];
-  details?: string;
+  client: string | null;
+  duration: string | null;
+  techniques: string[];
+  gallery: string[];
+  beforeAfter: BeforeAfterPair[];
+  details: string | null;
+  /** English and German texts; the public API has already applied them. */
+  translations: ProjectTranslations;
+}
+
+export interface ProjectLink {
+  slug: string;
+  title: string;
+}
+
+export interface ProjectWithNeighbours extends Project {
+  previous: ProjectLink | null;
+  next: ProjectLink | null;
+}
+
+export interface CaseHistory {
+  id: number;
+  slug: string;
+  projectId: number | null;
+  title: string;
+  description: string;
+  category: Project['category'];
+  image: string;
+  year: number;
+  location: string;
+  client: string | null;
+  challenge: string;
+  solution: string;
+  results: string[];
+  gallery: string[];
+  beforeAfter: BeforeAfterPair[];
+  status: CaseHistoryStatus;
+  testimonial: CaseHistoryTestimonial | null;
 }
@@ -0,0 +1,44 @@
+import { eq } from "drizzle-orm";
+import { db } from "./index";
+import { insertUserSchema, users } from "./schema";
+import { hashPassword } from "../server/utils/password";
+
+// Usage: npm run db:create-admin -- <username> <password>
+const createAdmin = async () => {
+  const [username, password] = process.argv.slice(2);
+  const result = insertUserSchema.safeParse({ username, password, role: "admin" });
+
+  if (!result.success) {
+    console.error("Usage: npm run db:create-admin -- <username> <password>");
+    for (const issue of result.error.issues) {
+      console.error(`  ${issue.path.join(".")}: ${issue.message}`);
+    }
+    process.exit(1);
+  }
+
+  try {
+    const [existing] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, result.data.username))
+      .limit(1);
+
+    if (existing) {
+      console.error(`User "${result.data.username}" already exists`);
+      process.exit(1);
+    }
+
+    await db.insert(users).values({
+      username: result.data.username,
+      password: await hashPassword(result.data.password),
+      role: "admin",
+    });
+    console.log(`Admin user "${result.data.username}" created`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Failed to create admin user:", error);
+    process.exit(1);
+  }
+};
+
+createAdmin();
@@ -1 +1,15 @@
+import { migrate } from "drizzle-orm/postgres-js/migrator";
+import { db } from "./index";
 
+const runMigrations = async () => {
+  try {
+    await migrate(db, { migrationsFolder: "./drizzle" });
+    console.log("Migrations applied successfully");
+    process.exit(0);
+  } catch (error) {
+    console.error("Failed to apply migrations:", error);
+    process.exit(1);
+  }
+};
+
+runMigrations();
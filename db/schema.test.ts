@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { insertContactSubmissionSchema, localizePath, updateCompanySettingsSchema } from "./schema";
+
+const submission = {
+  name: "Mario Rossi",
+  email: "mario.rossi@example.it",
+  phone: "0432 123456",
+  message: "Vorrei un preventivo per rifare il tetto.",
+};
+
+describe("insertContactSubmissionSchema", () => {
+  it("accepts a complete submission and trims it", () => {
+    expect(insertContactSubmissionSchema.parse({ ...submission, name: "  Mario Rossi " })).toEqual(submission);
+  });
+
+  it("rejects short or malformed fields", () => {
+    const result = insertContactSubmissionSchema.safeParse({ name: "M", email: "mario", phone: "123", message: "Ciao" });
+    expect(result.success).toBe(false);
+    expect(Object.keys(result.error!.flatten().fieldErrors).sort()).toEqual(["email", "message", "name", "phone"]);
+  });
+
+  it("drops the fields the server sets", () => {
+    expect(insertContactSubmissionSchema.parse({ ...submission, handledAt: new Date() })).toEqual(submission);
+  });
+});
+
+describe("localizePath", () => {
+  it("leaves Italian paths unprefixed", () => {
+    expect(localizePath("/", "it")).toBe("/");
+    expect(localizePath("/realizzazioni", "it")).toBe("/realizzazioni");
+  });
+
+  it("prefixes the other locales", () => {
+    expect(localizePath("/realizzazioni", "en")).toBe("/en/realizzazioni");
+    expect(localizePath("/realizzazioni/tetto-udine", "de")).toBe("/de/realizzazioni/tetto-udine");
+  });
+
+  it("maps the home page to the bare locale prefix", () => {
+    expect(localizePath("/", "en")).toBe("/en");
+    expect(localizePath("/", "de")).toBe("/de");
+  });
+});
+
+describe("updateCompanySettingsSchema social links", () => {
+  const social = updateCompanySettingsSchema.shape.social;
+
+  it("accepts web addresses and clears empty ones", () => {
+    expect(social.parse({ facebook: " https://www.facebook.com/dfrestauri ", instagram: "" })).toEqual({
+      facebook: "https://www.facebook.com/dfrestauri",
+    });
+  });
+
+  it("rejects links that are not http or https", () => {
+    expect(social.safeParse({ facebook: "javascript:alert(1)" }).success).toBe(false);
+    expect(social.safeParse({ linkedin: "data:text/html,<script>alert(1)</script>" }).success).toBe(false);
+  });
+});
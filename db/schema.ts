@@ -1,10 +1,819 @@
-model Project {
+import { boolean, date, integer, jsonb, pgTable, primaryKey, serial, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
 
-   id String @id @default(cuuid())
+// Content is written in Italian; the other languages fall back to it
+// wherever a translation is missing.
+export const locales = ["it", "en", "de"] as const;
+export type Locale = (typeof locales)[number];
+export const DEFAULT_LOCALE: Locale = "it";
 
-     createdAt Datatime @default
+export function isLocale(value: unknown): value is Locale {
+  return locales.includes(value as Locale);
+}
 
-     UpdatedAt  DataTime @updated
+// Italian pages keep their unprefixed paths; the others live under /en, /de.
+export function localizePath(path: string, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) {
+    return path;
+  }
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
 
+export const userRoles = ["admin", "editor"] as const;
+export type UserRole = (typeof userRoles)[number];
 
-     }
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 255 }).notNull().unique(),
+  password: text("password").notNull(),
+  role: varchar("role", { length: 32 }).$type<UserRole>().notNull().default("editor"),
+});
+
+// Every published version of the privacy notice is kept, so each lead
+// records the exact text the person agreed to.
+export const privacyPolicies = pgTable("privacy_policies", {
+  version: serial("version").primaryKey(),
+  body: text("body").notNull(),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+  publishedBy: integer("published_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+export const contactSubmissions = pgTable("contact_submissions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone").notNull(),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  handledAt: timestamp("handled_at"),
+  // Set when the message is received; the admin can move it in or out of
+  // the spam folder afterwards.
+  spamScore: integer("spam_score").notNull().default(0),
+  spamReasons: jsonb("spam_reasons").$type<string[]>().notNull().default([]),
+  isSpam: boolean("is_spam").notNull().default(false),
+  privacyPolicyVersion: integer("privacy_policy_version").references(() => privacyPolicies.version),
+  consentedAt: timestamp("consented_at"),
+});
+
+export const projectCategories = ["restauro", "costruzione", "ristrutturazione"] as const;
+export type ProjectCategory = (typeof projectCategories)[number];
+
+// A "prima/dopo" photo pair. Both images are stored at the same size so the
+// comparison slider can overlay them exactly.
+export interface BeforeAfterPair {
+  before: string;
+  after: string;
+  caption?: string;
+}
+
+export interface ProjectTranslation {
+  title?: string;
+  description?: string;
+  details?: string;
+  techniques?: string[];
+}
+
+export type ProjectTranslations = Partial<Record<Locale, ProjectTranslation>>;
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").$type<ProjectCategory>().notNull(),
+  image: text("image").notNull(),
+  year: integer("year").notNull(),
+  location: text("location").notNull(),
+  client: text("client"),
+  duration: text("duration"),
+  techniques: text("techniques").array().notNull().default([]),
+  gallery: text("gallery").array().notNull().default([]),
+  beforeAfter: jsonb("before_after").$type<BeforeAfterPair[]>().notNull().default([]),
+  details: text("details"),
+  translations: jsonb("translations").$type<ProjectTranslations>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const caseHistoryStatuses = ["in_progress", "completed"] as const;
+export type CaseHistoryStatus = (typeof caseHistoryStatuses)[number];
+
+export interface CaseHistoryTestimonial {
+  quote: string;
+  author: string;
+  role?: string;
+}
+
+export const caseHistories = pgTable("case_histories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").$type<ProjectCategory>().notNull(),
+  image: text("image").notNull(),
+  year: integer("year").notNull(),
+  location: text("location").notNull(),
+  client: text("client"),
+  challenge: text("challenge").notNull(),
+  solution: text("solution").notNull(),
+  results: text("results").array().notNull().default([]),
+  gallery: text("gallery").array().notNull().default([]),
+  beforeAfter: jsonb("before_after").$type<BeforeAfterPair[]>().notNull().default([]),
+  status: text("status").$type<CaseHistoryStatus>().notNull().default("completed"),
+  testimonial: jsonb("testimonial").$type<CaseHistoryTestimonial>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const testimonialStatuses = ["pending", "approved", "rejected"] as const;
+export type TestimonialStatus = (typeof testimonialStatuses)[number];
+
+// Submitted by customers through the public form and only shown on the site
+// once approved by an admin.
+export const testimonials = pgTable("testimonials", {
+  id: serial("id").primaryKey(),
+  author: text("author").notNull(),
+  role: text("role"),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  rating: integer("rating").notNull(),
+  quote: text("quote").notNull(),
+  consent: boolean("consent").notNull().default(false),
+  status: text("status").$type<TestimonialStatus>().notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  moderatedAt: timestamp("moderated_at"),
+  moderatedBy: integer("moderated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+export const certificationCategories = ["qualita", "ambiente", "sicurezza", "soa"] as const;
+export type CertificationCategory = (typeof certificationCategories)[number];
+
+// Dates are kept as YYYY-MM-DD strings: certificates are valid for whole days.
+export const certifications = pgTable("certifications", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").$type<CertificationCategory>().notNull(),
+  issuer: text("issuer"),
+  number: text("number"),
+  scope: text("scope"),
+  issuedAt: date("issued_at", { mode: "string" }),
+  expiresAt: date("expires_at", { mode: "string" }),
+  documentFilename: text("document_filename"),
+  documentName: text("document_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Categories of work from the SOA attestation (DPR 207/2010, allegato A):
+// OG are general works, OS specialised ones.
+export const soaCategories = [
+  "OG1", "OG2", "OG3", "OG4", "OG5", "OG6", "OG7", "OG8", "OG9", "OG10", "OG11", "OG12", "OG13",
+  "OS1", "OS2-A", "OS2-B", "OS3", "OS4", "OS5", "OS6", "OS7", "OS8", "OS9", "OS10", "OS11",
+  "OS12-A", "OS12-B", "OS13", "OS14", "OS15", "OS16", "OS17", "OS18-A", "OS18-B", "OS19",
+  "OS20-A", "OS20-B", "OS21", "OS22", "OS23", "OS24", "OS25", "OS26", "OS27", "OS28", "OS29",
+  "OS30", "OS31", "OS32", "OS33", "OS34", "OS35",
+] as const;
+export type SoaCategory = (typeof soaCategories)[number];
+
+export const soaClassifications = ["I", "II", "III", "III-bis", "IV", "IV-bis", "V", "VI", "VII", "VIII"] as const;
+export type SoaClassification = (typeof soaClassifications)[number];
+
+// Largest contract value, in euro, each classifica qualifies for. VIII has
+// no upper limit.
+export const SOA_CLASSIFICATION_AMOUNTS: Record<SoaClassification, number | null> = {
+  I: 258_000,
+  II: 516_000,
+  III: 1_033_000,
+  "III-bis": 1_500_000,
+  IV: 2_582_000,
+  "IV-bis": 3_500_000,
+  V: 5_165_000,
+  VI: 10_329_000,
+  VII: 15_494_000,
+  VIII: null,
+};
+
+// The categories held under an SOA attestation, which is stored as a
+// certification with category "soa" and provides number and validity.
+export const soaQualifications = pgTable("soa_qualifications", {
+  id: serial("id").primaryKey(),
+  certificationId: integer("certification_id")
+    .notNull()
+    .references(() => certifications.id, { onDelete: "cascade" }),
+  category: text("category").$type<SoaCategory>().notNull(),
+  classification: text("classification").$type<SoaClassification>().notNull(),
+});
+
+// One row per section and language.
+export const contentSections = pgTable(
+  "content_sections",
+  {
+    key: varchar("key", { length: 64 }).notNull(),
+    locale: varchar("locale", { length: 2 }).$type<Locale>().notNull().default(DEFAULT_LOCALE),
+    data: jsonb("data").notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.key, table.locale] }),
+  }),
+);
+
+export const weekdays = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+export type Weekday = (typeof weekdays)[number];
+
+export interface OpeningHours {
+  days: Weekday[];
+  /** 24-hour time, e.g. "08:00". */
+  opens: string;
+  closes: string;
+}
+
+export const socialNetworks = ["facebook", "instagram", "linkedin", "youtube", "twitter"] as const;
+export type SocialNetwork = (typeof socialNetworks)[number];
+export type SocialLinks = Partial<Record<SocialNetwork, string>>;
+
+// The company's details as shown across the site. There is a single row,
+// with id 1.
+export const companySettings = pgTable("company_settings", {
+  id: integer("id").primaryKey().default(1),
+  name: text("name").notNull(),
+  legalName: text("legal_name").notNull(),
+  vatNumber: varchar("vat_number", { length: 11 }).notNull(),
+  phone: text("phone").notNull(),
+  email: text("email").notNull(),
+  pec: text("pec"),
+  street: text("street").notNull(),
+  postalCode: varchar("postal_code", { length: 5 }).notNull(),
+  city: text("city").notNull(),
+  province: varchar("province", { length: 2 }).notNull(),
+  country: varchar("country", { length: 2 }).notNull().default("IT"),
+  logo: text("logo").notNull(),
+  openingHours: jsonb("opening_hours").$type<OpeningHours[]>().notNull().default([]),
+  social: jsonb("social").$type<SocialLinks>().notNull().default({}),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+export const propertyTypes = ["abitazione", "condominio", "edificio_storico", "commerciale", "industriale"] as const;
+export type PropertyType = (typeof propertyTypes)[number];
+
+export const quoteTimeframes = ["urgente", "entro_3_mesi", "entro_6_mesi", "oltre_6_mesi", "da_definire"] as const;
+export type QuoteTimeframe = (typeof quoteTimeframes)[number];
+
+export const quoteStatuses = ["new", "site_visit_scheduled", "quoted", "accepted", "declined"] as const;
+export type QuoteStatus = (typeof quoteStatuses)[number];
+
+// Allowed moves in the quote lifecycle; accepted and declined are final.
+export const quoteStatusTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  new: ["site_visit_scheduled", "declined"],
+  site_visit_scheduled: ["quoted", "declined"],
+  quoted: ["accepted", "declined"],
+  accepted: [],
+  declined: [],
+};
+
+export const quoteRequests = pgTable("quote_requests", {
+  id: serial("id").primaryKey(),
+  serviceType: text("service_type").$type<ProjectCategory>().notNull(),
+  propertyType: text("property_type").$type<PropertyType>().notNull(),
+  address: text("address").notNull(),
+  surface: integer("surface"),
+  timeframe: text("timeframe").$type<QuoteTimeframe>().notNull(),
+  description: text("description").notNull(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone").notNull(),
+  status: text("status").$type<QuoteStatus>().notNull().default("new"),
+  siteVisitAt: timestamp("site_visit_at"),
+  adminNotes: text("admin_notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  statusChangedAt: timestamp("status_changed_at").defaultNow().notNull(),
+  privacyPolicyVersion: integer("privacy_policy_version").references(() => privacyPolicies.version),
+  consentedAt: timestamp("consented_at"),
+});
+
+export const quoteAttachments = pgTable("quote_attachments", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id")
+    .notNull()
+    .references(() => quoteRequests.id, { onDelete: "cascade" }),
+  originalName: text("original_name").notNull(),
+  filename: text("filename").notNull(),
+  thumbnailFilename: text("thumbnail_filename").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  size: integer("size").notNull(),
+  placeholder: text("placeholder"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const emailStatuses = ["pending", "sent", "failed"] as const;
+export type EmailStatus = (typeof emailStatuses)[number];
+
+// Outgoing email, rendered when queued. Messages that cannot be delivered
+// stay pending and are retried until they run out of attempts.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  template: text("template").notNull(),
+  recipient: text("recipient").notNull(),
+  replyTo: text("reply_to"),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: text("status").$type<EmailStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Necessary cookies (the admin session, the consent choice itself) need no
+// consent; the other categories stay off until the visitor opts in.
+export const cookieCategories = ["necessary", "statistics", "marketing"] as const;
+export type CookieCategory = (typeof cookieCategories)[number];
+export type OptionalCookieCategory = Exclude<CookieCategory, "necessary">;
+
+// Raised when the categories or the services behind them change, so every
+// visitor is asked again.
+export const COOKIE_CONSENT_VERSION = 1;
+
+// Every choice made on the cookie banner, kept as proof of consent. The
+// visitor is only known by the random id stored in their consent cookie.
+export const cookieConsents = pgTable("cookie_consents", {
+  id: serial("id").primaryKey(),
+  consentId: uuid("consent_id").notNull(),
+  version: integer("version").notNull(),
+  statistics: boolean("statistics").notNull(),
+  marketing: boolean("marketing").notNull(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Proof that an erasure request was carried out. The address itself is gone
+// with the data; only its SHA-256 hash is kept, so a repeated request can be
+// matched without storing the address again.
+export const personalDataErasures = pgTable("personal_data_erasures", {
+  id: serial("id").primaryKey(),
+  emailHash: text("email_hash").notNull(),
+  contactSubmissions: integer("contact_submissions").notNull(),
+  quoteRequests: integer("quote_requests").notNull(),
+  emails: integer("emails").notNull(),
+  erasedBy: integer("erased_by").references(() => users.id, { onDelete: "set null" }),
+  erasedAt: timestamp("erased_at").defaultNow().notNull(),
+});
+
+export const analyticsEventTypes = ["page_view", "project_view", "cta_click", "form_submit"] as const;
+export type AnalyticsEventType = (typeof analyticsEventTypes)[number];
+
+// The calls to action and forms the site reports on.
+export const analyticsCtas = ["quote", "hero-contact", "phone", "email"] as const;
+export type AnalyticsCta = (typeof analyticsCtas)[number];
+export const analyticsForms = ["contact", "quote", "testimonial"] as const;
+export type AnalyticsForm = (typeof analyticsForms)[number];
+
+// First-party analytics. An event says what happened on which page, never
+// who did it: no cookie, no IP address, and the referrer is reduced to its
+// host. "target" is the project slug, the call to action or the form.
+export const analyticsEvents = pgTable("analytics_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").$type<AnalyticsEventType>().notNull(),
+  path: text("path").notNull(),
+  locale: text("locale").$type<Locale>().notNull(),
+  referrer: text("referrer"),
+  target: text("target"),
+  // With the time zone, so the dashboard can count days as they are in Italy.
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(userRoles).optional(),
+});
+export const selectUserSchema = createSelectSchema(users);
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+// Shared by the contact form in the client and by POST /api/contact, so the
+// messages shown to the visitor and the server-side checks never drift apart.
+// The messages of the public forms are "validation.*" keys of the client
+// catalogs, which FormMessage shows in the visitor's language.
+export const insertContactSubmissionSchema = createInsertSchema(contactSubmissions, {
+  name: z.string().trim().min(2, "validation.name"),
+  email: z.string().trim().email("validation.email"),
+  phone: z.string().trim().min(6, "validation.phone"),
+  message: z.string().trim().min(10, "validation.message"),
+}).pick({ name: true, email: true, phone: true, message: true });
+export const selectContactSubmissionSchema = createSelectSchema(contactSubmissions);
+export type ContactSubmission = typeof contactSubmissions.$inferSelect;
+export type NewContactSubmission = z.infer<typeof insertContactSubmissionSchema>;
+
+export const publishPrivacyPolicySchema = createInsertSchema(privacyPolicies, {
+  body: z.string().trim().min(200, "L'informativa deve contenere almeno 200 caratteri"),
+}).pick({ body: true });
+export type PrivacyPolicy = typeof privacyPolicies.$inferSelect;
+export type PublishedPrivacyPolicy = Pick<PrivacyPolicy, "version" | "body" | "publishedAt">;
+
+// Posted by the public forms that collect personal data: the agreement to
+// the privacy notice and the version the visitor was shown.
+export const privacyConsentSchema = z.object({
+  privacyConsent: z
+    .boolean()
+    .refine((consent) => consent, "validation.privacyConsent"),
+  privacyPolicyVersion: z.number().int().positive(),
+});
+
+export const cookieConsentSchema = createInsertSchema(cookieConsents, {
+  version: z.literal(COOKIE_CONSENT_VERSION),
+}).pick({ consentId: true, version: true, statistics: true, marketing: true });
+export type CookieConsentChoice = z.infer<typeof cookieConsentSchema>;
+
+// How long personal data is kept before it is purged automatically, in days.
+export const DATA_RETENTION_DAYS = {
+  /** Contact messages, from when they were received. */
+  contactSubmissions: 730,
+  /** Messages in the spam folder. */
+  spam: 30,
+  /** Quote requests that did not become a job, from their last status change. */
+  quoteRequests: 730,
+  /** Accepted quotes are contract records, kept for ten years. */
+  acceptedQuoteRequests: 3650,
+  /** Copies of the emails sent to customers and to the office. */
+  emails: 90,
+  /** Choices made on the cookie banner. */
+  cookieConsents: 730,
+};
+
+// Anti-spam fields posted by the public forms and never stored. "website" is
+// hidden from people, so only bots fill it in; "elapsedMs" is how long the
+// form was shown before it was sent, as measured by the browser. A malformed
+// fill time is read as a missing one, which the spam checks treat as a bot,
+// rather than answered with a validation error that tells the bot what to fix.
+export const antiSpamSchema = z.object({
+  website: z.string().optional(),
+  elapsedMs: z.number().int().nonnegative().optional().catch(undefined),
+});
+export type AntiSpamFields = z.infer<typeof antiSpamSchema>;
+
+// What the public contact form posts: the submission, the privacy consent
+// and the anti-spam fields.
+export const contactFormSchema = insertContactSubmissionSchema.merge(antiSpamSchema).merge(privacyConsentSchema);
+export type ContactFormData = z.infer<typeof contactFormSchema>;
+
+const requiredText = z.string().trim().min(1, "Campo obbligatorio");
+
+export const slugSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Usa solo lettere minuscole, numeri e trattini");
+
+// Paths are sent without the locale prefix, e.g. /servizi for /en/servizi.
+const analyticsEventBase = z.object({
+  path: z.string().startsWith("/").max(300),
+  locale: z.enum(locales),
+});
+
+export const analyticsEventSchema = z.discriminatedUnion("type", [
+  analyticsEventBase.extend({ type: z.literal("page_view"), referrer: z.string().max(2000).optional() }),
+  analyticsEventBase.extend({ type: z.literal("project_view"), target: slugSchema }),
+  analyticsEventBase.extend({ type: z.literal("cta_click"), target: z.enum(analyticsCtas) }),
+  analyticsEventBase.extend({ type: z.literal("form_submit"), target: z.enum(analyticsForms) }),
+]);
+export type AnalyticsEventInput = z.infer<typeof analyticsEventSchema>;
+
+export const beforeAfterPairSchema = z.object({
+  before: requiredText,
+  after: requiredText,
+  caption: z.string().trim().optional(),
+});
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform((value) => value || undefined)
+  .optional();
+
+export const projectTranslationSchema = z.object({
+  title: optionalText,
+  description: optionalText,
+  details: optionalText,
+  techniques: z.array(requiredText).optional(),
+});
+
+// Italian lives in the project's own columns, so only the other languages
+// can be translated.
+export const updateProjectTranslationsSchema = z.object({
+  en: projectTranslationSchema.optional(),
+  de: projectTranslationSchema.optional(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  slug: slugSchema,
+  category: z.enum(projectCategories),
+  year: z.number().int().min(1900).max(2100),
+  beforeAfter: z.array(beforeAfterPairSchema),
+  translations: updateProjectTranslationsSchema,
+});
+export const selectProjectSchema = createSelectSchema(projects);
+export type ProjectRecord = typeof projects.$inferSelect;
+export type NewProjectRecord = typeof projects.$inferInsert;
+
+export const caseHistoryTestimonialSchema = z.object({
+  quote: z.string().trim().min(10, "La testimonianza deve contenere almeno 10 caratteri"),
+  author: requiredText,
+  role: z.string().trim().optional(),
+});
+
+export const insertCaseHistorySchema = createInsertSchema(caseHistories, {
+  slug: slugSchema,
+  projectId: z.number().int().positive().nullable().optional(),
+  title: requiredText,
+  description: requiredText,
+  category: z.enum(projectCategories, { required_error: "Seleziona la categoria" }),
+  image: requiredText,
+  year: z.number().int().min(1900).max(2100),
+  location: requiredText,
+  client: z.string().trim().nullable().optional(),
+  challenge: requiredText,
+  solution: requiredText,
+  results: z.array(requiredText),
+  gallery: z.array(requiredText),
+  beforeAfter: z.array(beforeAfterPairSchema),
+  status: z.enum(caseHistoryStatuses),
+  testimonial: caseHistoryTestimonialSchema.nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export type CaseHistoryRecord = typeof caseHistories.$inferSelect;
+export type NewCaseHistory = z.infer<typeof insertCaseHistorySchema>;
+
+export const insertTestimonialSchema = createInsertSchema(testimonials, {
+  author: z.string().trim().min(2, "validation.name"),
+  role: z.string().trim().max(120).optional(),
+  rating: z
+    .number({ required_error: "validation.rating" })
+    .int()
+    .min(1, "validation.rating")
+    .max(5),
+  quote: z
+    .string()
+    .trim()
+    .min(20, "validation.testimonialTooShort")
+    .max(1500, "validation.testimonialTooLong"),
+  consent: z.boolean().refine((consent) => consent, "validation.testimonialConsent"),
+})
+  .pick({ author: true, role: true, rating: true, quote: true, consent: true })
+  .extend({ projectSlug: slugSchema.optional() });
+export type Testimonial = typeof testimonials.$inferSelect;
+export type NewTestimonial = z.infer<typeof insertTestimonialSchema>;
+
+export const testimonialFormSchema = insertTestimonialSchema.merge(antiSpamSchema);
+
+// What the public carousel receives: no moderation data.
+export type PublicTestimonial = Pick<Testimonial, "id" | "author" | "role" | "rating" | "quote" | "createdAt"> & {
+  project: { slug: string; title: string } | null;
+};
+export type TestimonialWithProject = Testimonial & {
+  project: { slug: string; title: string } | null;
+};
+
+export const moderateTestimonialSchema = z.object({
+  status: z.enum(testimonialStatuses),
+});
+
+export const insertCertificationSchema = createInsertSchema(certifications, {
+  title: requiredText,
+  description: requiredText,
+  category: z.enum(certificationCategories, { required_error: "Seleziona la categoria" }),
+  number: z.string().trim().nullable().optional(),
+  scope: z.string().trim().nullable().optional(),
+  expiresAt: z.string().date("Inserisci una data valida").nullable().optional(),
+})
+  .pick({
+    title: true,
+    description: true,
+    category: true,
+    number: true,
+    scope: true,
+    expiresAt: true,
+  })
+  // Nullable in the table for the records imported without them, but
+  // required for anything entered from now on.
+  .extend({
+    issuer: requiredText,
+    issuedAt: z.string().date("Inserisci una data valida"),
+  })
+  .refine((certification) => !certification.expiresAt || certification.expiresAt > certification.issuedAt, {
+    message: "La scadenza deve essere successiva all'emissione",
+    path: ["expiresAt"],
+  });
+export type Certification = typeof certifications.$inferSelect;
+export type NewCertification = z.infer<typeof insertCertificationSchema>;
+
+// Certificates expiring within this many days are flagged in the admin area.
+export const CERTIFICATION_EXPIRY_WARNING_DAYS = 90;
+
+export const certificationDocumentLimits = {
+  maxFileSize: 20 * 1024 * 1024,
+  mimeTypes: ["application/pdf"],
+};
+
+export const soaQualificationSchema = z.object({
+  category: z.enum(soaCategories, { required_error: "validation.soaCategory" }),
+  classification: z.enum(soaClassifications, { required_error: "validation.soaClassification" }),
+});
+
+export const updateSoaQualificationsSchema = z.object({
+  qualifications: z
+    .array(soaQualificationSchema)
+    .refine(
+      (qualifications) => new Set(qualifications.map(({ category }) => category)).size === qualifications.length,
+      "validation.soaDuplicateCategory",
+    ),
+});
+export type SoaQualification = typeof soaQualifications.$inferSelect;
+export type SoaQualificationWithAttestation = SoaQualification & {
+  attestation: Pick<Certification, "id" | "title" | "issuer" | "number" | "issuedAt" | "expiresAt">;
+};
+
+export const projectFiltersSchema = z.object({
+  category: z.enum(projectCategories).optional(),
+  year: z.coerce.number().int().optional(),
+  location: z.string().trim().min(1).optional(),
+});
+
+export const insertQuoteRequestSchema = createInsertSchema(quoteRequests, {
+  serviceType: z.enum(projectCategories, { required_error: "validation.serviceType" }),
+  propertyType: z.enum(propertyTypes, { required_error: "validation.propertyType" }),
+  address: z.string().trim().min(5, "validation.address"),
+  surface: z.number().int().positive("validation.surface").max(100000).optional(),
+  timeframe: z.enum(quoteTimeframes, { required_error: "validation.timeframe" }),
+  description: z.string().trim().min(10, "validation.description"),
+  name: z.string().trim().min(2, "validation.name"),
+  email: z.string().trim().email("validation.email"),
+  phone: z.string().trim().min(6, "validation.phone"),
+}).pick({
+  serviceType: true,
+  propertyType: true,
+  address: true,
+  surface: true,
+  timeframe: true,
+  description: true,
+  name: true,
+  email: true,
+  phone: true,
+});
+export type QuoteRequest = typeof quoteRequests.$inferSelect;
+export type NewQuoteRequest = z.infer<typeof insertQuoteRequestSchema>;
+
+export const quoteRequestFormSchema = insertQuoteRequestSchema.merge(antiSpamSchema).merge(privacyConsentSchema);
+export type QuoteRequestFormData = z.infer<typeof quoteRequestFormSchema>;
+
+export type QuoteAttachment = typeof quoteAttachments.$inferSelect;
+export type QuoteRequestWithAttachments = QuoteRequest & { attachments: QuoteAttachment[] };
+
+export type OutgoingEmail = typeof emailOutbox.$inferSelect;
+export type NewOutgoingEmail = typeof emailOutbox.$inferInsert;
+
+// Limits for the photos customers attach to a quote request, enforced by the
+// upload middleware and checked up front by the form.
+export const quotePhotoLimits = {
+  maxFiles: 8,
+  maxFileSize: 10 * 1024 * 1024,
+  mimeTypes: ["image/jpeg", "image/png", "image/webp"],
+};
+
+// Intrinsic size and blurred preview of a static image or upload, served by
+// /api/images/metadata?src=<its URL>.
+export interface ImageManifestEntry {
+  width: number;
+  height: number;
+  placeholder: string;
+}
+
+export const updateQuoteStatusSchema = z.object({
+  status: z.enum(quoteStatuses),
+  siteVisitAt: z.coerce.date().optional(),
+  adminNotes: z.string().trim().optional(),
+});
+
+export const contentBlockSchema = z.object({
+  title: requiredText,
+  content: requiredText,
+  items: z.array(requiredText).optional(),
+  points: z.array(requiredText).optional(),
+});
+
+// Shape of each editable section served by /api/content/:section. The admin
+// editor validates against the same schemas before saving.
+export const contentSectionSchemas = {
+  about: z.object({
+    storia: contentBlockSchema,
+    valori: contentBlockSchema,
+    mission: contentBlockSchema,
+    vision: contentBlockSchema,
+  }),
+  team: z.object({
+    intro: contentBlockSchema,
+    members: z.array(
+      z.object({
+        name: requiredText,
+        role: requiredText,
+        avatar: requiredText,
+        social: z.object({
+          facebook: z.string().trim().optional(),
+          twitter: z.string().trim().optional(),
+          instagram: z.string().trim().optional(),
+        }),
+      }),
+    ),
+  }),
+  services: z.object({
+    intro: contentBlockSchema,
+    home: contentBlockSchema,
+    items: z.array(
+      z.object({
+        id: z.enum(projectCategories),
+        title: requiredText,
+        description: requiredText,
+        longDescription: requiredText,
+        features: z.array(requiredText),
+      }),
+    ),
+    cta: contentBlockSchema,
+  }),
+  sostenibilita: z.object({
+    intro: contentBlockSchema,
+    initiatives: z.array(
+      z.object({
+        title: requiredText,
+        description: requiredText,
+      }),
+    ),
+  }),
+  certificazioni: z.object({
+    intro: contentBlockSchema,
+    commitment: contentBlockSchema,
+  }),
+};
+
+export const contentSectionKeys = Object.keys(contentSectionSchemas) as ContentSectionKey[];
+export type ContentSectionKey = keyof typeof contentSectionSchemas;
+export type ContentSectionData<K extends ContentSectionKey> = z.infer<(typeof contentSectionSchemas)[K]>;
+export type ContentSectionRecord = typeof contentSections.$inferSelect;
+
+export function isContentSectionKey(key: string): key is ContentSectionKey {
+  return Object.prototype.hasOwnProperty.call(contentSectionSchemas, key);
+}
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Usa il formato hh:mm");
+
+export const openingHoursSchema = z
+  .object({
+    days: z.array(z.enum(weekdays)).min(1, "Seleziona almeno un giorno"),
+    opens: timeSchema,
+    closes: timeSchema,
+  })
+  .refine((hours) => hours.closes > hours.opens, {
+    message: "L'orario di chiusura deve seguire quello di apertura",
+    path: ["closes"],
+  });
+
+const socialUrl = z
+  .string()
+  .trim()
+  .url("Inserisci un indirizzo completo, es. https://www.facebook.com/...")
+  // The link is rendered as an href: other schemes such as javascript: would run on click.
+  .regex(/^https?:\/\//i, "L'indirizzo deve iniziare con http:// o https://")
+  .optional()
+  .or(z.literal("").transform(() => undefined));
+
+export const updateCompanySettingsSchema = createInsertSchema(companySettings, {
+  name: requiredText,
+  legalName: requiredText,
+  vatNumber: z.string().trim().regex(/^\d{11}$/, "La partita IVA deve avere 11 cifre"),
+  phone: requiredText,
+  email: z.string().trim().email("Email non valida"),
+  street: requiredText,
+  postalCode: z.string().trim().regex(/^\d{5}$/, "Il CAP deve avere 5 cifre"),
+  city: requiredText,
+  province: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Usa la sigla, es. UD"),
+  country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Usa il codice ISO, es. IT"),
+  logo: requiredText,
+  openingHours: z.array(openingHoursSchema),
+  social: z.object(Object.fromEntries(socialNetworks.map((network) => [network, socialUrl]))) as z.ZodType<SocialLinks>,
+})
+  .omit({ id: true, updatedAt: true, updatedBy: true })
+  // The PEC is optional but must be an address when given.
+  .extend({
+    pec: z.string().trim().email("PEC non valida").nullable().or(z.literal("").transform(() => null)),
+  });
+export type CompanySettings = typeof companySettings.$inferSelect;
+export type CompanySettingsInput = z.infer<typeof updateCompanySettingsSchema>;
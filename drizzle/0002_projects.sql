@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS projects (
+  id SERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  image TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  location TEXT NOT NULL,
+  client TEXT,
+  duration TEXT,
+  techniques TEXT[] NOT NULL DEFAULT '{}',
+  gallery TEXT[] NOT NULL DEFAULT '{}',
+  details TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS projects_category_year_idx ON projects (category, year DESC);
+--> statement-breakpoint
+INSERT INTO projects (title, description, category, image, year, location) VALUES
+  ('Restauro Palazzo Storico Veneziano', 'Intervento di restauro conservativo su palazzo del XVI secolo', 'restauro', '/images/chi-siamo/about-company.jpeg', 2023, 'Venezia'),
+  ('Complesso Residenziale Moderno', 'Costruzione di complesso residenziale eco-sostenibile', 'costruzione', '/images/construction/construction-1.jpg', 2023, 'Milano'),
+  ('Ristrutturazione Villa Liberty', 'Ristrutturazione completa con adeguamento energetico', 'ristrutturazione', 'https://pixabay.com/get/gc92d5d4f7a9e12c26b730f7c5ae267d44a0c7d38ba451a17011a0dfd32a4bae2608b6f8a30ab096ff3e3c1d7b96846a24fda806bf40ca7373dde9c3ba6d0ecfd_1280.jpg', 2022, 'Roma');
@@ -0,0 +1,9 @@
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(32) NOT NULL DEFAULT 'editor';
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "session" (
+  sid VARCHAR NOT NULL PRIMARY KEY,
+  sess JSON NOT NULL,
+  expire TIMESTAMP(6) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS session_expire_idx ON "session" (expire);
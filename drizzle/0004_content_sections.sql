@@ -0,0 +1,138 @@
+CREATE TABLE IF NOT EXISTS content_sections (
+  key VARCHAR(64) PRIMARY KEY,
+  data JSONB NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+--> statement-breakpoint
+INSERT INTO content_sections (key, data) VALUES
+  ('about', $json${
+    "storia": {
+      "title": "La Nostra Storia",
+      "content": "Da oltre vent'anni, DF Restauri è sinonimo di eccellenza nel mondo del restauro, delle pitture e delle decorazioni. Rappresenta la prosecuzione dell'attività nata nel 1992 in capo a De Faveri Luca. L'azienda ha saputo coniugare la maestria artigianale con le più moderne tecniche, offrendo soluzioni personalizzate per ogni esigenza dalle delicate operazioni di costruzione, ristrutturazione e restauro. DF è il partner ideale per chi desidera valorizzare i propri spazi con un tocco di esclusività. Grazie all'esperienza maturata nel corso degli anni, siamo in grado di garantire risultati impeccabili e duraturi, rispondendo alle richieste più esigenti del mercato dell'edilizia. Abbiamo saputo evolversi e adattarsi ai continui cambiamenti del mercato, mantenendo sempre al centro il cliente e la qualità dei lavori."
+    },
+    "valori": {
+      "title": "Valori Aziendali",
+      "content": "Definizione dei principi e dei valori che guidano l'operato dell'azienda",
+      "items": [
+        "Qualità senza compromessi",
+        "Innovazione sostenibile",
+        "Rispetto per la tradizione",
+        "Attenzione al cliente"
+      ]
+    },
+    "mission": {
+      "title": "Mission",
+      "content": "Costruiamo il futuro, rispettando l'ambiente. Il nostro approccio all'edilizia è orientato alla sostenibilità e all'innovazione. Utilizziamo materiali eco-compatibili e tecnologie all'avanguardia per realizzare edifici efficienti dal punto di vista energetico e a basso impatto ambientale. Grazie ad una progettazione attenta e a una gestione efficiente delle risorse, siamo in grado di offrire soluzioni personalizzate e durature nel tempo."
+    },
+    "vision": {
+      "title": "Vision",
+      "content": "Aspirare a diventare leader nel settore delle costruzioni sostenibili, creando un futuro dove l'eccellenza costruttiva si fonde con il rispetto per l'ambiente. Vogliamo essere riconosciuti come pionieri nell'innovazione edilizia sostenibile, mantenendo sempre vivo il legame con la tradizione e l'artigianato di qualità."
+    }
+  }$json$),
+  ('team', $json${
+    "intro": {
+      "title": "Il Nostro Team",
+      "content": "Professionisti qualificati con anni di esperienza nel settore delle costruzioni e del restauro."
+    },
+    "members": [
+      {
+        "name": "Luca De Faveri",
+        "role": "Fondatore",
+        "avatar": "/images/team/de-faveri-luca.png",
+        "social": {}
+      },
+      {
+        "name": "Gianalberto Blasutig",
+        "role": "Socio",
+        "avatar": "/images/team/blasutig-gianalberto.jpg",
+        "social": {}
+      }
+    ]
+  }$json$),
+  ('services', $json${
+    "intro": {
+      "title": "I Nostri Servizi",
+      "content": "Esperienza, professionalità e innovazione al servizio dei vostri progetti. Scopri come possiamo trasformare le tue idee in realtà."
+    },
+    "home": {
+      "title": "I Nostri Servizi",
+      "content": "Offriamo soluzioni complete per ogni esigenza nel campo dell'edilizia, dal restauro alla costruzione, sempre con un occhio alla sostenibilità."
+    },
+    "items": [
+      {
+        "id": "restauro",
+        "title": "Restauro",
+        "description": "Tecniche tradizionali e materiali di alta qualità per preservare il patrimonio storico.",
+        "longDescription": "Specializzati nel restauro di edifici storici, preserviamo l'integrità architettonica e il valore culturale delle strutture.",
+        "features": [
+          "Restauro conservativo di edifici storici",
+          "Recupero di elementi architettonici",
+          "Conservazione di affreschi e decorazioni",
+          "Consolidamento strutturale",
+          "Diagnostica e analisi preliminare"
+        ]
+      },
+      {
+        "id": "costruzione",
+        "title": "Costruzione",
+        "description": "Progetti innovativi e sostenibili per costruire il futuro.",
+        "longDescription": "Realizziamo progetti di costruzione innovativi con un focus sulla sostenibilità ambientale e l'efficienza energetica, garantendo la massima qualità e rispetto delle normative.",
+        "features": [
+          "Edifici residenziali e commerciali",
+          "Strutture industriali",
+          "Progetti chiavi in mano",
+          "Costruzioni eco-sostenibili",
+          "Gestione completa del cantiere"
+        ]
+      },
+      {
+        "id": "ristrutturazione",
+        "title": "Ristrutturazione",
+        "description": "Trasformiamo i tuoi spazi con soluzioni moderne ed efficienti.",
+        "longDescription": "Offriamo servizi completi di ristrutturazione per modernizzare abitazioni, uffici e capannoni.",
+        "features": [
+          "Ristrutturazione completa di interni",
+          "Adeguamento normativo",
+          "Riqualificazione energetica",
+          "Ristrutturazione bagni e cucine",
+          "Rifacimento impianti"
+        ]
+      }
+    ],
+    "cta": {
+      "title": "Pronti a Iniziare il Tuo Progetto?",
+      "content": "Hai un progetto edilizio? Affidati a noi! Ti seguiremo passo dopo passo, dalla progettazione alla realizzazione chiavi in mano."
+    }
+  }$json$),
+  ('sostenibilita', $json${
+    "intro": {
+      "title": "Sostenibilità",
+      "content": "Il nostro impegno per un futuro sostenibile attraverso pratiche edilizie innovative e rispettose dell'ambiente."
+    },
+    "initiatives": [
+      {
+        "title": "Edilizia Sostenibile",
+        "description": "Utilizzo di materiali eco-compatibili e tecniche costruttive a basso impatto ambientale."
+      },
+      {
+        "title": "Efficienza Energetica",
+        "description": "Implementazione di soluzioni per il risparmio energetico e l'utilizzo di energie rinnovabili."
+      },
+      {
+        "title": "Gestione Rifiuti",
+        "description": "Sistema integrato di gestione e riciclo dei rifiuti da costruzione."
+      }
+    ]
+  }$json$),
+  ('certificazioni', $json${
+    "intro": {
+      "title": "Le Nostre Certificazioni",
+      "content": "Il nostro impegno per l'eccellenza è dimostrato attraverso le nostre certificazioni, che attestano la nostra dedizione alla qualità, alla sostenibilità e alla sicurezza."
+    },
+    "commitment": {
+      "title": "Impegno per la Qualità",
+      "content": "Le nostre certificazioni rappresentano il nostro impegno continuo verso l'eccellenza operativa e la soddisfazione del cliente. Ogni certificazione è il risultato di rigorosi processi di audit e valutazione da parte di enti certificatori accreditati."
+    }
+  }$json$)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS quote_requests (
+  id SERIAL PRIMARY KEY,
+  service_type TEXT NOT NULL,
+  property_type TEXT NOT NULL,
+  address TEXT NOT NULL,
+  surface INTEGER,
+  timeframe TEXT NOT NULL,
+  description TEXT NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'new',
+  site_visit_at TIMESTAMP,
+  admin_notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  status_changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS quote_requests_status_idx ON quote_requests (status, created_at DESC);
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS quote_attachments (
+  id SERIAL PRIMARY KEY,
+  quote_request_id INTEGER NOT NULL REFERENCES quote_requests(id) ON DELETE CASCADE,
+  original_name TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  thumbnail_filename TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS quote_attachments_quote_request_id_idx ON quote_attachments (quote_request_id);
@@ -0,0 +1 @@
+ALTER TABLE quote_attachments ADD COLUMN IF NOT EXISTS placeholder TEXT;
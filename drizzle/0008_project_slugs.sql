@@ -0,0 +1,16 @@
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS slug TEXT;
+--> statement-breakpoint
+UPDATE projects
+SET slug = CASE WHEN numbered.position = 1 THEN numbered.base ELSE numbered.base || '-' || numbered.id END
+FROM (
+  SELECT id, base, row_number() OVER (PARTITION BY base ORDER BY id) AS position
+  FROM (
+    SELECT id, trim(BOTH '-' FROM regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g')) AS base
+    FROM projects
+  ) AS slugged
+) AS numbered
+WHERE projects.id = numbered.id AND projects.slug IS NULL;
+--> statement-breakpoint
+ALTER TABLE projects ALTER COLUMN slug SET NOT NULL;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS projects_slug_idx ON projects (slug);
@@ -0,0 +1 @@
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS before_after JSONB NOT NULL DEFAULT '[]'::jsonb;
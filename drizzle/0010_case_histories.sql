@@ -0,0 +1,46 @@
+CREATE TABLE IF NOT EXISTS case_histories (
+  id SERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  image TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  location TEXT NOT NULL,
+  client TEXT,
+  challenge TEXT NOT NULL,
+  solution TEXT NOT NULL,
+  results TEXT[] NOT NULL DEFAULT '{}',
+  gallery TEXT[] NOT NULL DEFAULT '{}',
+  before_after JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'completed',
+  testimonial JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS case_histories_year_idx ON case_histories (year DESC);
+--> statement-breakpoint
+INSERT INTO case_histories (slug, project_id, title, description, category, image, year, location, challenge, solution, results, gallery, status) VALUES
+  (
+    'restauro-palazzo-storico-veneziano',
+    (SELECT id FROM projects WHERE slug = 'restauro-palazzo-storico-veneziano'),
+    'Restauro Palazzo Storico Veneziano',
+    'Restauro completo di un palazzo storico del XVI secolo nel cuore di Venezia',
+    'restauro',
+    '/images/chi-siamo/about-company.jpeg',
+    2023,
+    'Venezia',
+    'Il palazzo presentava gravi problemi strutturali e necessitava di un restauro conservativo che preservasse gli elementi storici originali.',
+    'Abbiamo implementato tecniche innovative di consolidamento strutturale combinate con metodi tradizionali di restauro, utilizzando materiali compatibili con quelli originali.',
+    ARRAY[
+      'Completo recupero strutturale dell''edificio',
+      'Preservazione del 95% degli elementi decorativi originali',
+      'Miglioramento della classe energetica',
+      'Riconoscimento per l''eccellenza nel restauro conservativo'
+    ],
+    ARRAY['/images/chi-siamo/about-company.jpeg'],
+    'completed'
+  )
+ON CONFLICT (slug) DO NOTHING;
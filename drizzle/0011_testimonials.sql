@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS testimonials (
+  id SERIAL PRIMARY KEY,
+  author TEXT NOT NULL,
+  role TEXT,
+  project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+  rating INTEGER NOT NULL,
+  quote TEXT NOT NULL,
+  consent BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  moderated_at TIMESTAMP,
+  moderated_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS testimonials_status_created_at_idx ON testimonials (status, created_at DESC);
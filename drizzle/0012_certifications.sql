@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS certifications (
+  id SERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  issuer TEXT,
+  number TEXT,
+  scope TEXT,
+  issued_at DATE,
+  expires_at DATE,
+  document_filename TEXT,
+  document_name TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS certifications_expires_at_idx ON certifications (expires_at);
+--> statement-breakpoint
+INSERT INTO certifications (title, description, category) VALUES
+  ('ISO 9001:2015', 'Certificazione del Sistema di Gestione per la Qualità', 'qualita'),
+  ('ISO 14001:2015', 'Sistema di Gestione Ambientale', 'ambiente'),
+  ('ISO 45001:2018', 'Sistema di Gestione per la Salute e Sicurezza sul Lavoro', 'sicurezza'),
+  ('LEED', 'Leadership in Energy and Environmental Design', 'ambiente'),
+  ('EMAS', 'Eco-Management and Audit Scheme dell''Unione Europea', 'ambiente');
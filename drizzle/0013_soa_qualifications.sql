@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS soa_qualifications (
+  id SERIAL PRIMARY KEY,
+  certification_id INTEGER NOT NULL REFERENCES certifications(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  classification TEXT NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS soa_qualifications_certification_category_idx ON soa_qualifications (certification_id, category);
@@ -0,0 +1,7 @@
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}'::jsonb;
+--> statement-breakpoint
+ALTER TABLE content_sections ADD COLUMN IF NOT EXISTS locale VARCHAR(2) NOT NULL DEFAULT 'it';
+--> statement-breakpoint
+ALTER TABLE content_sections DROP CONSTRAINT IF EXISTS content_sections_pkey;
+--> statement-breakpoint
+ALTER TABLE content_sections ADD PRIMARY KEY (key, locale);
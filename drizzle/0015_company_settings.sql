@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS company_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  name TEXT NOT NULL,
+  legal_name TEXT NOT NULL,
+  vat_number VARCHAR(11) NOT NULL,
+  phone TEXT NOT NULL,
+  email TEXT NOT NULL,
+  pec TEXT,
+  street TEXT NOT NULL,
+  postal_code VARCHAR(5) NOT NULL,
+  city TEXT NOT NULL,
+  province VARCHAR(2) NOT NULL,
+  country VARCHAR(2) NOT NULL DEFAULT 'IT',
+  logo TEXT NOT NULL,
+  opening_hours JSONB NOT NULL DEFAULT '[]'::jsonb,
+  social JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+--> statement-breakpoint
+INSERT INTO company_settings (id, name, legal_name, vat_number, phone, email, pec, street, postal_code, city, province, country, logo) VALUES
+  (1, 'DF Restauri', 'DF Restauri S.R.L.', '03016900304', '0432 1485703', 'segreteria@dfrestauri.it', 'dfrestaurisrl@pec.it', 'via Cussignacco 79', '33040', 'Pradamano', 'UD', 'IT', '/images/logo_dfrestauri_transparent.png')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,7 @@
+ALTER TABLE contact_submissions ADD COLUMN IF NOT EXISTS spam_score INTEGER NOT NULL DEFAULT 0;
+--> statement-breakpoint
+ALTER TABLE contact_submissions ADD COLUMN IF NOT EXISTS spam_reasons JSONB NOT NULL DEFAULT '[]'::jsonb;
+--> statement-breakpoint
+ALTER TABLE contact_submissions ADD COLUMN IF NOT EXISTS is_spam BOOLEAN NOT NULL DEFAULT FALSE;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS contact_submissions_is_spam_idx ON contact_submissions (is_spam, created_at);
@@ -0,0 +1,49 @@
+CREATE TABLE IF NOT EXISTS privacy_policies (
+  version SERIAL PRIMARY KEY,
+  body TEXT NOT NULL,
+  published_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  published_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+--> statement-breakpoint
+ALTER TABLE contact_submissions ADD COLUMN IF NOT EXISTS privacy_policy_version INTEGER REFERENCES privacy_policies(version);
+--> statement-breakpoint
+ALTER TABLE contact_submissions ADD COLUMN IF NOT EXISTS consented_at TIMESTAMP;
+--> statement-breakpoint
+ALTER TABLE quote_requests ADD COLUMN IF NOT EXISTS privacy_policy_version INTEGER REFERENCES privacy_policies(version);
+--> statement-breakpoint
+ALTER TABLE quote_requests ADD COLUMN IF NOT EXISTS consented_at TIMESTAMP;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS contact_submissions_email_idx ON contact_submissions (LOWER(email));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS quote_requests_email_idx ON quote_requests (LOWER(email));
+--> statement-breakpoint
+INSERT INTO privacy_policies (body) VALUES
+  ('Questa informativa descrive come DF Restauri S.R.L. tratta i dati personali di chi la contatta attraverso il sito, ai sensi degli articoli 13 e 14 del Regolamento (UE) 2016/679 (GDPR).
+
+## Titolare del trattamento
+
+DF Restauri S.R.L., via Cussignacco 79, 33040 Pradamano (UD), P.IVA 03016900304. Per qualsiasi richiesta sui suoi dati può scrivere a segreteria@dfrestauri.it oppure alla PEC dfrestaurisrl@pec.it.
+
+## Quali dati raccogliamo
+
+Attraverso il modulo contatti e il modulo di richiesta preventivo raccogliamo nome, indirizzo email, numero di telefono e il contenuto del messaggio. Per i preventivi anche l''indirizzo e le caratteristiche dell''immobile e le eventuali fotografie allegate, dalle quali rimuoviamo la posizione GPS.
+
+## Finalità e base giuridica
+
+Usiamo questi dati solo per rispondere alla sua richiesta, organizzare un eventuale sopralluogo e predisporre il preventivo (art. 6, par. 1, lett. b GDPR, misure precontrattuali richieste dall''interessato). Se il preventivo viene accettato, conserviamo i dati per adempiere agli obblighi contrattuali, contabili e fiscali (art. 6, par. 1, lett. c GDPR). Non usiamo i dati per finalità di marketing e non li cediamo a terzi.
+
+## Destinatari
+
+I dati sono trattati dal personale di DF Restauri incaricato di gestire le richieste e dai fornitori che ospitano il sito e inviano le email per nostro conto, nominati responsabili del trattamento. I dati sono conservati su server situati nell''Unione Europea.
+
+## Per quanto tempo conserviamo i dati
+
+I messaggi del modulo contatti sono cancellati automaticamente dopo 24 mesi dalla ricezione. Le richieste di preventivo che non diventano un incarico sono cancellate dopo 24 mesi dall''ultimo aggiornamento; quelle accettate sono conservate per 10 anni, come previsto dall''art. 2220 del Codice civile. Le copie delle email di conferma sono cancellate dopo 90 giorni. I messaggi riconosciuti come spam sono cancellati dopo 30 giorni.
+
+## I suoi diritti
+
+Può chiedere in qualsiasi momento l''accesso ai suoi dati e una loro copia (art. 15), la rettifica (art. 16), la cancellazione (art. 17), la limitazione del trattamento (art. 18) e la portabilità (art. 20), oltre a opporsi al trattamento (art. 21), scrivendo ai recapiti indicati sopra. Ha inoltre il diritto di proporre reclamo al Garante per la protezione dei dati personali (www.garanteprivacy.it).
+
+## Conferimento dei dati
+
+Il conferimento dei dati è facoltativo, ma senza di essi non possiamo rispondere alla sua richiesta.');
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS cookie_consents (
+  id SERIAL PRIMARY KEY,
+  consent_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  statistics BOOLEAN NOT NULL,
+  marketing BOOLEAN NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS cookie_consents_consent_id_idx ON cookie_consents (consent_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS cookie_consents_created_at_idx ON cookie_consents (created_at);
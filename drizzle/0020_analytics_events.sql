@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  path TEXT NOT NULL,
+  locale TEXT NOT NULL,
+  referrer TEXT,
+  target TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS analytics_events_type_created_at_idx ON analytics_events (type, created_at);
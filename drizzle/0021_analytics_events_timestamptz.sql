@@ -0,0 +1 @@
+ALTER TABLE analytics_events ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC';
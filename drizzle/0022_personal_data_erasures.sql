@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS personal_data_erasures (
+  id SERIAL PRIMARY KEY,
+  email_hash TEXT NOT NULL,
+  contact_submissions INTEGER NOT NULL,
+  quote_requests INTEGER NOT NULL,
+  emails INTEGER NOT NULL,
+  erased_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  erased_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS personal_data_erasures_email_hash_idx ON personal_data_erasures (email_hash);
@@ -0,0 +1,166 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { eq } from "drizzle-orm";
+import { db } from "@db";
+import { loginSchema, users, type User as SelectUser } from "@db/schema";
+import { verifyPassword } from "./utils/password";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const SESSION_MAX_AGE = 1000 * 60 * 60 * 24 * 7;
+
+function createSessionStore(isProduction: boolean): session.Store {
+  if (isProduction) {
+    const PgStore = connectPg(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "session",
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 1000 * 60 * 60 * 24 });
+}
+
+// Never send the password hash back to the browser.
+function toPublicUser({ password: _password, ...user }: SelectUser) {
+  return user;
+}
+
+export function setupAuth(app: Express) {
+  const isProduction = app.get("env") === "production";
+  const secret = process.env.SESSION_SECRET;
+
+  if (isProduction && !secret) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  if (isProduction) {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(
+    session({
+      secret: secret ?? "df-restauri-dev-secret",
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(isProduction),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: isProduction,
+        maxAge: SESSION_MAX_AGE,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const [user] = await db
+          .select()
+          .from(users)
+          .where(eq(users.username, username))
+          .limit(1);
+
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => {
+    done(null, user.id);
+  });
+
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate(
+      "local",
+      (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+        if (error) {
+          return next(error);
+        }
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Login failed" });
+        }
+
+        req.login(user, (loginError) => {
+          if (loginError) {
+            return next(loginError);
+          }
+          res.json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    res.json(toPublicUser(req.user));
+  });
+}
+
+// Any signed-in staff member: used for the contact inbox.
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+
+  res.status(401).json({ message: "Not authenticated" });
+}
+
+// Write access to site data is reserved to administrators.
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  if (req.user.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+
+  next();
+}
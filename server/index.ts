@@ -48,7 +48,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  registerRoutes(app);
+  await registerRoutes(app);
   const server = createServer(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -1,85 +1,1789 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import path from "path";
-import { convertToWebP, ensureCacheDirectory, isImagePath } from "./utils/imageProcessing";
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, getTableColumns, gte, ilike, inArray, isNotNull, isNull, lte, max, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import {
+  CERTIFICATION_EXPIRY_WARNING_DAYS,
+  DEFAULT_LOCALE,
+  analyticsEventSchema,
+  caseHistories,
+  caseHistoryStatuses,
+  certificationCategories,
+  certifications,
+  companySettings,
+  contactFormSchema,
+  contactSubmissions,
+  contentSectionSchemas,
+  contentSections,
+  cookieConsentSchema,
+  cookieConsents,
+  insertCaseHistorySchema,
+  insertCertificationSchema,
+  isContentSectionKey,
+  isLocale,
+  moderateTestimonialSchema,
+  privacyPolicies,
+  publishPrivacyPolicySchema,
+  quoteRequestFormSchema,
+  projectFiltersSchema,
+  projects,
+  quoteAttachments,
+  quoteRequests,
+  quoteStatuses,
+  quoteStatusTransitions,
+  soaQualifications,
+  testimonialFormSchema,
+  testimonialStatuses,
+  testimonials,
+  updateCompanySettingsSchema,
+  updateQuoteStatusSchema,
+  updateProjectTranslationsSchema,
+  updateSoaQualificationsSchema,
+  type BeforeAfterPair,
+  type CaseHistoryStatus,
+  type CertificationCategory,
+  type CompanySettings,
+  type ContentSectionKey,
+  type Locale,
+  type NewOutgoingEmail,
+  type ProjectRecord,
+  type QuoteStatus,
+  type TestimonialStatus,
+} from "@db/schema";
+import { requireAdmin, requireAuth, setupAuth } from "./auth";
+import {
+  MEDIA_UPLOADS_DIR,
+  QUOTE_UPLOADS_DIR,
+  alignImagePair,
+  isImagePath,
+  negotiateFormat,
+  processUploadedImage,
+  resolveSourceImage,
+  snapWidth,
+  transformImage,
+  type ProcessedImage,
+} from "./utils/imageProcessing";
+import { ensureCacheDirectory, getImageCacheStats, purgeImageCache } from "./utils/imageCache";
+import { getImageManifestEntry, warmImageManifest } from "./utils/imageManifest";
+import { enqueueEmails, startEmailQueue } from "./utils/emailQueue";
+import { contactEmails, quoteEmails } from "./utils/leadEmails";
+import { createRateLimiter, looksAutomated, scoreContactSubmission, type RateLimiter } from "./utils/spam";
+import { erasePersonalData, exportPersonalData, startPersonalDataPurge } from "./utils/personalData";
+import { analyticsSummary, isBot, recordAnalyticsEvent } from "./utils/analytics";
+import { checkSiteUrl, getSiteUrl, latestDate, renderRobotsTxt, renderSitemap } from "./utils/sitemap";
+import {
+  CERTIFICATION_UPLOADS_DIR,
+  beforeAfterUpload,
+  certificationDocumentUpload,
+  parseMultipartData,
+  quotePhotoUpload,
+} from "./utils/uploads";
 
-async function webpMiddleware(req: Request, res: Response, next: NextFunction) {
+// Serves /images/* resized to the requested ?w= and re-encoded in the best
+// format the browser accepts. The URL stays the same for every variant, so
+// caches must key on Accept as well.
+async function responsiveImageMiddleware(req: Request, res: Response, next: NextFunction) {
   if (!req.path.startsWith('/images') || !isImagePath(req.path)) {
     return next();
   }
 
   try {
-    const imagePath = path.join(process.cwd(), 'public', req.path);
-    const webpPath = await convertToWebP(imagePath);
-    res.redirect(webpPath);
+    const source = await resolveSourceImage(req.path);
+    if (!source) {
+      return next();
+    }
+
+    const requestedWidth = Number(req.query.w);
+    const width = Number.isInteger(requestedWidth) && requestedWidth > 0
+      ? snapWidth(requestedWidth)
+      : undefined;
+    const format = negotiateFormat(req.get('Accept'), source.path);
+    if (!format) {
+      // Left to the static file handler, which sends the original.
+      res.vary('Accept');
+      return next();
+    }
+    const imagePath = await transformImage(source, { width, format });
+
+    res.set({ 'Cache-Control': 'public, max-age=604800', Vary: 'Accept' });
+    res.type(`image/${format}`).sendFile(imagePath);
   } catch (error) {
-    console.error('WebP conversion error:', error);
+    console.error('Image transform error:', error);
     next();
   }
 }
 
-const DYNAMIC_CONTENT = {
-  about: {
-    storia: {
-      title: "La Nostra Storia",
-      content: "Da oltre vent'anni, DF Restauri è sinonimo di eccellenza nel mondo del restauro, delle pitture e delle decorazioni. Rappresenta la prosecuzione dell'attività nata nel 1992 in capo a De Faveri Luca. L'azienda ha saputo coniugare la maestria artigianale con le più moderne tecniche, offrendo soluzioni personalizzate per ogni esigenza dalle delicate operazioni di costruzione, ristrutturazione e restauro. DF è il partner ideale per chi desidera valorizzare i propri spazi con un tocco di esclusività. Grazie all'esperienza maturata nel corso degli anni, siamo in grado di garantire risultati impeccabili e duraturi, rispondendo alle richieste più esigenti del mercato dell'edilizia. Abbiamo saputo evolversi e adattarsi ai continui cambiamenti del mercato, mantenendo sempre al centro il cliente e la qualità dei lavori."
-    },
-    valori: {
-      title: "Valori Aziendali",
-      content: "Definizione dei principi e dei valori che guidano l'operato dell'azienda",
-      items: [
-        "Qualità senza compromessi",
-        "Innovazione sostenibile",
-        "Rispetto per la tradizione",
-        "Attenzione al cliente"
-      ]
-    },
-    mission: {
-      title: "Mission",
-      content: "Costruiamo il futuro, rispettando l'ambiente. Il nostro approccio all'edilizia è orientato alla sostenibilità e all'innovazione. Utilizziamo materiali eco-compatibili e tecnologie all'avanguardia per realizzare edifici efficienti dal punto di vista energetico e a basso impatto ambientale. Grazie ad una progettazione attenta e a una gestione efficiente delle risorse, siamo in grado di offrire soluzioni personalizzate e durature nel tempo."
-    },
-    vision: {
-      title: "Vision",
-      content: "Aspirare a diventare leader nel settore delle costruzioni sostenibili, creando un futuro dove l'eccellenza costruttiva si fonde con il rispetto per l'ambiente. Vogliamo essere riconosciuti come pionieri nell'innovazione edilizia sostenibile, mantenendo sempre vivo il legame con la tradizione e l'artigianato di qualità."
-    }
-  },
-  case_studies: [
-    {
-      id: 1,
-      title: "Restauro Palazzo Storico",
-      description: "Recupero e valorizzazione di un edificio del XVIII secolo",
-      image: "/images/case-studies/palazzo.jpg"
-    },
-    {
-      id: 2,
-      title: "Edificio Sostenibile",
-      description: "Progetto di costruzione eco-compatibile",
-      image: "/images/case-studies/eco.jpg"
-    }
-  ]
-};
+// Writes an aligned before/after pair under /media. Throws when either photo
+// cannot be decoded.
+async function storeBeforeAfterPair(
+  before: Express.Multer.File,
+  after: Express.Multer.File,
+  caption: unknown,
+): Promise<BeforeAfterPair> {
+  const aligned = await alignImagePair(before.buffer, after.buffer);
+
+  const directory = path.join(MEDIA_UPLOADS_DIR, "before-after");
+  const name = randomUUID();
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, `${name}-before.webp`), aligned.before);
+  await fs.writeFile(path.join(directory, `${name}-after.webp`), aligned.after);
+
+  const trimmedCaption = typeof caption === "string" ? caption.trim() : "";
+  return {
+    before: `/media/before-after/${name}-before.webp`,
+    after: `/media/before-after/${name}-after.webp`,
+    ...(trimmedCaption ? { caption: trimmedCaption } : {}),
+  };
+}
+
+// Only files we uploaded ourselves live under /media.
+async function removeBeforeAfterPair(pair: BeforeAfterPair) {
+  await Promise.all(
+    [pair.before, pair.after]
+      .filter((url) => url.startsWith("/media/"))
+      .map((url) => fs.rm(path.join(MEDIA_UPLOADS_DIR, url.slice("/media/".length)), { force: true })),
+  );
+}
+
+function getBeforeAfterFiles(req: Request) {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  return { before: files?.before?.[0], after: files?.after?.[0] };
+}
+
+// Writes an uploaded certificate PDF and returns its stored filename. The
+// MIME type comes from the browser, so check the file signature as well.
+async function storeCertificationDocument(file: Express.Multer.File) {
+  if (file.buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error(`"${file.originalname}" is not a valid PDF`);
+  }
+
+  const filename = `${randomUUID()}.pdf`;
+  await fs.mkdir(CERTIFICATION_UPLOADS_DIR, { recursive: true });
+  await fs.writeFile(path.join(CERTIFICATION_UPLOADS_DIR, filename), file.buffer);
+  return filename;
+}
+
+async function removeCertificationDocument(filename: string | null) {
+  if (filename) {
+    await fs.rm(path.join(CERTIFICATION_UPLOADS_DIR, filename), { force: true });
+  }
+}
+
+// Today (plus an offset) as the YYYY-MM-DD string used by date columns.
+function isoDate(offsetDays = 0) {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// The ?locale= of public endpoints; anything else falls back to Italian.
+function requestLocale(req: Request): Locale {
+  return isLocale(req.query.locale) ? req.query.locale : DEFAULT_LOCALE;
+}
+
+// Overlays the project's translation, keeping the Italian text for every
+// field that has not been translated yet.
+function localizeProject(project: ProjectRecord, locale: Locale): ProjectRecord {
+  const translation = project.translations[locale] ?? {};
+  return {
+    ...project,
+    title: translation.title || project.title,
+    description: translation.description || project.description,
+    details: translation.details || project.details,
+    techniques: translation.techniques?.length ? translation.techniques : project.techniques,
+  };
+}
+
+type SitemapSource = ContentSectionKey | "projects" | "caseHistories" | "certifications" | "privacyPolicy";
+
+// The public pages of client/src/App.tsx, with the content they show so
+// their lastmod follows the latest edit. Keep in sync when adding a page.
+const SITEMAP_PAGES: { path: string; sources: SitemapSource[] }[] = [
+  { path: "/", sources: ["services", "about"] },
+  { path: "/ci-presentiamo", sources: ["about", "team"] },
+  { path: "/servizi", sources: ["services"] },
+  { path: "/sostenibilita", sources: ["sostenibilita", "certifications"] },
+  { path: "/certificazioni", sources: ["certificazioni", "certifications"] },
+  { path: "/realizzazioni", sources: ["projects", "caseHistories"] },
+  { path: "/privacy", sources: ["privacyPolicy"] },
+];
+
+// Forms may post any published version: a visitor can have loaded the page
+// before a newer one came out.
+async function privacyPolicyExists(version: number) {
+  const [policy] = await db
+    .select({ version: privacyPolicies.version })
+    .from(privacyPolicies)
+    .where(eq(privacyPolicies.version, version))
+    .limit(1);
+  return Boolean(policy);
+}
+
+// The ?email= of the personal data endpoints.
+function requestEmail(req: Request) {
+  const result = z.string().trim().email().safeParse(req.query.email);
+  return result.success ? result.data : null;
+}
+
+// The lead is saved by then, so a failure here is logged instead of being
+// reported to the customer.
+async function queueLeadEmails(build: (company: CompanySettings) => NewOutgoingEmail[]) {
+  try {
+    const [company] = await db.select().from(companySettings).limit(1);
+    if (!company) {
+      throw new Error("Company settings not found");
+    }
+    await enqueueEmails(build(company));
+  } catch (error) {
+    console.error("Could not queue the lead emails:", error);
+  }
+}
+
+// Contact form limits: a handful of messages per connection, fewer per
+// sender address.
+const contactLimitByIp = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+const contactLimitByEmail = createRateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+// Quote requests carry up to eight photos to decode, so fewer are let through.
+const quoteLimitByIp = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+const quoteLimitByEmail = createRateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+const testimonialLimitByIp = createRateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+// Generous, a visitor may change their mind a few times; this only keeps a
+// script from filling the consent log.
+const cookieConsentLimitByIp = createRateLimiter({ limit: 20, windowMs: 10 * 60 * 1000 });
+const analyticsLimitByIp = createRateLimiter({ limit: 120, windowMs: 10 * 60 * 1000 });
+
+const ANALYTICS_PERIODS = [7, 30, 90, 365];
+
+// Runs ahead of the body parsing, so a flood is turned away before any upload
+// is read into memory.
+function limitByIp(limiter: RateLimiter, message: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!limiter.hit(req.ip ?? "unknown")) {
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
+
+// An ILIKE pattern for text containing `value`, with the wildcards and the
+// escape character it may hold taken literally.
+function containsPattern(value: string) {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function isUniqueViolation(error: unknown) {
+  return (error as { code?: string } | null)?.code === "23505";
+}
 
 export async function registerRoutes(app: Express) {
+  checkSiteUrl(app.get("env") === "production");
   await ensureCacheDirectory();
-  
-  app.use(webpMiddleware);
-  app.post("/api/contact", (req, res) => {
-    const { name, email, phone, message } = req.body;
-    console.log("Contact form submission:", { name, email, phone, message });
-    res.json({ success: true });
+  // Build the placeholders in the background so the first visitor does not wait.
+  warmImageManifest().catch((error) => console.error("Image manifest error:", error));
+  startEmailQueue();
+  startPersonalDataPurge();
+  setupAuth(app);
+
+  app.use(responsiveImageMiddleware);
+  app.use("/media", express.static(MEDIA_UPLOADS_DIR, { maxAge: "7d" }));
+  app.post("/api/contact", async (req, res, next) => {
+    const result = contactFormSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid contact form submission",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    const ipAllowed = contactLimitByIp.hit(req.ip ?? "unknown");
+    const emailAllowed = contactLimitByEmail.hit(result.data.email.toLowerCase());
+    if (!ipAllowed || !emailAllowed) {
+      return res.status(429).json({ message: "Too many messages, please try again later" });
+    }
+
+    // Spam is answered like any other message, so bots learn nothing, and
+    // kept for the admin's spam folder without notifying anyone.
+    const { website, elapsedMs, privacyConsent, ...values } = result.data;
+    const verdict = scoreContactSubmission(result.data);
+
+    try {
+      if (!(await privacyPolicyExists(values.privacyPolicyVersion))) {
+        return res.status(400).json({ message: "Unknown privacy policy version" });
+      }
+
+      const [submission] = await db
+        .insert(contactSubmissions)
+        .values({
+          ...values,
+          consentedAt: new Date(),
+          spamScore: verdict.score,
+          spamReasons: verdict.reasons,
+          isSpam: verdict.isSpam,
+        })
+        .returning();
+      if (!submission.isSpam) {
+        await queueLeadEmails((company) => contactEmails(submission, company));
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The banner keeps the choice in a cookie; this is the server-side record.
+  app.post("/api/cookie-consent", async (req, res, next) => {
+    const result = cookieConsentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid cookie consent",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    if (!cookieConsentLimitByIp.hit(req.ip ?? "unknown")) {
+      return res.status(429).json({ message: "Too many requests, please try again later" });
+    }
+
+    try {
+      await db.insert(cookieConsents).values({
+        ...result.data,
+        userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+      });
+      res.status(201).json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sent with navigator.sendBeacon, which ignores the response. The IP is
+  // only used for the rate limit and is not stored.
+  app.post("/api/analytics/events", async (req, res, next) => {
+    const result = analyticsEventSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid analytics event",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    if (isBot(req.get("user-agent")) || !analyticsLimitByIp.hit(req.ip ?? "unknown")) {
+      return res.status(204).end();
+    }
+
+    try {
+      await recordAnalyticsEvent(result.data, req.get("host"));
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/analytics", requireAuth, async (req, res, next) => {
+    const days = Number(req.query.days ?? 30);
+    if (!ANALYTICS_PERIODS.includes(days)) {
+      return res.status(400).json({ message: `Period must be one of ${ANALYTICS_PERIODS.join(", ")} days` });
+    }
+
+    try {
+      res.json(await analyticsSummary(days));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/contact-submissions", requireAuth, async (req, res, next) => {
+    const { status, folder } = req.query;
+    const filter =
+      status === "open"
+        ? isNull(contactSubmissions.handledAt)
+        : status === "handled"
+        ? isNotNull(contactSubmissions.handledAt)
+        : undefined;
+
+    try {
+      const submissions = await db
+        .select()
+        .from(contactSubmissions)
+        .where(and(eq(contactSubmissions.isSpam, folder === "spam"), filter))
+        .orderBy(desc(contactSubmissions.createdAt));
+      res.json(submissions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/contact-submissions/:id", requireAuth, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid submission id" });
+    }
+
+    try {
+      const [submission] = await db
+        .select()
+        .from(contactSubmissions)
+        .where(eq(contactSubmissions.id, id))
+        .limit(1);
+
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      res.json(submission);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/contact-submissions/:id", requireAuth, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid submission id" });
+    }
+    const { handled, spam } = req.body;
+    if (handled === undefined && spam === undefined) {
+      return res.status(400).json({ message: "Nothing to update" });
+    }
+    if (handled !== undefined && typeof handled !== "boolean") {
+      return res.status(400).json({ message: "Field 'handled' must be a boolean" });
+    }
+    if (spam !== undefined && typeof spam !== "boolean") {
+      return res.status(400).json({ message: "Field 'spam' must be a boolean" });
+    }
+
+    try {
+      const [submission] = await db
+        .update(contactSubmissions)
+        .set({
+          ...(handled !== undefined ? { handledAt: handled ? new Date() : null } : {}),
+          ...(spam !== undefined ? { isSpam: spam } : {}),
+        })
+        .where(eq(contactSubmissions.id, id))
+        .returning();
+
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      res.json(submission);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/contact-submissions/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid submission id" });
+    }
+
+    try {
+      const [deleted] = await db
+        .delete(contactSubmissions)
+        .where(eq(contactSubmissions.id, id))
+        .returning({ id: contactSubmissions.id });
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const quoteRateLimit = limitByIp(quoteLimitByIp, "Too many quote requests, please try again later");
+  app.post("/api/quotes", quoteRateLimit, quotePhotoUpload, async (req, res, next) => {
+    const result = quoteRequestFormSchema.safeParse(parseMultipartData(req));
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid quote request",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    if (!quoteLimitByEmail.hit(result.data.email.toLowerCase())) {
+      return res.status(429).json({ message: "Too many quote requests, please try again later" });
+    }
+    // Answered like a real request, so bots learn nothing, but not stored.
+    if (looksAutomated(result.data)) {
+      return res.status(201).json({ success: true });
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const photos: (ProcessedImage & { originalName: string })[] = [];
+    // Process every photo before touching the database, so a corrupt file
+    // rejects the whole request instead of leaving a half-saved quote.
+    for (const file of files) {
+      try {
+        photos.push({ ...(await processUploadedImage(file.buffer)), originalName: file.originalname });
+      } catch {
+        return res.status(400).json({ message: `"${file.originalname}" is not a valid image` });
+      }
+    }
+
+    try {
+      const { website, elapsedMs, privacyConsent, ...values } = result.data;
+      if (!(await privacyPolicyExists(values.privacyPolicyVersion))) {
+        return res.status(400).json({ message: "Unknown privacy policy version" });
+      }
+
+      const quote = await db.transaction(async (tx) => {
+        const [quote] = await tx
+          .insert(quoteRequests)
+          .values({ ...values, consentedAt: new Date() })
+          .returning();
+
+        if (photos.length > 0) {
+          const directory = path.join(QUOTE_UPLOADS_DIR, String(quote.id));
+          await fs.mkdir(directory, { recursive: true });
+
+          const attachments = [];
+          for (const photo of photos) {
+            const filename = `${randomUUID()}.webp`;
+            const thumbnailFilename = filename.replace(/\.webp$/, "-thumb.webp");
+            await fs.writeFile(path.join(directory, filename), photo.image);
+            await fs.writeFile(path.join(directory, thumbnailFilename), photo.thumbnail);
+            attachments.push({
+              quoteRequestId: quote.id,
+              originalName: photo.originalName,
+              filename,
+              thumbnailFilename,
+              width: photo.width,
+              height: photo.height,
+              size: photo.image.length,
+              placeholder: photo.placeholder,
+            });
+          }
+          await tx.insert(quoteAttachments).values(attachments);
+        }
+
+        return quote;
+      });
+      await queueLeadEmails((company) => quoteEmails(quote, photos.length, company, getSiteUrl()));
+      res.status(201).json({ success: true, id: quote.id });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/quotes", requireAuth, async (req, res, next) => {
+    const { status } = req.query;
+    const filter = quoteStatuses.includes(status as QuoteStatus)
+      ? eq(quoteRequests.status, status as QuoteStatus)
+      : undefined;
+
+    try {
+      const quotes = await db
+        .select()
+        .from(quoteRequests)
+        .where(filter)
+        .orderBy(desc(quoteRequests.createdAt));
+      res.json(quotes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/quotes/:id", requireAuth, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid quote id" });
+    }
+
+    try {
+      const [quote] = await db
+        .select()
+        .from(quoteRequests)
+        .where(eq(quoteRequests.id, id))
+        .limit(1);
+
+      if (!quote) {
+        return res.status(404).json({ message: "Quote request not found" });
+      }
+
+      const attachments = await db
+        .select()
+        .from(quoteAttachments)
+        .where(eq(quoteAttachments.quoteRequestId, id))
+        .orderBy(asc(quoteAttachments.id));
+
+      res.json({ ...quote, attachments });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/quotes/:id/attachments/:attachmentId", requireAuth, async (req, res, next) => {
+    const id = Number(req.params.id);
+    const attachmentId = Number(req.params.attachmentId);
+    if (!Number.isInteger(id) || !Number.isInteger(attachmentId)) {
+      return res.status(400).json({ message: "Invalid attachment id" });
+    }
+
+    try {
+      const [attachment] = await db
+        .select()
+        .from(quoteAttachments)
+        .where(and(eq(quoteAttachments.id, attachmentId), eq(quoteAttachments.quoteRequestId, id)))
+        .limit(1);
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const filename = req.query.size === "thumb" ? attachment.thumbnailFilename : attachment.filename;
+      res.set("Cache-Control", "private, max-age=86400");
+      res.sendFile(path.join(QUOTE_UPLOADS_DIR, String(id), filename), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Attachment not found" });
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/quotes/:id/status", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid quote id" });
+    }
+
+    const result = updateQuoteStatusSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid status update",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    const { status, siteVisitAt, adminNotes } = result.data;
+    if (status === "site_visit_scheduled" && !siteVisitAt) {
+      return res.status(400).json({ message: "A site visit date is required" });
+    }
+
+    try {
+      const [quote] = await db
+        .select({ status: quoteRequests.status })
+        .from(quoteRequests)
+        .where(eq(quoteRequests.id, id))
+        .limit(1);
+
+      if (!quote) {
+        return res.status(404).json({ message: "Quote request not found" });
+      }
+      if (!quoteStatusTransitions[quote.status].includes(status)) {
+        return res.status(409).json({
+          message: `Cannot move a quote from "${quote.status}" to "${status}"`,
+        });
+      }
+
+      const [updated] = await db
+        .update(quoteRequests)
+        .set({
+          status,
+          statusChangedAt: new Date(),
+          ...(siteVisitAt ? { siteVisitAt } : {}),
+          ...(adminNotes !== undefined ? { adminNotes } : {}),
+        })
+        .where(and(eq(quoteRequests.id, id), eq(quoteRequests.status, quote.status)))
+        .returning();
+
+      if (!updated) {
+        return res.status(409).json({ message: "The quote was updated by someone else" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/projects", async (req, res, next) => {
+    const result = projectFiltersSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid project filters",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    const { category, year, location } = result.data;
+
+    try {
+      const rows = await db
+        .select()
+        .from(projects)
+        .where(
+          and(
+            category ? eq(projects.category, category) : undefined,
+            year ? eq(projects.year, year) : undefined,
+            location ? ilike(projects.location, containsPattern(location)) : undefined,
+          ),
+        )
+        .orderBy(desc(projects.year), desc(projects.id));
+      const locale = requestLocale(req);
+      res.json(rows.map((project) => localizeProject(project, locale)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Previous/next follow the same order as the list, restricted to the
+  // category the visitor was browsing (if any).
+  app.get("/api/projects/:slug", async (req, res, next) => {
+    const result = projectFiltersSchema.pick({ category: true }).safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid project filters",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    const { category } = result.data;
+    const locale = requestLocale(req);
+
+    try {
+      const [project] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.slug, req.params.slug))
+        .limit(1);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const siblings = (
+        await db
+          .select({ slug: projects.slug, title: projects.title, translations: projects.translations })
+          .from(projects)
+          .where(category ? eq(projects.category, category) : undefined)
+          .orderBy(desc(projects.year), desc(projects.id))
+      ).map(({ slug, title, translations }) => ({ slug, title: translations[locale]?.title || title }));
+
+      const index = siblings.findIndex((sibling) => sibling.slug === project.slug);
+      res.json({
+        ...localizeProject(project, locale),
+        previous: index > 0 ? siblings[index - 1] : null,
+        next: index >= 0 && index < siblings.length - 1 ? siblings[index + 1] : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/projects/:id/translations", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid project id" });
+    }
+
+    const result = updateProjectTranslationsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid project translations",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [updated] = await db
+        .update(projects)
+        .set({ translations: result.data, updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/projects/:id/before-after", requireAdmin, beforeAfterUpload, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid project id" });
+    }
+
+    const { before, after } = getBeforeAfterFiles(req);
+    if (!before || !after) {
+      return res.status(400).json({ message: 'Both a "before" and an "after" photo are required' });
+    }
+
+    try {
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(eq(projects.id, id))
+        .limit(1);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      let pair: BeforeAfterPair;
+      try {
+        pair = await storeBeforeAfterPair(before, after, req.body.caption);
+      } catch {
+        return res.status(400).json({ message: "The photos could not be processed" });
+      }
+
+      const [updated] = await db
+        .update(projects)
+        .set({
+          beforeAfter: sql`${projects.beforeAfter} || ${JSON.stringify([pair])}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, id))
+        .returning();
+      res.status(201).json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/projects/:id/before-after/:index", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    const index = Number(req.params.index);
+    if (!Number.isInteger(id) || !Number.isInteger(index)) {
+      return res.status(400).json({ message: "Invalid before/after pair" });
+    }
+
+    try {
+      const [project] = await db
+        .select({ beforeAfter: projects.beforeAfter })
+        .from(projects)
+        .where(eq(projects.id, id))
+        .limit(1);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const pair = project.beforeAfter[index];
+      if (!pair) {
+        return res.status(404).json({ message: "Before/after pair not found" });
+      }
+
+      const [updated] = await db
+        .update(projects)
+        .set({
+          beforeAfter: project.beforeAfter.filter((_, i) => i !== index),
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, id))
+        .returning();
+      await removeBeforeAfterPair(pair);
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/case-histories", async (req, res, next) => {
+    const { status } = req.query;
+    const filter = caseHistoryStatuses.includes(status as CaseHistoryStatus)
+      ? eq(caseHistories.status, status as CaseHistoryStatus)
+      : undefined;
+
+    try {
+      const rows = await db
+        .select()
+        .from(caseHistories)
+        .where(filter)
+        .orderBy(desc(caseHistories.year), desc(caseHistories.id));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/case-histories/:slug", async (req, res, next) => {
+    try {
+      const [caseHistory] = await db
+        .select()
+        .from(caseHistories)
+        .where(eq(caseHistories.slug, req.params.slug))
+        .limit(1);
+
+      if (!caseHistory) {
+        return res.status(404).json({ message: "Case history not found" });
+      }
+
+      res.json(caseHistory);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/case-histories", requireAdmin, async (req, res, next) => {
+    const result = insertCaseHistorySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid case history",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [caseHistory] = await db.insert(caseHistories).values(result.data).returning();
+      res.status(201).json(caseHistory);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A case history with this slug already exists" });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/case-histories/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid case history id" });
+    }
+
+    // Before/after pairs are managed through their own upload endpoints.
+    const result = insertCaseHistorySchema.omit({ beforeAfter: true }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid case history",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [caseHistory] = await db
+        .update(caseHistories)
+        .set({ ...result.data, updatedAt: new Date() })
+        .where(eq(caseHistories.id, id))
+        .returning();
+
+      if (!caseHistory) {
+        return res.status(404).json({ message: "Case history not found" });
+      }
+
+      res.json(caseHistory);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A case history with this slug already exists" });
+      }
+      next(error);
+    }
+  });
+
+  app.delete("/api/case-histories/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid case history id" });
+    }
+
+    try {
+      const [caseHistory] = await db
+        .delete(caseHistories)
+        .where(eq(caseHistories.id, id))
+        .returning();
+
+      if (!caseHistory) {
+        return res.status(404).json({ message: "Case history not found" });
+      }
+
+      await Promise.all(caseHistory.beforeAfter.map(removeBeforeAfterPair));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/case-histories/:id/before-after", requireAdmin, beforeAfterUpload, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid case history id" });
+    }
+
+    const { before, after } = getBeforeAfterFiles(req);
+    if (!before || !after) {
+      return res.status(400).json({ message: 'Both a "before" and an "after" photo are required' });
+    }
+
+    try {
+      const [caseHistory] = await db
+        .select({ id: caseHistories.id })
+        .from(caseHistories)
+        .where(eq(caseHistories.id, id))
+        .limit(1);
+
+      if (!caseHistory) {
+        return res.status(404).json({ message: "Case history not found" });
+      }
+
+      let pair: BeforeAfterPair;
+      try {
+        pair = await storeBeforeAfterPair(before, after, req.body.caption);
+      } catch {
+        return res.status(400).json({ message: "The photos could not be processed" });
+      }
+
+      const [updated] = await db
+        .update(caseHistories)
+        .set({
+          beforeAfter: sql`${caseHistories.beforeAfter} || ${JSON.stringify([pair])}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(caseHistories.id, id))
+        .returning();
+      res.status(201).json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/case-histories/:id/before-after/:index", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    const index = Number(req.params.index);
+    if (!Number.isInteger(id) || !Number.isInteger(index)) {
+      return res.status(400).json({ message: "Invalid before/after pair" });
+    }
+
+    try {
+      const [caseHistory] = await db
+        .select({ beforeAfter: caseHistories.beforeAfter })
+        .from(caseHistories)
+        .where(eq(caseHistories.id, id))
+        .limit(1);
+
+      if (!caseHistory) {
+        return res.status(404).json({ message: "Case history not found" });
+      }
+
+      const pair = caseHistory.beforeAfter[index];
+      if (!pair) {
+        return res.status(404).json({ message: "Before/after pair not found" });
+      }
+
+      const [updated] = await db
+        .update(caseHistories)
+        .set({
+          beforeAfter: caseHistory.beforeAfter.filter((_, i) => i !== index),
+          updatedAt: new Date(),
+        })
+        .where(eq(caseHistories.id, id))
+        .returning();
+      await removeBeforeAfterPair(pair);
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public list: expired certificates are kept for the records but no longer
+  // shown on the site.
+  app.get("/api/certifications", async (req, res, next) => {
+    const { category } = req.query;
+    const filter = certificationCategories.includes(category as CertificationCategory)
+      ? eq(certifications.category, category as CertificationCategory)
+      : undefined;
+
+    try {
+      const rows = await db
+        .select()
+        .from(certifications)
+        .where(
+          and(
+            filter,
+            or(isNull(certifications.expiresAt), gte(certifications.expiresAt, isoDate())),
+          ),
+        )
+        .orderBy(asc(certifications.category), asc(certifications.title));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/certifications/all", requireAuth, async (_req, res, next) => {
+    try {
+      const rows = await db
+        .select()
+        .from(certifications)
+        .orderBy(asc(certifications.category), asc(certifications.title));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Already expired certificates are included: they need renewing too.
+  app.get("/api/certifications/expiring", requireAuth, async (_req, res, next) => {
+    try {
+      const rows = await db
+        .select()
+        .from(certifications)
+        .where(lte(certifications.expiresAt, isoDate(CERTIFICATION_EXPIRY_WARNING_DAYS)))
+        .orderBy(asc(certifications.expiresAt));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/certifications/:id/document", async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid certification id" });
+    }
+
+    try {
+      const [certification] = await db
+        .select()
+        .from(certifications)
+        .where(eq(certifications.id, id))
+        .limit(1);
+
+      if (!certification?.documentFilename) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.download(
+        path.join(CERTIFICATION_UPLOADS_DIR, certification.documentFilename),
+        certification.documentName ?? `${certification.title}.pdf`,
+        (error) => {
+          if (error && !res.headersSent) {
+            res.status(404).json({ message: "Document not found" });
+          }
+        },
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/certifications", requireAdmin, certificationDocumentUpload, async (req, res, next) => {
+    const result = insertCertificationSchema.safeParse(parseMultipartData(req));
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid certification",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    let documentFilename: string | null = null;
+    if (req.file) {
+      try {
+        documentFilename = await storeCertificationDocument(req.file);
+      } catch (error) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+    }
+
+    try {
+      const [certification] = await db
+        .insert(certifications)
+        .values({
+          ...result.data,
+          documentFilename,
+          documentName: req.file?.originalname ?? null,
+        })
+        .returning();
+      res.status(201).json(certification);
+    } catch (error) {
+      await removeCertificationDocument(documentFilename);
+      next(error);
+    }
+  });
+
+  // A new PDF replaces the stored one; without a file the document is kept.
+  app.put("/api/certifications/:id", requireAdmin, certificationDocumentUpload, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid certification id" });
+    }
+
+    const result = insertCertificationSchema.safeParse(parseMultipartData(req));
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid certification",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [existing] = await db
+        .select({ documentFilename: certifications.documentFilename })
+        .from(certifications)
+        .where(eq(certifications.id, id))
+        .limit(1);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      let documentFilename: string | null = null;
+      if (req.file) {
+        try {
+          documentFilename = await storeCertificationDocument(req.file);
+        } catch (error) {
+          return res.status(400).json({ message: (error as Error).message });
+        }
+      }
+
+      const [certification] = await db
+        .update(certifications)
+        .set({
+          ...result.data,
+          ...(req.file ? { documentFilename, documentName: req.file.originalname } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(certifications.id, id))
+        .returning();
+
+      if (req.file) {
+        await removeCertificationDocument(existing.documentFilename);
+      }
+
+      res.json(certification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/certifications/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid certification id" });
+    }
+
+    try {
+      const [certification] = await db
+        .delete(certifications)
+        .where(eq(certifications.id, id))
+        .returning();
+
+      if (!certification) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      await removeCertificationDocument(certification.documentFilename);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Categories of the SOA attestations currently valid, for the public table.
+  app.get("/api/soa-qualifications", async (_req, res, next) => {
+    try {
+      const rows = await db
+        .select({
+          ...getTableColumns(soaQualifications),
+          attestation: {
+            id: certifications.id,
+            title: certifications.title,
+            issuer: certifications.issuer,
+            number: certifications.number,
+            issuedAt: certifications.issuedAt,
+            expiresAt: certifications.expiresAt,
+          },
+        })
+        .from(soaQualifications)
+        .innerJoin(certifications, eq(soaQualifications.certificationId, certifications.id))
+        .where(
+          and(
+            eq(certifications.category, "soa"),
+            or(isNull(certifications.expiresAt), gte(certifications.expiresAt, isoDate())),
+          ),
+        )
+        .orderBy(asc(soaQualifications.category));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/certifications/:id/soa-qualifications", requireAuth, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid certification id" });
+    }
+
+    try {
+      const rows = await db
+        .select()
+        .from(soaQualifications)
+        .where(eq(soaQualifications.certificationId, id))
+        .orderBy(asc(soaQualifications.category));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces the whole list of categories held under an SOA attestation.
+  app.put("/api/certifications/:id/soa-qualifications", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid certification id" });
+    }
+
+    const result = updateSoaQualificationsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid SOA qualifications",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [certification] = await db
+        .select({ category: certifications.category })
+        .from(certifications)
+        .where(eq(certifications.id, id))
+        .limit(1);
+
+      if (!certification) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+      if (certification.category !== "soa") {
+        return res.status(409).json({ message: "Only SOA attestations hold qualifications" });
+      }
+
+      const rows = await db.transaction(async (tx) => {
+        await tx.delete(soaQualifications).where(eq(soaQualifications.certificationId, id));
+        if (result.data.qualifications.length === 0) {
+          return [];
+        }
+        return tx
+          .insert(soaQualifications)
+          .values(result.data.qualifications.map((qualification) => ({ ...qualification, certificationId: id })))
+          .returning();
+      });
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/testimonials", async (req, res, next) => {
+    const { project } = req.query;
+
+    try {
+      const rows = await db
+        .select({
+          id: testimonials.id,
+          author: testimonials.author,
+          role: testimonials.role,
+          rating: testimonials.rating,
+          quote: testimonials.quote,
+          createdAt: testimonials.createdAt,
+          project: { slug: projects.slug, title: projects.title },
+        })
+        .from(testimonials)
+        .leftJoin(projects, eq(testimonials.projectId, projects.id))
+        .where(
+          and(
+            eq(testimonials.status, "approved"),
+            eq(testimonials.consent, true),
+            typeof project === "string" ? eq(projects.slug, project) : undefined,
+          ),
+        )
+        .orderBy(desc(testimonials.createdAt));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public submission form; entries wait in the moderation queue until an
+  // admin approves them.
+  const testimonialRateLimit = limitByIp(testimonialLimitByIp, "Too many testimonials, please try again later");
+  app.post("/api/testimonials", testimonialRateLimit, async (req, res, next) => {
+    const result = testimonialFormSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid testimonial",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    // Answered like a real submission, so bots learn nothing, but not stored.
+    if (looksAutomated(result.data)) {
+      return res.status(201).json({ success: true });
+    }
+
+    const { projectSlug, website, elapsedMs, ...values } = result.data;
+
+    try {
+      const [project] = projectSlug
+        ? await db
+            .select({ id: projects.id })
+            .from(projects)
+            .where(eq(projects.slug, projectSlug))
+            .limit(1)
+        : [];
+
+      await db.insert(testimonials).values({ ...values, projectId: project?.id ?? null });
+      res.status(201).json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/testimonials/moderation", requireAuth, async (req, res, next) => {
+    const { status } = req.query;
+    const filter = testimonialStatuses.includes(status as TestimonialStatus)
+      ? eq(testimonials.status, status as TestimonialStatus)
+      : undefined;
+
+    try {
+      const rows = await db
+        .select({
+          ...getTableColumns(testimonials),
+          project: { slug: projects.slug, title: projects.title },
+        })
+        .from(testimonials)
+        .leftJoin(projects, eq(testimonials.projectId, projects.id))
+        .where(filter)
+        .orderBy(desc(testimonials.createdAt));
+      res.json(rows);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/testimonials/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid testimonial id" });
+    }
+
+    const result = moderateTestimonialSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid moderation update",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    const { status } = result.data;
+
+    try {
+      const [testimonial] = await db
+        .select({ consent: testimonials.consent })
+        .from(testimonials)
+        .where(eq(testimonials.id, id))
+        .limit(1);
+
+      if (!testimonial) {
+        return res.status(404).json({ message: "Testimonial not found" });
+      }
+      if (status === "approved" && !testimonial.consent) {
+        return res.status(409).json({ message: "The author did not consent to publication" });
+      }
+
+      const [updated] = await db
+        .update(testimonials)
+        .set({
+          status,
+          moderatedAt: status === "pending" ? null : new Date(),
+          moderatedBy: status === "pending" ? null : req.user!.id,
+        })
+        .where(eq(testimonials.id, id))
+        .returning();
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
   });
 
-  app.get("/api/content/:section", (req, res) => {
+  app.delete("/api/testimonials/:id", requireAdmin, async (req, res, next) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: "Invalid testimonial id" });
+    }
+
+    try {
+      const [deleted] = await db
+        .delete(testimonials)
+        .where(eq(testimonials.id, id))
+        .returning({ id: testimonials.id });
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Testimonial not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/content", requireAdmin, async (_req, res, next) => {
+    try {
+      const sections = await db
+        .select({ key: contentSections.key, locale: contentSections.locale, updatedAt: contentSections.updatedAt })
+        .from(contentSections)
+        .orderBy(contentSections.key, contentSections.locale);
+      res.json(sections);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/content/:section", async (req, res, next) => {
     const { section } = req.params;
-    const content = DYNAMIC_CONTENT[section as keyof typeof DYNAMIC_CONTENT];
-    
-    if (!content) {
+    if (!isContentSectionKey(section)) {
       return res.status(404).json({ message: "Content not found" });
     }
-    
-    res.json(content);
+
+    const locale = requestLocale(req);
+
+    try {
+      // Sections not translated yet are served in Italian.
+      const rows = await db
+        .select()
+        .from(contentSections)
+        .where(and(eq(contentSections.key, section), inArray(contentSections.locale, [locale, DEFAULT_LOCALE])));
+      const row = rows.find((entry) => entry.locale === locale) ?? rows[0];
+
+      if (!row) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+
+      res.json(row.data);
+    } catch (error) {
+      next(error);
+    }
   });
 
-  app.get("/api/case-studies", (_req, res) => {
-    res.json(DYNAMIC_CONTENT.case_studies);
+  app.put("/api/content/:section", requireAdmin, async (req, res, next) => {
+    const { section } = req.params;
+    if (!isContentSectionKey(section)) {
+      return res.status(404).json({ message: "Content not found" });
+    }
+
+    const locale = req.query.locale ?? DEFAULT_LOCALE;
+    if (!isLocale(locale)) {
+      return res.status(400).json({ message: "Unsupported locale" });
+    }
+
+    const result = contentSectionSchemas[section].safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid content",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const values = {
+        data: result.data,
+        updatedAt: new Date(),
+        updatedBy: req.user!.id,
+      };
+      const [row] = await db
+        .insert(contentSections)
+        .values({ key: section, locale, ...values })
+        .onConflictDoUpdate({ target: [contentSections.key, contentSections.locale], set: values })
+        .returning();
+      res.json(row.data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/settings", async (_req, res, next) => {
+    try {
+      const [settings] = await db.select().from(companySettings).where(eq(companySettings.id, 1)).limit(1);
+      if (!settings) {
+        return res.status(404).json({ message: "Settings not found" });
+      }
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/settings", requireAdmin, async (req, res, next) => {
+    const result = updateCompanySettingsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid settings",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const values = {
+        ...result.data,
+        updatedAt: new Date(),
+        updatedBy: req.user!.id,
+      };
+      const [settings] = await db
+        .insert(companySettings)
+        .values({ id: 1, ...values })
+        .onConflictDoUpdate({ target: companySettings.id, set: values })
+        .returning();
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/privacy-policy", async (_req, res, next) => {
+    try {
+      const [policy] = await db
+        .select({ version: privacyPolicies.version, body: privacyPolicies.body, publishedAt: privacyPolicies.publishedAt })
+        .from(privacyPolicies)
+        .orderBy(desc(privacyPolicies.version))
+        .limit(1);
+      if (!policy) {
+        return res.status(404).json({ message: "Privacy policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/privacy-policy/versions", requireAuth, async (_req, res, next) => {
+    try {
+      const versions = await db.select().from(privacyPolicies).orderBy(desc(privacyPolicies.version));
+      res.json(versions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Published versions are never edited: changing the text makes a new one.
+  app.post("/api/privacy-policy", requireAdmin, async (req, res, next) => {
+    const result = publishPrivacyPolicySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid privacy policy",
+        errors: result.error.flatten().fieldErrors,
+      });
+    }
+
+    try {
+      const [policy] = await db
+        .insert(privacyPolicies)
+        .values({ body: result.data.body, publishedBy: req.user!.id })
+        .returning();
+      res.status(201).json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Access requests (art. 15 GDPR): everything stored about an address.
+  app.get("/api/personal-data", requireAdmin, async (req, res, next) => {
+    const email = requestEmail(req);
+    if (!email) {
+      return res.status(400).json({ message: "A valid email is required" });
+    }
+
+    try {
+      res.json(await exportPersonalData(email));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Erasure requests (art. 17 GDPR).
+  app.delete("/api/personal-data", requireAdmin, async (req, res, next) => {
+    const email = requestEmail(req);
+    if (!email) {
+      return res.status(400).json({ message: "A valid email is required" });
+    }
+
+    try {
+      res.json(await erasePersonalData(email, req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/sitemap.xml", async (req, res, next) => {
+    try {
+      const [projectRows, [caseHistoryStats], [certificationStats], [privacyStats], sectionRows] = await Promise.all([
+        db
+          .select({ slug: projects.slug, updatedAt: projects.updatedAt })
+          .from(projects)
+          .orderBy(desc(projects.year), desc(projects.id)),
+        db.select({ updatedAt: max(caseHistories.updatedAt) }).from(caseHistories),
+        db.select({ updatedAt: max(certifications.updatedAt) }).from(certifications),
+        db.select({ updatedAt: max(privacyPolicies.publishedAt) }).from(privacyPolicies),
+        db.select({ key: contentSections.key, updatedAt: contentSections.updatedAt }).from(contentSections),
+      ]);
+
+      const updatedAt = new Map<SitemapSource, Date | null>([
+        ["projects", latestDate(...projectRows.map((project) => project.updatedAt))],
+        ["caseHistories", caseHistoryStats.updatedAt],
+        ["certifications", certificationStats.updatedAt],
+        ["privacyPolicy", privacyStats.updatedAt],
+      ]);
+      // Each section has a row per language; any of them changes the page.
+      for (const section of sectionRows) {
+        const key = section.key as ContentSectionKey;
+        updatedAt.set(key, latestDate(updatedAt.get(key), section.updatedAt));
+      }
+
+      const entries = [
+        ...SITEMAP_PAGES.map(({ path, sources }) => ({
+          path,
+          lastModified: latestDate(...sources.map((source) => updatedAt.get(source))),
+        })),
+        ...projectRows.map((project) => ({
+          path: `/realizzazioni/${project.slug}`,
+          lastModified: project.updatedAt,
+        })),
+      ];
+
+      res.type("application/xml").send(renderSitemap(entries, getSiteUrl()));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/robots.txt", (_req, res) => {
+    res.type("text/plain").send(renderRobotsTxt(getSiteUrl()));
+  });
+
+  // One image at a time, so a page only carries the placeholders it shows.
+  app.get("/api/images/metadata", async (req, res, next) => {
+    const src = typeof req.query.src === "string" ? req.query.src : "";
+
+    try {
+      const entry = await getImageManifestEntry(src);
+      if (!entry) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/image-cache", requireAdmin, (_req, res) => {
+    res.json(getImageCacheStats());
+  });
+
+  app.delete("/api/image-cache", requireAdmin, async (_req, res, next) => {
+    try {
+      const removed = await purgeImageCache();
+      res.json({ success: true, removed });
+    } catch (error) {
+      next(error);
+    }
   });
 }
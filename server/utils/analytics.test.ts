@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+import { analyticsEvents } from "@db/schema";
+import { analyticsSummary } from "./analytics";
+
+vi.mock("@db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+  const db = drizzle(new PGlite());
+  await migrate(db, { migrationsFolder: "./drizzle" });
+  return { db };
+});
+
+function pageView(createdAt: string) {
+  return { type: "page_view" as const, path: "/", locale: "it" as const, createdAt: new Date(createdAt) };
+}
+
+beforeEach(async () => {
+  await db.execute(sql`truncate ${analyticsEvents}`);
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("analyticsSummary", () => {
+  it("counts days as they are in Italy", async () => {
+    await db.insert(analyticsEvents).values([
+      // 23:30 on the 9th in Italy.
+      pageView("2026-03-09T22:30:00Z"),
+      // 00:30 on the 10th in Italy, still the 9th in UTC.
+      pageView("2026-03-09T23:30:00Z"),
+      pageView("2026-03-10T11:00:00Z"),
+    ]);
+
+    const summary = await analyticsSummary(2);
+
+    expect(summary.since).toBe("2026-03-09");
+    expect(summary.traffic).toEqual([
+      { date: "2026-03-09", pageViews: 1, formSubmissions: 0 },
+      { date: "2026-03-10", pageViews: 2, formSubmissions: 0 },
+    ]);
+  });
+
+  it("starts the period at midnight in Italy", async () => {
+    await db.insert(analyticsEvents).values([pageView("2026-03-09T22:59:59Z"), pageView("2026-03-09T23:00:00Z")]);
+
+    const summary = await analyticsSummary(1);
+
+    expect(summary.totals.pageViews).toBe(1);
+    expect(summary.traffic).toEqual([{ date: "2026-03-10", pageViews: 1, formSubmissions: 0 }]);
+  });
+});
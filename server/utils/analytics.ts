@@ -0,0 +1,156 @@
+import { and, count, desc, eq, gte, isNotNull, sql, type SQL } from "drizzle-orm";
+import { db } from "@db";
+import { analyticsEvents, projects, type AnalyticsEventInput } from "@db/schema";
+
+// Crawlers and link previews run the site's scripts too.
+const BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|preview|facebookexternalhit/i;
+
+export function isBot(userAgent: string | undefined) {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+// Only the host is kept: a full URL can carry search terms or tokens.
+// Navigation within the site is not a referral.
+function referrerHost(referrer: string | undefined, siteHost: string | undefined) {
+  if (!referrer) {
+    return null;
+  }
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, "");
+    return host && host !== siteHost?.replace(/^www\./, "").split(":")[0] ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordAnalyticsEvent(event: AnalyticsEventInput, siteHost: string | undefined) {
+  await db.insert(analyticsEvents).values({
+    type: event.type,
+    path: event.path.split(/[?#]/)[0],
+    locale: event.locale,
+    referrer: event.type === "page_view" ? referrerHost(event.referrer, siteHost) : null,
+    target: event.type === "page_view" ? null : event.target,
+  });
+}
+
+const TOP_ROWS = 10;
+
+// Days are counted as they are at the office, whatever the time zone of the
+// server or of the database session.
+const TIME_ZONE = "Europe/Rome";
+const zone = sql.raw(`'${TIME_ZONE}'`);
+
+/** The last `days` dates in TIME_ZONE, oldest first, as YYYY-MM-DD. */
+function periodDates(days: number) {
+  const today = new Date(`${new Intl.DateTimeFormat("en-CA", { timeZone: TIME_ZONE }).format(new Date())}T00:00:00Z`);
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(today);
+    date.setUTCDate(today.getUTCDate() - (days - 1 - index));
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+function countWhere(condition: SQL) {
+  return sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+}
+
+/** What the admin dashboard shows for the last `days` days, today included. */
+export async function analyticsSummary(days: number) {
+  const dates = periodDates(days);
+  const since = dates[0];
+  // Midnight of the first day at the office, resolved by the database.
+  const inPeriod = gte(analyticsEvents.createdAt, sql`${since}::date::timestamp at time zone ${zone}`);
+  const ofType = (type: AnalyticsEventInput["type"]) => and(inPeriod, eq(analyticsEvents.type, type));
+  const isPageView = sql`${analyticsEvents.type} = 'page_view'`;
+  const submitted = (form: string) =>
+    sql`${analyticsEvents.type} = 'form_submit' and ${analyticsEvents.target} = ${form}`;
+
+  const day = sql<string>`to_char(${analyticsEvents.createdAt} at time zone ${zone}, 'YYYY-MM-DD')`;
+  const views = count();
+
+  const [totals, daily, pages, projectRows, referrers, ctas, conversions] = await Promise.all([
+    db
+      .select({ type: analyticsEvents.type, events: count() })
+      .from(analyticsEvents)
+      .where(inPeriod)
+      .groupBy(analyticsEvents.type),
+    db
+      .select({
+        date: day,
+        pageViews: countWhere(isPageView),
+        formSubmissions: countWhere(sql`${analyticsEvents.type} = 'form_submit'`),
+      })
+      .from(analyticsEvents)
+      .where(inPeriod)
+      .groupBy(day),
+    db
+      .select({ path: analyticsEvents.path, views })
+      .from(analyticsEvents)
+      .where(ofType("page_view"))
+      .groupBy(analyticsEvents.path)
+      .orderBy(desc(views))
+      .limit(TOP_ROWS),
+    db
+      .select({ slug: analyticsEvents.target, title: projects.title, views })
+      .from(analyticsEvents)
+      .leftJoin(projects, eq(projects.slug, analyticsEvents.target))
+      .where(ofType("project_view"))
+      .groupBy(analyticsEvents.target, projects.title)
+      .orderBy(desc(views))
+      .limit(TOP_ROWS),
+    db
+      .select({ host: analyticsEvents.referrer, views })
+      .from(analyticsEvents)
+      .where(and(ofType("page_view"), isNotNull(analyticsEvents.referrer)))
+      .groupBy(analyticsEvents.referrer)
+      .orderBy(desc(views))
+      .limit(TOP_ROWS),
+    db
+      .select({ cta: analyticsEvents.target, clicks: count() })
+      .from(analyticsEvents)
+      .where(ofType("cta_click"))
+      .groupBy(analyticsEvents.target)
+      .orderBy(desc(count())),
+    // A form is counted on the page it was sent from; pages without views
+    // (e.g. only reached before the period) are left out.
+    db
+      .select({
+        path: analyticsEvents.path,
+        pageViews: countWhere(isPageView),
+        contactForms: countWhere(submitted("contact")),
+        quoteForms: countWhere(submitted("quote")),
+      })
+      .from(analyticsEvents)
+      .where(inPeriod)
+      .groupBy(analyticsEvents.path)
+      .having(sql`count(*) filter (where ${isPageView}) > 0`)
+      .orderBy(desc(countWhere(isPageView)))
+      .limit(TOP_ROWS * 2),
+  ]);
+
+  // Every day of the period, so the chart shows quiet days as zero.
+  const dailyByDate = new Map(daily.map((row) => [row.date, row]));
+  const traffic = dates.map((date) => ({
+    date,
+    pageViews: dailyByDate.get(date)?.pageViews ?? 0,
+    formSubmissions: dailyByDate.get(date)?.formSubmissions ?? 0,
+  }));
+
+  const totalOf = (type: AnalyticsEventInput["type"]) => totals.find((row) => row.type === type)?.events ?? 0;
+
+  return {
+    since,
+    totals: {
+      pageViews: totalOf("page_view"),
+      projectViews: totalOf("project_view"),
+      ctaClicks: totalOf("cta_click"),
+      formSubmissions: totalOf("form_submit"),
+    },
+    traffic,
+    topPages: pages,
+    topProjects: projectRows,
+    referrers,
+    ctaClicks: ctas,
+    conversions,
+  };
+}
@@ -0,0 +1,117 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import { db } from "@db";
+import { companySettings, emailOutbox, type NewOutgoingEmail, type OutgoingEmail } from "@db/schema";
+import { sendMail } from "./mailer";
+
+const MAX_ATTEMPTS = 6;
+// Minutes to wait after each failed attempt, so a mail server that is down
+// for a few hours does not lose anything.
+const RETRY_DELAYS = [1, 5, 30, 120, 720];
+const POLL_INTERVAL = 60 * 1000;
+const BATCH_SIZE = 20;
+
+let delivery: Promise<void> | null = null;
+let deliverAgain = false;
+
+export async function enqueueEmails(emails: NewOutgoingEmail[]) {
+  if (emails.length === 0) {
+    return;
+  }
+  await db.insert(emailOutbox).values(emails);
+  processEmailQueue();
+}
+
+/**
+ * Sends the messages that are due. Calls made while a delivery is running
+ * start another one afterwards instead of overlapping it.
+ */
+export function processEmailQueue() {
+  if (delivery) {
+    deliverAgain = true;
+    return delivery;
+  }
+
+  delivery = deliverDueEmails()
+    .catch((error) => console.error("Email queue error:", error))
+    .finally(() => {
+      delivery = null;
+      if (deliverAgain) {
+        deliverAgain = false;
+        processEmailQueue();
+      }
+    });
+  return delivery;
+}
+
+export function startEmailQueue() {
+  processEmailQueue();
+  setInterval(processEmailQueue, POLL_INTERVAL).unref();
+}
+
+// MAIL_FROM overrides the company's own address, e.g. when the SMTP provider
+// only accepts a verified sender.
+async function senderAddress() {
+  if (process.env.MAIL_FROM) {
+    return process.env.MAIL_FROM;
+  }
+  const [company] = await db
+    .select({ name: companySettings.name, email: companySettings.email })
+    .from(companySettings)
+    .limit(1);
+  if (!company) {
+    throw new Error("MAIL_FROM is not set and there are no company settings to send from");
+  }
+  return `"${company.name}" <${company.email}>`;
+}
+
+async function deliverDueEmails() {
+  const due = await db
+    .select()
+    .from(emailOutbox)
+    .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, new Date())))
+    .orderBy(asc(emailOutbox.id))
+    .limit(BATCH_SIZE);
+  if (due.length === 0) {
+    return;
+  }
+
+  const from = await senderAddress();
+  for (const email of due) {
+    await deliver(email, from);
+  }
+
+  if (due.length === BATCH_SIZE) {
+    deliverAgain = true;
+  }
+}
+
+async function deliver(email: OutgoingEmail, from: string) {
+  const attempts = email.attempts + 1;
+  try {
+    await sendMail({
+      from,
+      to: email.recipient,
+      replyTo: email.replyTo ?? undefined,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", attempts, lastError: null, sentAt: new Date() })
+      .where(eq(emailOutbox.id, email.id));
+  } catch (error) {
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    const delay = RETRY_DELAYS[Math.min(attempts, RETRY_DELAYS.length) - 1] * 60 * 1000;
+    console.error(`Email ${email.id} to ${email.recipient} failed (attempt ${attempts}):`, error);
+    await db
+      .update(emailOutbox)
+      .set({
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + delay),
+      })
+      .where(eq(emailOutbox.id, email.id));
+  }
+}
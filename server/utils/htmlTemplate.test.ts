@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { fillTemplate } from "./htmlTemplate";
+
+const template = [
+  '<html lang="it">',
+  "<head><!--app-head--></head>",
+  '<body><div id="root"><!--app-html--></div><!--app-state--></body>',
+  "</html>",
+].join("");
+
+const rendered = {
+  html: "<p>Preventivo da 1.000$ a 2.000$</p>",
+  head: "<title>Restauri</title>",
+  lang: "en",
+  status: 200,
+  state: { mutations: [], queries: [] },
+};
+
+describe("fillTemplate", () => {
+  it("inserts the rendered page", () => {
+    expect(fillTemplate(template, rendered)).toBe(
+      '<html lang="en"><head><title>Restauri</title></head>' +
+        '<body><div id="root"><p>Preventivo da 1.000$ a 2.000$</p></div>' +
+        '<script>window.__REACT_QUERY_STATE__ = {"mutations":[],"queries":[]};</script></body></html>',
+    );
+  });
+
+  it("inserts replacement patterns in the content as written", () => {
+    const html = "<p>$' $` $& $$</p>";
+    const page = fillTemplate(template, { ...rendered, html, head: "<title>$'</title>" });
+    expect(page).toContain(`<div id="root">${html}</div>`);
+    expect(page).toContain("<head><title>$'</title></head>");
+  });
+});
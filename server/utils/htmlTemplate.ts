@@ -0,0 +1,22 @@
+import type { RenderResult } from "../../client/src/entry-server";
+
+const CLIENT_ONLY_HEAD = '<title>DF Restauri</title>\n    <meta name="robots" content="noindex" />';
+
+/**
+ * Fills index.html with a server-rendered page, or with the client-only head
+ * when there is none. The replacements are functions so that "$&", "$'" and
+ * the like in page content are inserted as written, not expanded.
+ */
+export function fillTemplate(template: string, rendered?: RenderResult) {
+  if (!rendered) {
+    return template.replace("<!--app-head-->", () => CLIENT_ONLY_HEAD).replace("<!--app-state-->", "");
+  }
+
+  // Escape "<" so the JSON cannot close the script tag.
+  const state = JSON.stringify(rendered.state).replace(/</g, "\\u003c");
+  return template
+    .replace('<html lang="it">', () => `<html lang="${rendered.lang}">`)
+    .replace("<!--app-head-->", () => rendered.head)
+    .replace("<!--app-html-->", () => rendered.html)
+    .replace("<!--app-state-->", () => `<script>window.__REACT_QUERY_STATE__ = ${state};</script>`);
+}
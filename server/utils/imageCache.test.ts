@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { imageCacheKey } from "./imageCache";
+
+const source = { mtimeMs: 1_700_000_000_000, size: 120_000 };
+const params = { width: 640, format: "webp" };
+
+describe("imageCacheKey", () => {
+  it("is stable for the same source and parameters", () => {
+    expect(imageCacheKey("images/roof.jpg", source, params)).toBe(
+      imageCacheKey("images/roof.jpg", { ...source }, { ...params }),
+    );
+  });
+
+  it("tells same-named files in different folders apart", () => {
+    expect(imageCacheKey("images/a/roof.jpg", source, params)).not.toBe(
+      imageCacheKey("images/b/roof.jpg", source, params),
+    );
+  });
+
+  it("changes when the source file is replaced", () => {
+    const key = imageCacheKey("images/roof.jpg", source, params);
+    expect(imageCacheKey("images/roof.jpg", { ...source, mtimeMs: source.mtimeMs + 1 }, params)).not.toBe(key);
+    expect(imageCacheKey("images/roof.jpg", { ...source, size: source.size + 1 }, params)).not.toBe(key);
+  });
+
+  it("changes with the transform parameters", () => {
+    const key = imageCacheKey("images/roof.jpg", source, params);
+    expect(imageCacheKey("images/roof.jpg", source, { ...params, width: 960 })).not.toBe(key);
+    expect(imageCacheKey("images/roof.jpg", source, { ...params, format: "avif" })).not.toBe(key);
+  });
+});
@@ -0,0 +1,117 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createHash } from 'crypto';
+
+export const CACHE_DIR = path.join(process.cwd(), 'public', 'cache');
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+const MAX_BYTES = Number(process.env.IMAGE_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES;
+
+// Cached files in least-recently-used order: a Map keeps insertion order, so
+// every hit moves its entry to the end and eviction starts from the front.
+const entries = new Map<string, number>();
+let totalBytes = 0;
+
+// Concurrent requests for the same variant share a single encode.
+const pending = new Map<string, Promise<string>>();
+
+export async function ensureCacheDirectory() {
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+
+  const files = await fs.readdir(CACHE_DIR);
+  const stats = await Promise.all(
+    files.map(async (file) => ({ file, stat: await fs.stat(path.join(CACHE_DIR, file)) })),
+  );
+
+  entries.clear();
+  totalBytes = 0;
+  stats
+    .filter(({ stat }) => stat.isFile())
+    .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs)
+    .forEach(({ file, stat }) => {
+      entries.set(file, stat.size);
+      totalBytes += stat.size;
+    });
+
+  await evict();
+}
+
+// The key covers everything that changes the output: the source path relative
+// to its public root (so same-named files in different folders never clash),
+// the source mtime and size (so replacing an image invalidates its variants)
+// and the transform parameters.
+export function imageCacheKey(
+  relativePath: string,
+  source: { mtimeMs: number; size: number },
+  params: Record<string, string | number | undefined>,
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify([relativePath, source.mtimeMs, source.size, params]))
+    .digest('hex');
+}
+
+export async function getCachedFile(
+  filename: string,
+  produce: (outputPath: string) => Promise<void>,
+): Promise<string> {
+  const cachedPath = path.join(CACHE_DIR, filename);
+
+  const size = entries.get(filename);
+  if (size !== undefined) {
+    entries.delete(filename);
+    entries.set(filename, size);
+    return cachedPath;
+  }
+
+  let job = pending.get(filename);
+  if (!job) {
+    job = (async () => {
+      // Encode to a temporary name first so a crash never leaves a truncated
+      // file behind under the final key.
+      const tempPath = `${cachedPath}.${process.pid}.tmp`;
+      await produce(tempPath);
+      await fs.rename(tempPath, cachedPath);
+
+      const { size } = await fs.stat(cachedPath);
+      entries.set(filename, size);
+      totalBytes += size;
+      await evict();
+      return cachedPath;
+    })().finally(() => pending.delete(filename));
+    pending.set(filename, job);
+  }
+
+  return job;
+}
+
+// Drops least recently used files until the cache fits, always keeping the
+// newest entry so the variant being served is never deleted under the response.
+async function evict() {
+  for (const [filename, size] of Array.from(entries)) {
+    if (totalBytes <= MAX_BYTES || entries.size <= 1) {
+      break;
+    }
+
+    entries.delete(filename);
+    totalBytes -= size;
+    await fs.rm(path.join(CACHE_DIR, filename), { force: true });
+  }
+}
+
+export function getImageCacheStats() {
+  return { files: entries.size, bytes: totalBytes, maxBytes: MAX_BYTES };
+}
+
+export async function purgeImageCache() {
+  const removed = { files: entries.size, bytes: totalBytes };
+
+  await Promise.all(
+    Array.from(entries.keys()).map((filename) =>
+      fs.rm(path.join(CACHE_DIR, filename), { force: true }),
+    ),
+  );
+  entries.clear();
+  totalBytes = 0;
+
+  return removed;
+}
@@ -0,0 +1,41 @@
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, describe, expect, it } from "vitest";
+import { getImageManifestEntry } from "./imageManifest";
+import { MEDIA_UPLOADS_DIR } from "./imageProcessing";
+
+const directory = path.join(MEDIA_UPLOADS_DIR, "manifest-test");
+
+function solidImage(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: "#b08060" } }).webp().toBuffer();
+}
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("getImageManifestEntry", () => {
+  it("describes an uploaded image and follows it when replaced", async () => {
+    await fs.mkdir(directory, { recursive: true });
+    const file = path.join(directory, "cantiere.webp");
+    await fs.writeFile(file, await solidImage(400, 300));
+
+    const entry = await getImageManifestEntry("/media/manifest-test/cantiere.webp");
+    expect(entry).toMatchObject({ width: 400, height: 300 });
+    expect(entry?.placeholder).toMatch(/^data:image\//);
+
+    await fs.writeFile(file, await solidImage(200, 300));
+    await fs.utimes(file, new Date(), new Date(Date.now() + 1000));
+    expect(await getImageManifestEntry("/media/manifest-test/cantiere.webp")).toMatchObject({ width: 200, height: 300 });
+
+    await fs.rm(file);
+    expect(await getImageManifestEntry("/media/manifest-test/cantiere.webp")).toBeNull();
+  });
+
+  it("knows nothing outside the image folders", async () => {
+    expect(await getImageManifestEntry("/images/../../package.json")).toBeNull();
+    expect(await getImageManifestEntry("/media/../../server/index.ts")).toBeNull();
+    expect(await getImageManifestEntry("https://images.example.com/roof.jpg")).toBeNull();
+  });
+});
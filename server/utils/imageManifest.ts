@@ -0,0 +1,115 @@
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import type { ImageManifestEntry } from '@db/schema';
+import { IMAGE_ROOTS, MEDIA_UPLOADS_DIR, generatePlaceholder, isImagePath } from './imageProcessing';
+
+interface CachedEntry extends ImageManifestEntry {
+  mtimeMs: number;
+  size: number;
+}
+
+// Keyed by URL. An entry is only recomputed when its file was replaced, e.g.
+// a new upload under the same name, and is dropped once the file is gone.
+const entries = new Map<string, CachedEntry>();
+
+// The static images under /images and the photos uploaded from the back
+// office under /media, e.g. before/after pairs.
+const IMAGE_DIRECTORIES = [
+  ...IMAGE_ROOTS.map((root) => ({ prefix: '/images/', directory: path.join(root, 'images') })),
+  { prefix: '/media/', directory: MEDIA_UPLOADS_DIR },
+];
+
+// Uploads are stored as WebP, which the static images never are.
+function isManifestImage(filepath: string) {
+  return isImagePath(filepath) || path.extname(filepath).toLowerCase() === '.webp';
+}
+
+async function listImages(directory: string): Promise<string[]> {
+  let dirents;
+  try {
+    dirents = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    // Nothing has been uploaded yet.
+    return [];
+  }
+  const nested = await Promise.all(
+    dirents.map((dirent) => {
+      const fullPath = path.join(directory, dirent.name);
+      if (dirent.isDirectory()) {
+        return listImages(fullPath);
+      }
+      return Promise.resolve(isManifestImage(fullPath) ? [fullPath] : []);
+    }),
+  );
+
+  return nested.flat();
+}
+
+async function findImageFile(url: string) {
+  if (!isManifestImage(url)) {
+    return null;
+  }
+
+  for (const { prefix, directory } of IMAGE_DIRECTORIES) {
+    if (!url.startsWith(prefix)) {
+      continue;
+    }
+    const imagePath = path.join(directory, url.slice(prefix.length));
+    if (!imagePath.startsWith(directory + path.sep)) {
+      return null;
+    }
+
+    try {
+      const { mtimeMs, size } = await fs.stat(imagePath);
+      return { imagePath, mtimeMs, size };
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/** Size and blurred preview of the image at a /images or /media URL, or null if there is none. */
+export async function getImageManifestEntry(url: string): Promise<ImageManifestEntry | null> {
+  const file = await findImageFile(url);
+  if (!file) {
+    entries.delete(url);
+    return null;
+  }
+
+  let entry = entries.get(url);
+  if (!entry || entry.mtimeMs !== file.mtimeMs || entry.size !== file.size) {
+    // Read afresh: sharp caches what it opens by file name.
+    const image = await fs.readFile(file.imagePath);
+    const metadata = await sharp(image).metadata();
+    // Orientations 5-8 are rotated by 90 degrees when displayed.
+    const isRotated = (metadata.orientation ?? 1) >= 5;
+    entry = {
+      width: (isRotated ? metadata.height : metadata.width) ?? 0,
+      height: (isRotated ? metadata.width : metadata.height) ?? 0,
+      placeholder: await generatePlaceholder(image),
+      mtimeMs: file.mtimeMs,
+      size: file.size,
+    };
+    entries.set(url, entry);
+  }
+
+  return { width: entry.width, height: entry.height, placeholder: entry.placeholder };
+}
+
+/** Computes every placeholder ahead of time, so the first visitors do not wait for them. */
+export async function warmImageManifest() {
+  // Sequential on purpose: sharp already uses every core for each image.
+  for (const { prefix, directory } of IMAGE_DIRECTORIES) {
+    for (const imagePath of await listImages(directory)) {
+      const url = `${prefix}${path.relative(directory, imagePath).split(path.sep).join('/')}`;
+      try {
+        await getImageManifestEntry(url);
+      } catch (error) {
+        console.error(`Image manifest: skipping ${url}:`, error);
+      }
+    }
+  }
+}
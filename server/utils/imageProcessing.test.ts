@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { RESPONSIVE_WIDTHS, negotiateFormat, snapWidth } from "./imageProcessing";
+
+describe("snapWidth", () => {
+  it("keeps the widths the client requests", () => {
+    for (const width of RESPONSIVE_WIDTHS) {
+      expect(snapWidth(width)).toBe(width);
+    }
+  });
+
+  it("rounds other widths up to the next responsive width", () => {
+    expect(snapWidth(1)).toBe(320);
+    expect(snapWidth(321)).toBe(640);
+    expect(snapWidth(1000)).toBe(1280);
+  });
+
+  it("caps widths above the largest one", () => {
+    expect(snapWidth(5000)).toBe(1920);
+  });
+});
+
+describe("negotiateFormat", () => {
+  it("prefers AVIF, then WebP", () => {
+    expect(negotiateFormat("image/avif,image/webp,*/*", "/images/roof.jpg")).toBe("avif");
+    expect(negotiateFormat("image/webp,*/*", "/images/roof.jpg")).toBe("webp");
+  });
+
+  it("falls back to the source encoding", () => {
+    expect(negotiateFormat(undefined, "/images/logo.PNG")).toBe("png");
+    expect(negotiateFormat("*/*", "/images/roof.jpeg")).toBe("jpeg");
+  });
+
+  it("leaves a GIF as it is rather than turning it into a JPEG", () => {
+    expect(negotiateFormat("*/*", "/images/cantiere.GIF")).toBeNull();
+    expect(negotiateFormat("image/webp,*/*", "/images/cantiere.gif")).toBe("webp");
+  });
+});
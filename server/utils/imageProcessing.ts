@@ -1,36 +1,178 @@
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs/promises';
+import { getCachedFile, imageCacheKey } from './imageCache';
 
-const CACHE_DIR = path.join(process.cwd(), 'public', 'cache');
+// Widths the client requests through srcset; anything else is rounded up to
+// the next one so arbitrary ?w= values cannot fill the cache.
+export const RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920];
 
-export async function ensureCacheDirectory() {
-  try {
-    await fs.access(CACHE_DIR);
-  } catch {
-    await fs.mkdir(CACHE_DIR, { recursive: true });
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+// Static images are read from the Vite public folder in development and from
+// the build output in production.
+export const IMAGE_ROOTS = [
+  path.join(process.cwd(), 'client', 'public'),
+  path.join(process.cwd(), 'dist', 'public'),
+];
+
+export function isImagePath(filepath: string): boolean {
+  const ext = path.extname(filepath).toLowerCase();
+  return ['.jpg', '.jpeg', '.png', '.gif'].includes(ext);
+}
+
+export function snapWidth(width: number): number {
+  return RESPONSIVE_WIDTHS.find((candidate) => candidate >= width) ?? RESPONSIVE_WIDTHS[RESPONSIVE_WIDTHS.length - 1];
+}
+
+// Picks the best format the browser advertises, falling back to the
+// original encoding for clients that accept neither AVIF nor WebP. Null means
+// the file should be sent as it is: a GIF re-encoded as JPEG would lose its
+// animation and transparency.
+export function negotiateFormat(accept: string | undefined, sourcePath: string): ImageFormat | null {
+  if (accept?.includes('image/avif')) {
+    return 'avif';
+  }
+  if (accept?.includes('image/webp')) {
+    return 'webp';
+  }
+
+  const ext = path.extname(sourcePath).toLowerCase();
+  if (ext === '.gif') {
+    return null;
   }
+  return ext === '.png' ? 'png' : 'jpeg';
+}
+
+export interface SourceImage {
+  path: string;
+  relativePath: string;
+  mtimeMs: number;
+  size: number;
 }
 
-export async function convertToWebP(imagePath: string): Promise<string> {
-  const ext = path.extname(imagePath);
-  const basename = path.basename(imagePath, ext);
-  const webpFilename = `${basename}.webp`;
-  const webpPath = path.join(CACHE_DIR, webpFilename);
-
-  try {
-    await fs.access(webpPath);
-    return `/cache/${webpFilename}`;
-  } catch {
-    await sharp(imagePath)
-      .webp({ quality: 80 })
-      .toFile(webpPath);
-    
-    return `/cache/${webpFilename}`;
+export async function resolveSourceImage(requestPath: string): Promise<SourceImage | null> {
+  const relativePath = path.normalize(requestPath).replace(/^[/\\]+/, '');
+
+  for (const root of IMAGE_ROOTS) {
+    const sourcePath = path.join(root, relativePath);
+    if (!sourcePath.startsWith(root + path.sep)) {
+      return null;
+    }
+
+    try {
+      const { mtimeMs, size } = await fs.stat(sourcePath);
+      return { path: sourcePath, relativePath, mtimeMs, size };
+    } catch {
+      continue;
+    }
   }
+
+  return null;
 }
 
-export function isImagePath(filepath: string): boolean {
-  const ext = path.extname(filepath).toLowerCase();
-  return ['.jpg', '.jpeg', '.png', '.gif'].includes(ext);
+export async function transformImage(
+  source: SourceImage,
+  options: { width?: number; format: ImageFormat },
+): Promise<string> {
+  const key = imageCacheKey(source.relativePath, source, options);
+
+  return getCachedFile(`${key}.${options.format}`, async (outputPath) => {
+    let pipeline = sharp(source.path).rotate();
+    if (options.width) {
+      pipeline = pipeline.resize({ width: options.width, withoutEnlargement: true });
+    }
+
+    switch (options.format) {
+      case 'avif':
+        pipeline = pipeline.avif({ quality: 50 });
+        break;
+      case 'webp':
+        pipeline = pipeline.webp({ quality: 80 });
+        break;
+      case 'png':
+        pipeline = pipeline.png();
+        break;
+      default:
+        pipeline = pipeline.jpeg({ quality: 80, mozjpeg: true });
+    }
+
+    await pipeline.toFile(outputPath);
+  });
+}
+
+// A ~16px wide blurred copy inlined as a data URI; the client shows it
+// stretched behind the real image until that finishes loading.
+export async function generatePlaceholder(input: string | Buffer): Promise<string> {
+  const buffer = await sharp(input)
+    .rotate()
+    .resize({ width: 16, height: 16, fit: 'inside' })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return `data:image/webp;base64,${buffer.toString('base64')}`;
+}
+
+export const QUOTE_UPLOADS_DIR = path.join(process.cwd(), 'uploads', 'quotes');
+
+// Public media uploaded from the back office, served under /media.
+export const MEDIA_UPLOADS_DIR = path.join(process.cwd(), 'uploads', 'media');
+
+export interface ProcessedImage {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+  placeholder: string;
+}
+
+// Normalises a customer photo before it is stored: rotate() applies the EXIF
+// orientation, and since withMetadata() is never called sharp drops the EXIF
+// block (GPS position included) from both outputs.
+export async function processUploadedImage(buffer: Buffer): Promise<ProcessedImage> {
+  const source = sharp(buffer, { failOn: 'error' }).rotate();
+
+  const { data: image, info } = await source
+    .clone()
+    .resize({ width: 2000, height: 2000, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await source
+    .clone()
+    .resize({ width: 400, height: 400, fit: 'cover' })
+    .webp({ quality: 70 })
+    .toBuffer();
+
+  const placeholder = await generatePlaceholder(image);
+
+  return { image, thumbnail, width: info.width, height: info.height, placeholder };
+}
+
+export interface AlignedImagePair {
+  before: Buffer;
+  after: Buffer;
+  width: number;
+  height: number;
+}
+
+// Brings a before/after pair to identical dimensions: the "after" photo is
+// cropped to the framing of the "before" one, so the comparison slider can
+// overlay them without the image jumping as the handle moves.
+export async function alignImagePair(before: Buffer, after: Buffer): Promise<AlignedImagePair> {
+  const source = sharp(before, { failOn: 'error' }).rotate();
+  const { width = 0, height = 0, orientation = 1 } = await source.metadata();
+  const [sourceWidth, sourceHeight] = orientation >= 5 ? [height, width] : [width, height];
+
+  const targetWidth = Math.min(sourceWidth, 2000);
+  const targetHeight = Math.round((sourceHeight * targetWidth) / sourceWidth);
+  const resize = { width: targetWidth, height: targetHeight, fit: 'cover' as const };
+
+  const [beforeImage, afterImage] = await Promise.all([
+    source.clone().resize(resize).webp({ quality: 80 }).toBuffer(),
+    sharp(after, { failOn: 'error' }).rotate().resize(resize).webp({ quality: 80 }).toBuffer(),
+  ]);
+
+  return { before: beforeImage, after: afterImage, width: targetWidth, height: targetHeight };
 }
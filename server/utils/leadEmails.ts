@@ -0,0 +1,238 @@
+import type {
+  CompanySettings,
+  ContactSubmission,
+  NewOutgoingEmail,
+  ProjectCategory,
+  PropertyType,
+  QuoteRequest,
+  QuoteTimeframe,
+} from "@db/schema";
+
+// The emails sent when a customer gets in touch: a notification for the
+// office and a confirmation for the customer, both in Italian.
+
+const SERVICE_LABELS: Record<ProjectCategory, string> = {
+  restauro: "Restauro",
+  costruzione: "Costruzione",
+  ristrutturazione: "Ristrutturazione",
+};
+
+const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  abitazione: "Abitazione privata",
+  condominio: "Condominio",
+  edificio_storico: "Edificio storico o vincolato",
+  commerciale: "Locale commerciale / uffici",
+  industriale: "Capannone industriale",
+};
+
+const TIMEFRAME_LABELS: Record<QuoteTimeframe, string> = {
+  urgente: "Il prima possibile",
+  entro_3_mesi: "Entro 3 mesi",
+  entro_6_mesi: "Entro 6 mesi",
+  oltre_6_mesi: "Oltre 6 mesi",
+  da_definire: "Da definire",
+};
+
+type Field = [label: string, value: string];
+
+interface EmailBody {
+  subject: string;
+  /** Opening paragraphs, plain text. */
+  intro: string[];
+  fields: Field[];
+  /** Free text shown after the fields, e.g. the customer's message. */
+  message?: { label: string; text: string };
+  link?: { label: string; url: string };
+  closing?: string[];
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paragraphsHtml(paragraphs: string[]) {
+  return paragraphs.map((text) => `<p style="margin:0 0 16px">${escapeHtml(text)}</p>`).join("");
+}
+
+function renderHtml(body: EmailBody, company: CompanySettings) {
+  const rows = body.fields
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;vertical-align:top">${escapeHtml(label)}</td>` +
+        `<td style="padding:4px 0">${escapeHtml(value)}</td></tr>`,
+    )
+    .join("");
+  const message = body.message
+    ? `<p style="margin:16px 0 4px;color:#6b7280">${escapeHtml(body.message.label)}</p>` +
+      `<p style="margin:0 0 16px;white-space:pre-line">${escapeHtml(body.message.text)}</p>`
+    : "";
+  const link = body.link
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(body.link.url)}" style="background:#1f2937;color:#ffffff;padding:10px 16px;border-radius:4px;text-decoration:none">${escapeHtml(body.link.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="it">
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;font-size:15px;color:#111827">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;padding:32px;border-radius:6px">
+      ${paragraphsHtml(body.intro)}
+      <table style="border-collapse:collapse;margin:8px 0 16px">${rows}</table>
+      ${message}
+      ${link}
+      ${paragraphsHtml(body.closing ?? [])}
+      <p style="margin:32px 0 0;font-size:12px;color:#6b7280">${escapeHtml(companyFooter(company))}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function renderText(body: EmailBody, company: CompanySettings) {
+  const sections = [
+    body.intro.join("\n\n"),
+    body.fields.map(([label, value]) => `${label}: ${value}`).join("\n"),
+  ];
+  if (body.message) {
+    sections.push(`${body.message.label}:\n${body.message.text}`);
+  }
+  if (body.link) {
+    sections.push(`${body.link.label}: ${body.link.url}`);
+  }
+  if (body.closing) {
+    sections.push(body.closing.join("\n\n"));
+  }
+  sections.push(`--\n${companyFooter(company)}`);
+  return sections.join("\n\n") + "\n";
+}
+
+function companyFooter(company: CompanySettings) {
+  return `${company.legalName} · ${company.street}, ${company.postalCode} ${company.city} (${company.province}) · P.IVA ${company.vatNumber} · Tel. ${company.phone}`;
+}
+
+function toEmail(
+  template: string,
+  recipient: string,
+  body: EmailBody,
+  company: CompanySettings,
+  replyTo?: string,
+): NewOutgoingEmail {
+  return {
+    template,
+    recipient,
+    replyTo,
+    subject: body.subject,
+    html: renderHtml(body, company),
+    text: renderText(body, company),
+  };
+}
+
+// MAIL_NOTIFY_TO sends the office notifications somewhere other than the
+// company's address, e.g. a shared inbox.
+function officeAddress(company: CompanySettings) {
+  return process.env.MAIL_NOTIFY_TO ?? company.email;
+}
+
+function customerClosing(company: CompanySettings) {
+  return [
+    `Per qualsiasi necessità può rispondere a questa email o chiamarci al ${company.phone}.`,
+    `Cordiali saluti,\n${company.name}`,
+  ];
+}
+
+export function contactEmails(submission: ContactSubmission, company: CompanySettings): NewOutgoingEmail[] {
+  const fields: Field[] = [
+    ["Nome", submission.name],
+    ["Email", submission.email],
+    ["Telefono", submission.phone],
+  ];
+
+  const notification = toEmail(
+    "contact-notification",
+    officeAddress(company),
+    {
+      subject: `Nuovo messaggio dal sito da ${submission.name}`,
+      intro: ["È arrivato un nuovo messaggio dal modulo contatti del sito."],
+      fields,
+      message: { label: "Messaggio", text: submission.message },
+      closing: ["Rispondendo a questa email si scrive direttamente al cliente."],
+    },
+    company,
+    submission.email,
+  );
+
+  const confirmation = toEmail(
+    "contact-confirmation",
+    submission.email,
+    {
+      subject: `Abbiamo ricevuto il suo messaggio - ${company.name}`,
+      intro: [
+        `Gentile ${submission.name},`,
+        "grazie per averci contattato. Abbiamo ricevuto il suo messaggio e le risponderemo al più presto.",
+      ],
+      fields,
+      message: { label: "Il suo messaggio", text: submission.message },
+      closing: customerClosing(company),
+    },
+    company,
+    company.email,
+  );
+
+  return [notification, confirmation];
+}
+
+export function quoteEmails(
+  quote: QuoteRequest,
+  photoCount: number,
+  company: CompanySettings,
+  siteUrl: string,
+): NewOutgoingEmail[] {
+  const requestFields: Field[] = [
+    ["Lavoro", SERVICE_LABELS[quote.serviceType]],
+    ["Immobile", PROPERTY_TYPE_LABELS[quote.propertyType]],
+    ["Indirizzo", quote.address],
+    ...(quote.surface ? [["Superficie", `${quote.surface} m²`] as Field] : []),
+    ["Tempistiche", TIMEFRAME_LABELS[quote.timeframe]],
+    ["Foto allegate", String(photoCount)],
+  ];
+  const contactFields: Field[] = [
+    ["Nome", quote.name],
+    ["Email", quote.email],
+    ["Telefono", quote.phone],
+  ];
+
+  const notification = toEmail(
+    "quote-notification",
+    officeAddress(company),
+    {
+      subject: `Nuova richiesta di preventivo n. ${quote.id}: ${SERVICE_LABELS[quote.serviceType].toLowerCase()} a ${quote.address}`,
+      intro: ["È arrivata una nuova richiesta di preventivo dal sito."],
+      fields: [...contactFields, ...requestFields],
+      message: { label: "Descrizione del lavoro", text: quote.description },
+      link: { label: "Apri la richiesta", url: new URL(`/admin/preventivi/${quote.id}`, siteUrl).href },
+    },
+    company,
+    quote.email,
+  );
+
+  const confirmation = toEmail(
+    "quote-confirmation",
+    quote.email,
+    {
+      subject: `Richiesta di preventivo ricevuta - ${company.name}`,
+      intro: [
+        `Gentile ${quote.name},`,
+        "grazie per la sua richiesta di preventivo. La ricontatteremo a breve per fissare un sopralluogo.",
+        "Di seguito il riepilogo di quanto ci ha indicato:",
+      ],
+      fields: requestFields,
+      message: { label: "Descrizione del lavoro", text: quote.description },
+      closing: customerClosing(company),
+    },
+    company,
+    company.email,
+  );
+
+  return [notification, confirmation];
+}
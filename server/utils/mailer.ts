@@ -0,0 +1,66 @@
+import path from "path";
+import fs from "fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR ?? path.join(process.cwd(), "outbox");
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type MailTransport = "smtp" | "outbox";
+
+// MAIL_TRANSPORT chooses how messages leave the server. "smtp" needs
+// SMTP_HOST and is the default when it is set; "outbox" writes each message
+// as an .eml file under MAIL_OUTBOX_DIR and logs it, for development and tests.
+function mailTransport(): MailTransport {
+  const configured = process.env.MAIL_TRANSPORT;
+  if (configured === "smtp" || configured === "outbox") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${configured}", expected "smtp" or "outbox"`);
+  }
+  return process.env.SMTP_HOST ? "smtp" : "outbox";
+}
+
+function createSmtpTransport() {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to send mail over SMTP");
+  }
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return nodemailer.createTransport({
+    host,
+    port,
+    // Port 465 speaks TLS from the start; the others upgrade with STARTTLS.
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+}
+
+let transporter: Transporter | null = null;
+
+export async function sendMail(message: MailMessage) {
+  if (mailTransport() === "outbox") {
+    return writeToOutbox(message);
+  }
+
+  transporter ??= createSmtpTransport();
+  await transporter.sendMail(message);
+}
+
+const outboxTransporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+async function writeToOutbox(message: MailMessage) {
+  const info = await outboxTransporter.sendMail(message);
+  await fs.mkdir(MAIL_OUTBOX_DIR, { recursive: true });
+  const file = path.join(MAIL_OUTBOX_DIR, `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, "")}.eml`);
+  await fs.writeFile(file, info.message as Buffer);
+  console.log(`Mail to ${message.to} "${message.subject}" written to ${file}`);
+}
@@ -0,0 +1,23 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Stored as "<hex hash>.<hex salt>" in users.password.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derivedKey = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derivedKey.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(hash, "hex");
+  const derivedKey = (await scryptAsync(password, salt, storedKey.length)) as Buffer;
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+}
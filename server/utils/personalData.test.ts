@@ -0,0 +1,172 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+import {
+  DATA_RETENTION_DAYS,
+  contactSubmissions,
+  cookieConsents,
+  emailOutbox,
+  personalDataErasures,
+  quoteAttachments,
+  quoteRequests,
+  users,
+} from "@db/schema";
+import { erasePersonalData, exportPersonalData, hashEmail, purgeExpiredPersonalData } from "./personalData";
+
+// The real schema, migrated into an in-memory Postgres.
+vi.mock("@db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+  const db = drizzle(new PGlite());
+  await migrate(db, { migrationsFolder: "./drizzle" });
+  return { db };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * DAY);
+}
+
+function contact(email: string, overrides: Partial<typeof contactSubmissions.$inferInsert> = {}) {
+  return { name: "Mario Rossi", email, phone: "0432 123456", message: "Vorrei un preventivo.", ...overrides };
+}
+
+function quote(email: string, overrides: Partial<typeof quoteRequests.$inferInsert> = {}) {
+  return {
+    serviceType: "ristrutturazione" as const,
+    propertyType: "abitazione" as const,
+    address: "Via Roma 1, Udine",
+    timeframe: "entro_6_mesi" as const,
+    description: "Rifacimento del bagno",
+    name: "Mario Rossi",
+    email,
+    phone: "0432 123456",
+    ...overrides,
+  };
+}
+
+function sentEmail(recipient: string, overrides: Partial<typeof emailOutbox.$inferInsert> = {}) {
+  return { template: "contact-confirmation", recipient, subject: "Grazie", html: "<p>Grazie</p>", text: "Grazie", ...overrides };
+}
+
+let adminId: number;
+
+beforeAll(async () => {
+  const [admin] = await db.insert(users).values({ username: "privacy-admin", password: "x", role: "admin" }).returning();
+  adminId = admin.id;
+});
+
+beforeEach(async () => {
+  await db.execute(
+    sql`truncate ${contactSubmissions}, ${quoteRequests}, ${emailOutbox}, ${cookieConsents}, ${personalDataErasures} restart identity cascade`,
+  );
+});
+
+describe("exportPersonalData", () => {
+  it("collects everything stored under an address, whatever its case", async () => {
+    const [request] = await db.insert(quoteRequests).values(quote("Mario.Rossi@example.it")).returning();
+    await db.insert(quoteAttachments).values({
+      quoteRequestId: request.id,
+      originalName: "bagno.jpg",
+      filename: "1.webp",
+      thumbnailFilename: "1-thumb.webp",
+      width: 800,
+      height: 600,
+      size: 1000,
+    });
+    await db.insert(contactSubmissions).values([contact("mario.rossi@example.it"), contact("other@example.it")]);
+    await db
+      .insert(emailOutbox)
+      .values([
+        sentEmail("mario.rossi@example.it"),
+        sentEmail("ufficio@example.it", { replyTo: "MARIO.ROSSI@example.it" }),
+        sentEmail("other@example.it"),
+      ]);
+
+    const data = await exportPersonalData(" Mario.Rossi@Example.it ");
+
+    expect(data.email).toBe("mario.rossi@example.it");
+    expect(data.contactSubmissions).toHaveLength(1);
+    expect(data.quoteRequests).toHaveLength(1);
+    expect(data.quoteRequests[0].attachments.map((attachment) => attachment.originalName)).toEqual(["bagno.jpg"]);
+    expect(data.emails.map((email) => email.recipient).sort()).toEqual(["mario.rossi@example.it", "ufficio@example.it"]);
+  });
+});
+
+describe("erasePersonalData", () => {
+  it("deletes the rows of that address only", async () => {
+    await db.insert(contactSubmissions).values([contact("mario.rossi@example.it"), contact("other@example.it")]);
+    await db.insert(quoteRequests).values(quote("MARIO.ROSSI@example.it"));
+    await db
+      .insert(emailOutbox)
+      .values([sentEmail("ufficio@example.it", { replyTo: "mario.rossi@example.it" }), sentEmail("other@example.it")]);
+
+    expect(await erasePersonalData("mario.rossi@example.it", adminId)).toEqual({
+      contactSubmissions: 1,
+      quoteRequests: 1,
+      emails: 1,
+    });
+
+    const left = await exportPersonalData("other@example.it");
+    expect(left.contactSubmissions).toHaveLength(1);
+    expect(left.emails).toHaveLength(1);
+    expect((await exportPersonalData("mario.rossi@example.it")).quoteRequests).toHaveLength(0);
+  });
+
+  it("records the erasure without the address", async () => {
+    await db.insert(contactSubmissions).values(contact("mario.rossi@example.it"));
+
+    await erasePersonalData(" Mario.Rossi@example.it", adminId);
+
+    const [erasure] = await db.select().from(personalDataErasures);
+    expect(erasure).toMatchObject({
+      emailHash: hashEmail("mario.rossi@example.it"),
+      contactSubmissions: 1,
+      quoteRequests: 0,
+      emails: 0,
+      erasedBy: adminId,
+    });
+    expect(JSON.stringify(erasure)).not.toContain("mario");
+  });
+});
+
+describe("purgeExpiredPersonalData", () => {
+  it("deletes what is past its retention period and keeps the rest", async () => {
+    await db.insert(contactSubmissions).values([
+      contact("old@example.it", { createdAt: daysAgo(DATA_RETENTION_DAYS.contactSubmissions + 1) }),
+      contact("recent@example.it", { createdAt: daysAgo(DATA_RETENTION_DAYS.spam + 1) }),
+      contact("spam@example.it", { isSpam: true, createdAt: daysAgo(DATA_RETENTION_DAYS.spam + 1) }),
+    ]);
+    await db.insert(quoteRequests).values([
+      quote("closed@example.it", { status: "declined", statusChangedAt: daysAgo(DATA_RETENTION_DAYS.quoteRequests + 1) }),
+      quote("accepted@example.it", { status: "accepted", statusChangedAt: daysAgo(DATA_RETENTION_DAYS.quoteRequests + 1) }),
+    ]);
+    await db.insert(emailOutbox).values([
+      sentEmail("sent@example.it", { status: "sent", createdAt: daysAgo(DATA_RETENTION_DAYS.emails + 1) }),
+      sentEmail("pending@example.it", { createdAt: daysAgo(DATA_RETENTION_DAYS.emails + 1) }),
+    ]);
+    await db.insert(cookieConsents).values({
+      consentId: "6f1c2f9e-4b8a-4d2e-9c1a-0e5b7d3f2a10",
+      version: 1,
+      statistics: true,
+      marketing: false,
+      createdAt: daysAgo(DATA_RETENTION_DAYS.cookieConsents + 1),
+    });
+
+    expect(await purgeExpiredPersonalData()).toEqual({
+      contactSubmissions: 2,
+      quoteRequests: 1,
+      emails: 1,
+      cookieConsents: 1,
+    });
+
+    const submissions = await db.select({ email: contactSubmissions.email }).from(contactSubmissions);
+    expect(submissions).toEqual([{ email: "recent@example.it" }]);
+    const quotes = await db.select({ email: quoteRequests.email }).from(quoteRequests);
+    expect(quotes).toEqual([{ email: "accepted@example.it" }]);
+    const emails = await db.select({ recipient: emailOutbox.recipient }).from(emailOutbox);
+    expect(emails).toEqual([{ recipient: "pending@example.it" }]);
+  });
+});
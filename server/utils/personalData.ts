@@ -0,0 +1,170 @@
+import path from "path";
+import fs from "fs/promises";
+import { createHash } from "crypto";
+import { and, eq, inArray, lt, ne, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "@db";
+import {
+  DATA_RETENTION_DAYS,
+  contactSubmissions,
+  cookieConsents,
+  emailOutbox,
+  personalDataErasures,
+  quoteAttachments,
+  quoteRequests,
+} from "@db/schema";
+import { QUOTE_UPLOADS_DIR } from "./imageProcessing";
+
+// Personal data is tied to a person by email address: contact messages,
+// quote requests with their photos, and the emails sent to or about them.
+// Testimonials only carry a display name, so they cannot be matched.
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function sameEmail(column: AnyPgColumn, email: string): SQL {
+  return sql`lower(${column}) = ${normalizeEmail(email)}`;
+}
+
+/** How erasures are recorded in place of the address (see personalDataErasures). */
+export function hashEmail(email: string) {
+  return createHash("sha256").update(normalizeEmail(email)).digest("hex");
+}
+
+/** Everything stored about an email address, for an access request (art. 15 GDPR). */
+export async function exportPersonalData(email: string) {
+  const [submissions, quotes, emails] = await Promise.all([
+    db.select().from(contactSubmissions).where(sameEmail(contactSubmissions.email, email)),
+    db.select().from(quoteRequests).where(sameEmail(quoteRequests.email, email)),
+    db
+      .select({
+        recipient: emailOutbox.recipient,
+        subject: emailOutbox.subject,
+        text: emailOutbox.text,
+        status: emailOutbox.status,
+        createdAt: emailOutbox.createdAt,
+        sentAt: emailOutbox.sentAt,
+      })
+      .from(emailOutbox)
+      .where(or(sameEmail(emailOutbox.recipient, email), sameEmail(emailOutbox.replyTo, email))),
+  ]);
+  const attachments =
+    quotes.length > 0
+      ? await db
+          .select()
+          .from(quoteAttachments)
+          .where(inArray(quoteAttachments.quoteRequestId, quotes.map((quote) => quote.id)))
+      : [];
+
+  return {
+    email: normalizeEmail(email),
+    exportedAt: new Date(),
+    contactSubmissions: submissions,
+    quoteRequests: quotes.map((quote) => ({
+      ...quote,
+      attachments: attachments.filter((attachment) => attachment.quoteRequestId === quote.id),
+    })),
+    emails,
+  };
+}
+export type PersonalDataExport = Awaited<ReturnType<typeof exportPersonalData>>;
+
+/**
+ * Deletes everything stored about an email address (art. 17 GDPR) and records
+ * who carried out the request, in the same transaction.
+ */
+export async function erasePersonalData(email: string, erasedBy: number) {
+  const deleted = await db.transaction(async (tx) => {
+    const submissions = await tx
+      .delete(contactSubmissions)
+      .where(sameEmail(contactSubmissions.email, email))
+      .returning({ id: contactSubmissions.id });
+    const quotes = await tx
+      .delete(quoteRequests)
+      .where(sameEmail(quoteRequests.email, email))
+      .returning({ id: quoteRequests.id });
+    const emails = await tx
+      .delete(emailOutbox)
+      .where(or(sameEmail(emailOutbox.recipient, email), sameEmail(emailOutbox.replyTo, email)))
+      .returning({ id: emailOutbox.id });
+    const counts = {
+      contactSubmissions: submissions.length,
+      quoteRequests: quotes.length,
+      emails: emails.length,
+    };
+    await tx.insert(personalDataErasures).values({ emailHash: hashEmail(email), ...counts, erasedBy });
+    return { quoteIds: quotes.map((quote) => quote.id), counts };
+  });
+
+  await removeQuotePhotos(deleted.quoteIds);
+  return deleted.counts;
+}
+
+// The attachment rows go with their quote; the files have to be removed here.
+async function removeQuotePhotos(quoteIds: number[]) {
+  await Promise.all(
+    quoteIds.map((id) => fs.rm(path.join(QUOTE_UPLOADS_DIR, String(id)), { recursive: true, force: true })),
+  );
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+/** Deletes the data that is past its retention period (DATA_RETENTION_DAYS). */
+export async function purgeExpiredPersonalData() {
+  const submissions = await db
+    .delete(contactSubmissions)
+    .where(
+      or(
+        lt(contactSubmissions.createdAt, daysAgo(DATA_RETENTION_DAYS.contactSubmissions)),
+        and(eq(contactSubmissions.isSpam, true), lt(contactSubmissions.createdAt, daysAgo(DATA_RETENTION_DAYS.spam))),
+      ),
+    )
+    .returning({ id: contactSubmissions.id });
+
+  const quotes = await db
+    .delete(quoteRequests)
+    .where(
+      or(
+        and(ne(quoteRequests.status, "accepted"), lt(quoteRequests.statusChangedAt, daysAgo(DATA_RETENTION_DAYS.quoteRequests))),
+        lt(quoteRequests.statusChangedAt, daysAgo(DATA_RETENTION_DAYS.acceptedQuoteRequests)),
+      ),
+    )
+    .returning({ id: quoteRequests.id });
+  await removeQuotePhotos(quotes.map((quote) => quote.id));
+
+  // Pending emails are still being retried and are never purged.
+  const emails = await db
+    .delete(emailOutbox)
+    .where(and(inArray(emailOutbox.status, ["sent", "failed"]), lt(emailOutbox.createdAt, daysAgo(DATA_RETENTION_DAYS.emails))))
+    .returning({ id: emailOutbox.id });
+
+  const consents = await db
+    .delete(cookieConsents)
+    .where(lt(cookieConsents.createdAt, daysAgo(DATA_RETENTION_DAYS.cookieConsents)))
+    .returning({ id: cookieConsents.id });
+
+  return {
+    contactSubmissions: submissions.length,
+    quoteRequests: quotes.length,
+    emails: emails.length,
+    cookieConsents: consents.length,
+  };
+}
+
+const PURGE_INTERVAL = 24 * 60 * 60 * 1000;
+
+export function startPersonalDataPurge() {
+  const purge = () =>
+    purgeExpiredPersonalData()
+      .then((purged) => {
+        if (Object.values(purged).some((count) => count > 0)) {
+          console.log("Purged expired personal data:", purged);
+        }
+      })
+      .catch((error) => console.error("Personal data purge error:", error));
+  purge();
+  setInterval(purge, PURGE_INTERVAL).unref();
+}
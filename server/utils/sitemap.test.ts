@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkSiteUrl, getSiteUrl } from "./sitemap";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getSiteUrl", () => {
+  it("uses the configured origin", () => {
+    vi.stubEnv("SITE_URL", "https://www.example.it");
+    expect(getSiteUrl()).toBe("https://www.example.it");
+  });
+});
+
+describe("checkSiteUrl", () => {
+  it("requires SITE_URL in production", () => {
+    vi.stubEnv("SITE_URL", undefined);
+    expect(() => checkSiteUrl(true)).toThrow("SITE_URL must be set in production");
+    expect(() => checkSiteUrl(false)).not.toThrow();
+  });
+
+  it("rejects a SITE_URL that is not an http or https URL", () => {
+    vi.stubEnv("SITE_URL", "javascript:alert(1)");
+    expect(() => checkSiteUrl(true)).toThrow("SITE_URL must be an http or https URL");
+  });
+});
@@ -0,0 +1,91 @@
+import { DEFAULT_LOCALE, locales, localizePath, type Locale } from "@db/schema";
+
+export interface SitemapEntry {
+  path: string;
+  lastModified?: Date | null;
+}
+
+// Paths crawlers must never index, whatever the configuration adds.
+const ROBOTS_DISALLOWED_PATHS = ["/admin", "/api"];
+
+// The port the development server listens on.
+const DEVELOPMENT_SITE_URL = "http://localhost:5000";
+
+/**
+ * Public origin of the site, from SITE_URL. It is never taken from the
+ * request: the Host header is chosen by the client, and these URLs end up
+ * in emails, sitemaps and canonical links.
+ */
+export function getSiteUrl() {
+  return process.env.SITE_URL ?? DEVELOPMENT_SITE_URL;
+}
+
+/** Refuses to start a production server that cannot build absolute links. */
+export function checkSiteUrl(isProduction: boolean) {
+  const siteUrl = process.env.SITE_URL;
+  if (isProduction && !siteUrl) {
+    throw new Error("SITE_URL must be set in production");
+  }
+  if (siteUrl && !["http:", "https:"].includes(new URL(siteUrl).protocol)) {
+    throw new Error("SITE_URL must be an http or https URL");
+  }
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** The most recent of the given dates, ignoring missing ones. */
+export function latestDate(...dates: (Date | null | undefined)[]) {
+  return dates.reduce<Date | null>(
+    (latest, date) => (date && (!latest || date > latest) ? date : latest),
+    null,
+  );
+}
+
+// Every page is listed once per language, each copy pointing to the others
+// so search engines show visitors the version in their language.
+export function renderSitemap(entries: SitemapEntry[], siteUrl: string) {
+  const urls = entries.flatMap(({ path, lastModified }) => {
+    const href = (locale: Locale) => escapeXml(new URL(localizePath(path, locale), siteUrl).href);
+    const alternates = [
+      ...locales.map((locale) => `<xhtml:link rel="alternate" hreflang="${locale}" href="${href(locale)}"/>`),
+      `<xhtml:link rel="alternate" hreflang="x-default" href="${href(DEFAULT_LOCALE)}"/>`,
+    ].join("");
+    const lastmod = lastModified ? `<lastmod>${lastModified.toISOString()}</lastmod>` : "";
+    return locales.map((locale) => `  <url><loc>${href(locale)}</loc>${lastmod}${alternates}</url>`);
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+// ROBOTS_DISALLOW adds comma-separated paths to the disallowed ones, and
+// ROBOTS_DISALLOW_ALL=true keeps staging copies of the site out of search
+// engines altogether.
+export function renderRobotsTxt(siteUrl: string) {
+  const extraPaths = (process.env.ROBOTS_DISALLOW ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const disallowed =
+    process.env.ROBOTS_DISALLOW_ALL === "true" ? ["/"] : [...ROBOTS_DISALLOWED_PATHS, ...extraPaths];
+
+  return [
+    "User-agent: *",
+    ...disallowed.map((entry) => `Disallow: ${entry}`),
+    "",
+    `Sitemap: ${new URL("/sitemap.xml", siteUrl).href}`,
+    "",
+  ].join("\n");
+}
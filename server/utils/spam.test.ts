@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { contactFormSchema, type ContactFormData } from "@db/schema";
+import { SPAM_THRESHOLD, createRateLimiter, looksAutomated, scoreContactSubmission } from "./spam";
+
+function submission(overrides: Partial<ContactFormData> = {}): ContactFormData {
+  return {
+    name: "Mario Rossi",
+    email: "mario.rossi@example.it",
+    phone: "0432 123456",
+    message: "Buongiorno, vorrei un preventivo per rifare il tetto della casa.",
+    privacyConsent: true,
+    privacyPolicyVersion: 1,
+    elapsedMs: 60_000,
+    ...overrides,
+  };
+}
+
+describe("scoreContactSubmission", () => {
+  it("accepts a genuine enquiry", () => {
+    expect(scoreContactSubmission(submission())).toEqual({ score: 0, reasons: [], isSpam: false });
+  });
+
+  it("flags a filled honeypot on its own", () => {
+    const verdict = scoreContactSubmission(submission({ website: "https://example.com" }));
+    expect(verdict.isSpam).toBe(true);
+    expect(verdict.reasons).toContain("Campo nascosto compilato");
+  });
+
+  it("flags a form sent within seconds of loading", () => {
+    const verdict = scoreContactSubmission(submission({ elapsedMs: 1000 }));
+    expect(verdict.score).toBe(SPAM_THRESHOLD);
+    expect(verdict.isSpam).toBe(true);
+  });
+
+  it("accepts a form filled in for at least three seconds", () => {
+    expect(scoreContactSubmission(submission({ elapsedMs: 2999 })).isSpam).toBe(true);
+    expect(scoreContactSubmission(submission({ elapsedMs: 3000 })).isSpam).toBe(false);
+  });
+
+  it("flags a form without a fill time as harshly as an instant one", () => {
+    const verdict = scoreContactSubmission(submission({ elapsedMs: undefined }));
+    expect(verdict.score).toBe(SPAM_THRESHOLD);
+    expect(verdict.isSpam).toBe(true);
+  });
+
+  it("treats a malformed fill time as a missing one", () => {
+    const parsed = contactFormSchema.parse({ ...submission(), elapsedMs: "60000" });
+    expect(parsed.elapsedMs).toBeUndefined();
+    expect(scoreContactSubmission(parsed).isSpam).toBe(true);
+  });
+
+  it("tolerates one link but not a list of them", () => {
+    const oneLink = submission({ message: "Ecco l'annuncio della casa: https://example.it/annuncio/1" });
+    expect(scoreContactSubmission(oneLink).isSpam).toBe(false);
+
+    const manyLinks = submission({ message: "https://a.example www.b.example https://c.example" });
+    expect(scoreContactSubmission(manyLinks)).toMatchObject({ score: 5, isSpam: true });
+  });
+
+  it("adds up spam phrases and links in the name", () => {
+    const verdict = scoreContactSubmission(
+      submission({ name: "www.seo.example", message: "We offer SEO services and backlink packages." }),
+    );
+    expect(verdict.reasons).toEqual(['Link nel nome', 'Contiene "backlink"', 'Contiene "seo services"']);
+    expect(verdict.score).toBe(9);
+  });
+});
+
+describe("looksAutomated", () => {
+  it("passes a form filled in by a person", () => {
+    expect(looksAutomated({ website: "", elapsedMs: 90_000 })).toBe(false);
+  });
+
+  it("catches a filled honeypot or an instant submission", () => {
+    expect(looksAutomated({ website: "https://example.com", elapsedMs: 90_000 })).toBe(true);
+    expect(looksAutomated({ elapsedMs: 800 })).toBe(true);
+  });
+
+  it("catches a form posted without its fill time", () => {
+    expect(looksAutomated({})).toBe(true);
+  });
+});
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows up to the limit within the window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    expect(limiter.hit("1.2.3.4")).toBe(true);
+    expect(limiter.hit("1.2.3.4")).toBe(true);
+    expect(limiter.hit("1.2.3.4")).toBe(false);
+  });
+
+  it("counts each key separately", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    expect(limiter.hit("1.2.3.4")).toBe(true);
+    expect(limiter.hit("5.6.7.8")).toBe(true);
+    expect(limiter.hit("1.2.3.4")).toBe(false);
+  });
+
+  it("lets requests through again as earlier ones leave the window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.hit("1.2.3.4");
+    vi.advanceTimersByTime(30_000);
+    limiter.hit("1.2.3.4");
+
+    vi.advanceTimersByTime(30_001);
+    expect(limiter.hit("1.2.3.4")).toBe(true);
+    expect(limiter.hit("1.2.3.4")).toBe(false);
+  });
+});
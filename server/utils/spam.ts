@@ -0,0 +1,114 @@
+import type { AntiSpamFields, ContactFormData } from "@db/schema";
+
+// Submissions scoring this much or more go to the spam folder.
+export const SPAM_THRESHOLD = 5;
+
+// People need a few seconds to fill in a form; bots do not.
+const MIN_FILL_TIME_MS = 3000;
+
+// Lowercase; matched anywhere in the name or message.
+const SPAM_PHRASES = [
+  "viagra",
+  "cialis",
+  "casino",
+  "crypto",
+  "bitcoin",
+  "forex",
+  "backlink",
+  "seo services",
+  "first page of google",
+  "guest post",
+  "web design services",
+  "loan offer",
+  "click here",
+  "unsubscribe",
+];
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\.|\[url=|<a\s/i;
+
+export interface SpamVerdict {
+  score: number;
+  reasons: string[];
+  isSpam: boolean;
+}
+
+export function scoreContactSubmission(form: ContactFormData): SpamVerdict {
+  const reasons: string[] = [];
+  let score = 0;
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (form.website) {
+    flag(10, "Campo nascosto compilato");
+  }
+
+  // Measured by the browser on its own clock; comparing a timestamp from the
+  // visitor's device with the server's time would turn clock skew into spam.
+  // The form always sends it, so only a script posting directly leaves it out.
+  if (form.elapsedMs === undefined) {
+    flag(5, "Tempo di compilazione mancante");
+  } else if (form.elapsedMs < MIN_FILL_TIME_MS) {
+    flag(5, `Compilato in ${Math.round(form.elapsedMs / 1000)} s`);
+  }
+
+  const links = form.message.match(new RegExp(LINK_PATTERN, "gi"))?.length ?? 0;
+  if (links > 0) {
+    // A link or two can be genuine, e.g. a listing of the property.
+    flag(links >= 3 ? links + 2 : links, `${links} link nel messaggio`);
+  }
+  if (LINK_PATTERN.test(form.name)) {
+    flag(3, "Link nel nome");
+  }
+
+  const text = `${form.name}\n${form.message}`.toLowerCase();
+  for (const phrase of SPAM_PHRASES) {
+    if (text.includes(phrase)) {
+      flag(3, `Contiene "${phrase}"`);
+    }
+  }
+
+  return { score, reasons, isSpam: score >= SPAM_THRESHOLD };
+}
+
+/**
+ * The checks the quote and testimonial forms rely on: a filled honeypot, or a
+ * form sent within seconds or without its fill time. Those forms have no spam
+ * folder, so unlike the contact score this only flags what no person would do.
+ */
+export function looksAutomated({ website, elapsedMs }: AntiSpamFields) {
+  return Boolean(website) || elapsedMs === undefined || elapsedMs < MIN_FILL_TIME_MS;
+}
+
+/**
+ * Counts requests per key (an IP address, an email) over a sliding window.
+ * Kept in memory: limits reset when the server restarts, which is fine for
+ * slowing down floods from a single source.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const hits = new Map<string, number[]>();
+
+  // Forget keys whose requests have all left the window.
+  setInterval(() => {
+    const since = Date.now() - windowMs;
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= since) {
+        hits.delete(key);
+      }
+    });
+  }, windowMs).unref();
+
+  return {
+    /** Records a request; false once the key is over the limit. */
+    hit(key: string) {
+      const now = Date.now();
+      const times = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+      times.push(now);
+      hits.set(key, times);
+      return times.length <= limit;
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
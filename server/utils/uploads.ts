@@ -0,0 +1,103 @@
+import type { Request, RequestHandler } from "express";
+import path from "path";
+import multer from "multer";
+import { certificationDocumentLimits, quotePhotoLimits } from "@db/schema";
+
+export const CERTIFICATION_UPLOADS_DIR = path.join(process.cwd(), "uploads", "certifications");
+
+// Carries the response message for a file rejected by its MIME type.
+class UnsupportedFileTypeError extends Error {}
+
+function memoryStorage(mimeTypes: string[], message: string) {
+  return {
+    storage: multer.memoryStorage(),
+    fileFilter: (_req: Request, file: Express.Multer.File, callback: multer.FileFilterCallback) => {
+      if (!mimeTypes.includes(file.mimetype)) {
+        return callback(new UnsupportedFileTypeError(message));
+      }
+      callback(null, true);
+    },
+  };
+}
+
+const photoStorage = memoryStorage(quotePhotoLimits.mimeTypes, "Only JPEG, PNG and WebP photos are accepted");
+
+const MAX_FILE_SIZE_MESSAGE = `Photos must be smaller than ${quotePhotoLimits.maxFileSize / 1024 / 1024} MB`;
+
+// Runs a multer middleware and turns its validation errors into 400 responses.
+function withUploadErrors(
+  upload: RequestHandler,
+  messages: Partial<Record<multer.ErrorCode, string>>,
+): RequestHandler {
+  return (req, res, next) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({
+          message: messages[error.code] ?? "Invalid upload",
+        });
+      }
+      if (error instanceof UnsupportedFileTypeError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      next(error);
+    });
+  };
+}
+
+// Parses the optional `photos` files of a multipart quote request into memory.
+// JSON requests pass straight through, so the endpoint accepts both.
+export const quotePhotoUpload = withUploadErrors(
+  multer({
+    ...photoStorage,
+    limits: {
+      files: quotePhotoLimits.maxFiles,
+      fileSize: quotePhotoLimits.maxFileSize,
+    },
+  }).array("photos", quotePhotoLimits.maxFiles),
+  {
+    LIMIT_FILE_SIZE: MAX_FILE_SIZE_MESSAGE,
+    LIMIT_FILE_COUNT: `At most ${quotePhotoLimits.maxFiles} photos can be attached`,
+    LIMIT_UNEXPECTED_FILE: `Attach at most ${quotePhotoLimits.maxFiles} files in the "photos" field`,
+  },
+);
+
+// One `before` and one `after` photo for the comparison slider.
+export const beforeAfterUpload = withUploadErrors(
+  multer({
+    ...photoStorage,
+    limits: { files: 2, fileSize: quotePhotoLimits.maxFileSize },
+  }).fields([
+    { name: "before", maxCount: 1 },
+    { name: "after", maxCount: 1 },
+  ]),
+  {
+    LIMIT_FILE_SIZE: MAX_FILE_SIZE_MESSAGE,
+    LIMIT_UNEXPECTED_FILE: 'Send exactly one "before" and one "after" photo',
+  },
+);
+
+// The optional PDF of a certificate, sent as `document`.
+export const certificationDocumentUpload = withUploadErrors(
+  multer({
+    ...memoryStorage(certificationDocumentLimits.mimeTypes, "Only PDF documents are accepted"),
+    limits: { files: 1, fileSize: certificationDocumentLimits.maxFileSize },
+  }).single("document"),
+  {
+    LIMIT_FILE_SIZE: `Documents must be smaller than ${certificationDocumentLimits.maxFileSize / 1024 / 1024} MB`,
+    LIMIT_UNEXPECTED_FILE: 'Send a single PDF in the "document" field',
+  },
+);
+
+// Multipart requests carry the form values as a JSON string in the `data` field.
+export function parseMultipartData(req: Request): unknown {
+  if (!req.is("multipart/form-data")) {
+    return req.body;
+  }
+
+  try {
+    return JSON.parse(req.body?.data ?? "{}");
+  } catch {
+    return undefined;
+  }
+}
@@ -1,12 +1,36 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request } from "express";
 import fs from "fs";
 import path, { dirname } from "path";
-import { fileURLToPath } from "url";
+import { fileURLToPath, pathToFileURL } from "url";
 import { createServer as createViteServer } from "vite";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 import { type Server } from "http";
 import viteConfig from "../vite.config";
+import { fillTemplate } from "./utils/htmlTemplate";
+import { getSiteUrl } from "./utils/sitemap";
+import type { render as renderPage } from "../client/src/entry-server";
+
+type Render = typeof renderPage;
+
+// The admin area needs the visitor's session and is not meant for search
+// engines, so it stays client-rendered.
+const CLIENT_ONLY_PATHS = ["/admin"];
+
+function isServerRendered(req: Request) {
+  return (
+    req.method === "GET" &&
+    !CLIENT_ONLY_PATHS.some((prefix) => req.path === prefix || req.path.startsWith(`${prefix}/`))
+  );
+}
+
+function renderOptions(req: Request) {
+  return {
+    // Pages fetch their data from this same server over loopback.
+    apiOrigin: `http://127.0.0.1:${req.socket.localPort}`,
+    siteUrl: getSiteUrl(),
+  };
+}
 
 export async function setupVite(app: Express, server: Server) {
   const vite = await createViteServer({
@@ -32,9 +56,17 @@ export async function setupVite(app: Express, server: Server) {
       );
 
       // always reload the index.html file from disk incase it changes
-      const template = await fs.promises.readFile(clientTemplate, "utf-8");
-      const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      let template = await fs.promises.readFile(clientTemplate, "utf-8");
+      template = await vite.transformIndexHtml(url, template);
+
+      if (!isServerRendered(req)) {
+        return res.status(200).set({ "Content-Type": "text/html" }).end(fillTemplate(template));
+      }
+
+      // Loaded on every request so edits are picked up without a restart.
+      const { render } = (await vite.ssrLoadModule("/src/entry-server.tsx")) as { render: Render };
+      const rendered = await render(url, renderOptions(req));
+      res.status(rendered.status).set({ "Content-Type": "text/html" }).end(fillTemplate(template, rendered));
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -44,6 +76,7 @@ export async function setupVite(app: Express, server: Server) {
 
 export function serveStatic(app: Express) {
   const distPath = path.resolve(__dirname, "public");
+  const serverEntry = path.resolve(__dirname, "server", "entry-server.js");
 
   if (!fs.existsSync(distPath)) {
     throw new Error(
@@ -51,10 +84,28 @@ export function serveStatic(app: Express) {
     );
   }
 
-  app.use(express.static(distPath));
+  const template = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+  // Without the server bundle every page falls back to client rendering.
+  const renderer: Promise<Render | null> = fs.existsSync(serverEntry)
+    ? import(pathToFileURL(serverEntry).href).then((module: { render: Render }) => module.render)
+    : Promise.resolve(null);
+
+  // index.html is only a template: "/" must go through the renderer below.
+  app.use(express.static(distPath, { index: false }));
+
+  app.use("*", async (req, res) => {
+    const render = isServerRendered(req) ? await renderer : null;
+    if (!render) {
+      return res.status(200).set({ "Content-Type": "text/html" }).end(fillTemplate(template));
+    }
 
-  // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+    try {
+      const rendered = await render(req.originalUrl, renderOptions(req));
+      res.status(rendered.status).set({ "Content-Type": "text/html" }).end(fillTemplate(template, rendered));
+    } catch (error) {
+      // A page that fails to render on the server can still work in the browser.
+      console.error(`Server rendering failed for ${req.originalUrl}`, error);
+      res.status(200).set({ "Content-Type": "text/html" }).end(fillTemplate(template));
+    }
   });
 }
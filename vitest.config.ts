@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+const __dirname = import.meta.dirname;
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@db": path.resolve(__dirname, "db"),
+    },
+  },
+  // Components are written for the automatic runtime, as in the Vite build.
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    include: ["{client,db,server}/**/*.test.ts"],
+    environment: "node",
+  },
+});